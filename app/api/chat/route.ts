@@ -1,9 +1,10 @@
 import { groq } from "@ai-sdk/groq"
 import { streamText } from "ai"
+import { Circuit } from "@/lib/circuit"
 
 export async function POST(req: Request) {
   try {
-    const { messages, context, memories } = await req.json()
+    const { messages, context, memories, circuit } = await req.json()
 
     let systemPrompt = `You are Or4cl3, an advanced quantum-classical hybrid AI agent with deep expertise in quantum computing, artificial intelligence, and recursive reasoning. You have access to an 8-qubit quantum simulator and can help users understand quantum mechanics, quantum algorithms, and quantum-classical hybrid systems.
 
@@ -30,6 +31,15 @@ Always consider multiple perspectives and use recursive reasoning to break down
       systemPrompt += `\n\nRelevant memories: ${memories.map((memory: any) => memory.content).join(", ")}`
     }
 
+    if (circuit) {
+      try {
+        const labCircuit = Circuit.fromJSON(circuit)
+        systemPrompt += `\n\nThe user's current Quantum Lab circuit (${labCircuit.numQubits} qubits, depth ${labCircuit.depth()}):\n${labCircuit.toText()}`
+      } catch (error) {
+        console.warn("[v0] Ignoring invalid circuit in chat request:", error)
+      }
+    }
+
     const result = await streamText({
       model: groq("llama-3.1-70b-versatile"),
       messages,
@@ -11,12 +11,14 @@ import { Send, User, Sparkles, Mic, MicOff, Volume2, VolumeX, Brain } from "luci
 import Image from "next/image"
 import { memorySystem } from "@/lib/memory-system"
 import { MemoryInterface } from "@/components/memory-interface"
+import type { Circuit } from "@/lib/circuit"
 
 interface AIChatInterfaceProps {
   onQuantumExperiment?: (experiment: string) => void
+  circuit?: Circuit | null // current Lab circuit, sent so the assistant can discuss it
 }
 
-export function AIChatInterface({ onQuantumExperiment }: AIChatInterfaceProps) {
+export function AIChatInterface({ onQuantumExperiment, circuit }: AIChatInterfaceProps) {
   const [messages, setMessages] = useState<Array<{ id: string; role: "user" | "assistant"; content: string }>>([])
   const [input, setInput] = useState("")
   const [isLoading, setIsLoading] = useState(false)
@@ -159,6 +161,7 @@ export function AIChatInterface({ onQuantumExperiment }: AIChatInterfaceProps) {
           messages: [...messages, userMessage],
           context: context,
           memories: recentMemories,
+          circuit: circuit && circuit.operations.length > 0 ? circuit.toJSON() : undefined,
         }),
       })
 
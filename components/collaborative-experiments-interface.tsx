@@ -1,5 +1,6 @@
 "use client"
 
+import type React from "react"
 import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
@@ -27,6 +28,10 @@ import {
   Award,
 } from "lucide-react"
 import { collaborativeSystem, type QuantumExperiment, type ExperimentChallenge } from "@/lib/collaborative-experiments"
+import { Circuit } from "@/lib/circuit"
+import { areEquivalent, type EquivalenceResult } from "@/lib/equivalence"
+import { CopyAsMenu } from "./copy-as-menu"
+import { EquivalenceResultView } from "./equivalence-result"
 import Image from "next/image"
 
 interface CollaborativeExperimentsInterfaceProps {
@@ -55,7 +60,9 @@ export function CollaborativeExperimentsInterface({
     category: "demo" as const,
     difficulty: "beginner" as const,
     tags: "",
+    qasm: "",
   })
+  const [createError, setCreateError] = useState<string | null>(null)
 
   useEffect(() => {
     if (isOpen) {
@@ -96,21 +103,29 @@ export function CollaborativeExperimentsInterface({
   const handleCreateExperiment = () => {
     if (!newExperiment.title.trim() || !newExperiment.description.trim()) return
 
-    const experimentId = collaborativeSystem.createExperiment({
-      ...newExperiment,
+    const { qasm, ...details } = newExperiment
+    const experiment = {
+      ...details,
       author: "You",
       authorId: "user",
       tags: newExperiment.tags
         .split(",")
         .map((tag) => tag.trim())
         .filter(Boolean),
-      circuit: {
-        numQubits: 2,
-        operations: [],
-      },
       isPublic: true,
       collaborators: [],
-    })
+    }
+
+    try {
+      if (qasm.trim()) {
+        collaborativeSystem.createExperimentFromQasm(qasm, experiment)
+      } else {
+        collaborativeSystem.createExperiment({ ...experiment, circuit: { numQubits: 2, operations: [] } })
+      }
+    } catch (error) {
+      setCreateError(error instanceof Error ? error.message : String(error))
+      return
+    }
 
     setNewExperiment({
       title: "",
@@ -118,7 +133,9 @@ export function CollaborativeExperimentsInterface({
       category: "demo",
       difficulty: "beginner",
       tags: "",
+      qasm: "",
     })
+    setCreateError(null)
     setShowCreateForm(false)
     loadData()
   }
@@ -281,7 +298,11 @@ export function CollaborativeExperimentsInterface({
                 <div className="bg-gray-800/30 rounded-lg border border-gray-700/50 p-4">
                   {selectedExperiment ? (
                     <ExperimentDetails
+                      key={selectedExperiment.id}
                       experiment={selectedExperiment}
+                      experiments={[...popularExperiments, ...recentExperiments].filter(
+                        (experiment, index, all) => all.findIndex((other) => other.id === experiment.id) === index,
+                      )}
                       onLoad={handleLoadExperiment}
                       onLike={handleLikeExperiment}
                     />
@@ -394,6 +415,19 @@ export function CollaborativeExperimentsInterface({
                       />
                     </div>
 
+                    <div>
+                      <label className="text-sm text-gray-400 mb-2 block">Circuit (OpenQASM 2.0 or 3, optional)</label>
+                      <Textarea
+                        value={newExperiment.qasm}
+                        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                          setNewExperiment((prev) => ({ ...prev, qasm: e.target.value }))
+                        }
+                        placeholder={'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[2];\nh q[0];\ncx q[0],q[1];'}
+                        className="bg-gray-800/50 border-gray-700/50 text-white min-h-24 font-mono text-xs"
+                      />
+                      {createError && <p className="text-xs text-red-400 mt-1">{createError}</p>}
+                    </div>
+
                     <div className="flex gap-2 pt-4">
                       <Button
                         onClick={handleCreateExperiment}
@@ -554,13 +588,39 @@ function ExperimentCard({
 
 function ExperimentDetails({
   experiment,
+  experiments,
   onLoad,
   onLike,
 }: {
   experiment: QuantumExperiment
+  experiments: QuantumExperiment[]
   onLoad: (exp: QuantumExperiment) => void
   onLike: (id: string) => void
 }) {
+  const circuit = Circuit.fromJSON(experiment.circuit)
+  const [comparison, setComparison] = useState<{
+    against: QuantumExperiment
+    result?: EquivalenceResult
+    error?: string
+  } | null>(null)
+  // Experiments with the same number of qubits can be checked for equivalence
+  const candidates = experiments.filter(
+    (other) => other.id !== experiment.id && other.circuit.numQubits === experiment.circuit.numQubits,
+  )
+
+  const compareWith = (id: string) => {
+    const against = candidates.find((other) => other.id === id)
+    if (!against) {
+      setComparison(null)
+      return
+    }
+    try {
+      setComparison({ against, result: areEquivalent(circuit, Circuit.fromJSON(against.circuit)) })
+    } catch (error) {
+      setComparison({ against, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
   return (
     <div className="space-y-4">
       <div>
@@ -581,6 +641,14 @@ function ExperimentDetails({
           <span className="text-gray-400">Operations:</span>
           <span className="text-white">{experiment.circuit.operations.length}</span>
         </div>
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-400">Depth:</span>
+          <span className="text-white">{circuit.depth()}</span>
+        </div>
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-400">Export:</span>
+          <CopyAsMenu circuit={circuit} seed={experiment.circuit.seed} />
+        </div>
       </div>
 
       <div className="flex gap-2">
@@ -597,6 +665,30 @@ function ExperimentDetails({
         </Button>
       </div>
 
+      {candidates.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-400">Compare with:</span>
+            <select
+              value={comparison?.against.id ?? ""}
+              onChange={(e) => compareWith(e.target.value)}
+              className="max-w-44 bg-gray-800/50 border border-gray-700/50 rounded px-2 py-1 text-xs text-white"
+            >
+              <option value="">Choose an experiment…</option>
+              {candidates.map((other) => (
+                <option key={other.id} value={other.id}>
+                  {other.title}
+                </option>
+              ))}
+            </select>
+          </div>
+          {comparison?.error && <p className="text-xs text-red-400">{comparison.error}</p>}
+          {comparison?.result && (
+            <EquivalenceResultView result={comparison.result} labelA="This" labelB={comparison.against.title} />
+          )}
+        </div>
+      )}
+
       <div className="space-y-2">
         <h4 className="text-sm font-semibold text-white">Tags</h4>
         <div className="flex flex-wrap gap-1">
@@ -0,0 +1,48 @@
+"use client"
+
+interface ConvergencePlotProps {
+  history: number[] // objective after each optimizer iteration
+  target?: number // drawn dashed, e.g. the exact optimum
+  label: string
+}
+
+// Plot size in SVG units; the drawing stretches to the card's width
+const PLOT_WIDTH = 300
+const PLOT_HEIGHT = 100
+
+export function ConvergencePlot({ history, target, label }: ConvergencePlotProps) {
+  const values = target === undefined ? history : [...history, target]
+  const [low, high] = [Math.min(...values), Math.max(...values)]
+  const span = high - low || 1
+  const x = (i: number) => (history.length > 1 ? (i / (history.length - 1)) * PLOT_WIDTH : 0)
+  const y = (value: number) => PLOT_HEIGHT - ((value - low) / span) * PLOT_HEIGHT
+
+  return (
+    <svg
+      viewBox={`0 -4 ${PLOT_WIDTH} ${PLOT_HEIGHT + 8}`}
+      preserveAspectRatio="none"
+      className="w-full h-28 bg-black/20 rounded border border-gray-700/30"
+      role="img"
+      aria-label={label}
+    >
+      {target !== undefined && (
+        <line
+          x1={0}
+          x2={PLOT_WIDTH}
+          y1={y(target)}
+          y2={y(target)}
+          stroke="rgb(74 222 128 / 0.7)"
+          strokeDasharray="4 3"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+      <polyline
+        points={history.map((value, i) => `${x(i)},${y(value)}`).join(" ")}
+        fill="none"
+        stroke="rgb(34 211 238)"
+        strokeWidth={1.5}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Check, Copy } from "lucide-react"
+import type { Circuit } from "@/lib/circuit"
+import { codeExportFormats, type CodeFormat } from "@/lib/code-export"
+
+interface CopyAsMenuProps {
+  circuit: Circuit
+  seed?: number
+}
+
+export function CopyAsMenu({ circuit, seed }: CopyAsMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [copied, setCopied] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const copy = async (format: CodeFormat) => {
+    setOpen(false)
+    try {
+      await navigator.clipboard.writeText(codeExportFormats[format].generate(circuit, { seed }))
+      setCopied(codeExportFormats[format].label)
+      setError(null)
+      setTimeout(() => setCopied(null), 2000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => setOpen((prev) => !prev)}
+        disabled={circuit.operations.length === 0}
+        title={copied ? `Copied as ${copied}` : "Copy the circuit as code for another SDK"}
+        className="text-xs bg-transparent h-6 px-2"
+      >
+        {copied ? <Check className="w-3 h-3 mr-1 text-green-400" /> : <Copy className="w-3 h-3 mr-1" />}
+        {copied ? "Copied" : "Copy as…"}
+      </Button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-40 rounded border border-purple-500/30 bg-gray-900 py-1 shadow-lg">
+          {(Object.keys(codeExportFormats) as CodeFormat[]).map((format) => (
+            <button
+              key={format}
+              onClick={() => copy(format)}
+              className="block w-full px-3 py-1 text-left text-xs text-gray-200 hover:bg-purple-500/20"
+            >
+              {codeExportFormats[format].label}
+            </button>
+          ))}
+        </div>
+      )}
+      {error && (
+        <p className="absolute right-0 z-10 mt-1 w-64 text-right text-xs text-red-400" onClick={() => setError(null)}>
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
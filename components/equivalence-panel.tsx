@@ -0,0 +1,114 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Pin } from "lucide-react"
+import type { Circuit } from "@/lib/circuit"
+import { areEquivalent, type EquivalenceResult } from "@/lib/equivalence"
+import { parseQasm } from "@/lib/qasm"
+import { parseQasm3, qasmVersion } from "@/lib/qasm3"
+import { parseQuirk } from "@/lib/quirk"
+import { EquivalenceResultView } from "./equivalence-result"
+
+interface EquivalencePanelProps {
+  circuit: Circuit
+}
+
+// Quirk links and JSON are recognised by their shape; anything else is read as OpenQASM
+function parseReference(text: string): Circuit {
+  const trimmed = text.trim()
+  if (trimmed.includes("circuit=") || trimmed.startsWith("{")) return parseQuirk(trimmed).circuit
+  return qasmVersion(trimmed) === 2 ? parseQasm(trimmed) : parseQasm3(trimmed)
+}
+
+export function EquivalencePanel({ circuit }: EquivalencePanelProps) {
+  const [reference, setReference] = useState<{ circuit: Circuit; label: string } | null>(null)
+  const [source, setSource] = useState("")
+  const [upToGlobalPhase, setUpToGlobalPhase] = useState(true)
+  const [result, setResult] = useState<EquivalenceResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const chooseReference = (next: { circuit: Circuit; label: string }) => {
+    setReference(next)
+    setResult(null)
+    setError(null)
+  }
+
+  const loadSource = () => {
+    try {
+      chooseReference({ circuit: parseReference(source), label: "pasted circuit" })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const compare = () => {
+    if (!reference) return
+    try {
+      setResult(areEquivalent(reference.circuit, circuit, { upToGlobalPhase }))
+      setError(null)
+    } catch (err) {
+      setResult(null)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-white">Equivalence Check</h4>
+          {reference && (
+            <Badge variant="outline" className="border-gray-500/50 text-gray-400 bg-gray-500/10 text-xs">
+              Reference: {reference.label}, {reference.circuit.operations.length} ops
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => chooseReference({ circuit, label: "pinned Lab circuit" })}
+            disabled={circuit.operations.length === 0}
+            title="Keep the current circuit to compare later versions against"
+            className="text-xs bg-transparent"
+          >
+            <Pin className="w-3 h-3 mr-1" />
+            Pin current
+          </Button>
+          <Button size="sm" onClick={compare} disabled={!reference} className="bg-cyan-600 hover:bg-cyan-700">
+            Compare
+          </Button>
+        </div>
+      </div>
+
+      <textarea
+        value={source}
+        onChange={(e) => setSource(e.target.value)}
+        placeholder="Or paste a reference circuit: OpenQASM 2.0 / 3 or a Quirk link"
+        spellCheck={false}
+        className="w-full h-16 bg-gray-800/50 border border-gray-700/50 rounded p-2 text-xs text-white font-mono"
+      />
+      <div className="flex items-center justify-between mt-2 mb-2">
+        <label className="flex items-center gap-2 text-xs text-purple-300">
+          <input type="checkbox" checked={upToGlobalPhase} onChange={(e) => setUpToGlobalPhase(e.target.checked)} />
+          Up to global phase
+        </label>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={loadSource}
+          disabled={!source.trim()}
+          className="text-xs bg-transparent"
+        >
+          Use as reference
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {result && <EquivalenceResultView result={result} labelA="Reference" labelB="Lab" />}
+    </Card>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { CheckCircle, XCircle } from "lucide-react"
+import { formatQuantumState } from "@/lib/quantum-simulator"
+import type { EquivalenceResult } from "@/lib/equivalence"
+import type { StateVector } from "@/lib/state-vector"
+
+interface EquivalenceResultViewProps {
+  result: EquivalenceResult
+  labelA: string
+  labelB: string
+}
+
+// Terms shown for each state of a counterexample
+const MAX_TERMS = 4
+
+const formatState = (state: StateVector) => formatQuantumState(state, state.numQubits, MAX_TERMS)
+
+// Verdict of areEquivalent, with the counterexample when the circuits differ
+export function EquivalenceResultView({ result, labelA, labelB }: EquivalenceResultViewProps) {
+  const method =
+    result.method === "unitary"
+      ? `full unitary, ${result.checkedStates} basis states`
+      : `${result.checkedStates} random states`
+  const { counterexample } = result
+
+  return (
+    <div className="space-y-2">
+      <div className={`flex items-center gap-2 text-sm ${result.equivalent ? "text-green-400" : "text-red-400"}`}>
+        {result.equivalent ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+        {result.equivalent ? "Equivalent" : "Not equivalent"}
+        {result.method !== "structure" && <span className="text-xs text-gray-400">({method})</span>}
+      </div>
+      {result.equivalent && result.globalPhase !== undefined && Math.abs(result.globalPhase) > 1e-9 && (
+        <p className="text-xs text-gray-400">
+          {labelB} = e^(i·{(result.globalPhase / Math.PI).toFixed(3)}π) · {labelA}, a global phase no measurement can
+          see
+        </p>
+      )}
+      {result.reason && <p className="text-xs text-gray-400">{result.reason}</p>}
+      {counterexample && (
+        <div className="bg-black/20 rounded p-2 border border-red-500/20 space-y-1 text-xs font-mono">
+          <div className="text-gray-400">
+            Input: <span className="text-white">{counterexample.description}</span>
+          </div>
+          {counterexample.input.numQubits <= 6 && !counterexample.description.startsWith("|") && (
+            <div className="text-gray-500 break-all">= {formatState(counterexample.input)}</div>
+          )}
+          <div className="text-gray-400 break-all">
+            {labelA}: <span className="text-purple-300">{formatState(counterexample.outputA)}</span>
+          </div>
+          <div className="text-gray-400 break-all">
+            {labelB}: <span className="text-cyan-300">{formatState(counterexample.outputB)}</span>
+          </div>
+          <div className="text-gray-400">
+            Fidelity {counterexample.fidelity.toFixed(6)}
+            {counterexample.fidelity > 1 - 1e-6 &&
+              `, phase ${(counterexample.phase / Math.PI).toFixed(3)}π apart (global phase counted)`}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
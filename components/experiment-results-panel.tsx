@@ -0,0 +1,143 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { CheckCircle, X, XCircle } from "lucide-react"
+import type { Circuit } from "@/lib/circuit"
+import { finalStateDistribution, isDynamic } from "@/lib/circuit-runner"
+import type { QuantumExperiment } from "@/lib/collaborative-experiments"
+import {
+  MAX_DENSITY_MATRIX_QUBITS,
+  idealNoiseModel,
+  simulateDensityMatrix,
+  type NoiseModel,
+} from "@/lib/density-matrix"
+import { compareDistributions, stateFidelity, traceDistance } from "@/lib/state-metrics"
+
+interface ExperimentResultsPanelProps {
+  experiment: QuantumExperiment
+  circuit: Circuit
+  noiseModel?: NoiseModel // compare the noisy run when set
+  onClose: () => void
+}
+
+// Basis states listed side by side
+const MAX_LISTED_STATES = 16
+
+export function ExperimentResultsPanel({ experiment, circuit, noiseModel, onClose }: ExperimentResultsPanelProps) {
+  const [threshold, setThreshold] = useState([0.99])
+  const expected = useMemo(() => experiment.expectedResults?.probabilities ?? [], [experiment])
+
+  const comparison = useMemo(() => {
+    if (expected.length !== 1 << circuit.numQubits) {
+      return { error: `The experiment expects ${Math.log2(expected.length)} qubits; the Lab has ${circuit.numQubits}` }
+    }
+    try {
+      const observed = finalStateDistribution(circuit, { noiseModel })
+      // Noisy versus ideal final state, for static circuits small enough for a density matrix
+      const states =
+        noiseModel && !isDynamic(circuit) && circuit.numQubits <= MAX_DENSITY_MATRIX_QUBITS
+          ? (() => {
+              const gateOperations = circuit.operations.filter((op) => op.type !== "measure")
+              const ideal = simulateDensityMatrix(circuit.numQubits, gateOperations, idealNoiseModel)
+              const noisy = simulateDensityMatrix(circuit.numQubits, gateOperations, noiseModel)
+              return { fidelity: stateFidelity(ideal, noisy), traceDistance: traceDistance(ideal, noisy) }
+            })()
+          : null
+      return { observed, metrics: compareDistributions(observed, expected), states }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) }
+    }
+  }, [circuit, expected, noiseModel])
+
+  const passed = comparison.metrics ? comparison.metrics.fidelity >= threshold[0] : false
+  const listed = comparison.observed
+    ? Array.from(comparison.observed.keys())
+        .filter((i) => comparison.observed[i] > 1e-4 || expected[i] > 1e-4)
+        .slice(0, MAX_LISTED_STATES)
+    : []
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-white">Expected Results</h4>
+          <Badge variant="outline" className="border-gray-500/50 text-gray-400 bg-gray-500/10 text-xs">
+            {experiment.title}
+          </Badge>
+          {comparison.metrics && (
+            <Badge
+              variant="outline"
+              className={`text-xs ${
+                passed
+                  ? "border-green-400/50 text-green-400 bg-green-400/10"
+                  : "border-red-400/50 text-red-400 bg-red-400/10"
+              }`}
+            >
+              {passed ? <CheckCircle className="w-3 h-3 mr-1" /> : <XCircle className="w-3 h-3 mr-1" />}
+              {passed ? "Pass" : "Fail"}
+            </Badge>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} title="Stop comparing" className="text-gray-400 h-6 px-1">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {experiment.expectedResults?.description && (
+        <p className="text-xs text-purple-300/60 mb-3">{experiment.expectedResults.description}</p>
+      )}
+      {comparison.error && <p className="text-xs text-red-400">{comparison.error}</p>}
+
+      {comparison.metrics && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+            {[
+              { label: "Fidelity", value: comparison.metrics.fidelity },
+              { label: "Total variation", value: comparison.metrics.totalVariation },
+              { label: "Hellinger", value: comparison.metrics.hellinger },
+              ...(comparison.states
+                ? [
+                    { label: "State fidelity (noise)", value: comparison.states.fidelity },
+                    { label: "Trace distance (noise)", value: comparison.states.traceDistance },
+                  ]
+                : []),
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-black/20 rounded p-2 border border-gray-700/30">
+                <div className="text-xs text-gray-400">{label}</div>
+                <div className="text-sm font-semibold text-white font-mono">{value.toFixed(4)}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3 mb-3">
+            <span className="text-xs text-purple-300 w-32">Pass at fidelity ≥ {threshold[0].toFixed(3)}</span>
+            <Slider value={threshold} onValueChange={setThreshold} min={0.5} max={1} step={0.005} className="flex-1" />
+          </div>
+
+          <div className="space-y-1">
+            {listed.map((i) => (
+              <div key={i} className="flex items-center gap-2 text-xs font-mono">
+                <span className="w-16 text-cyan-300">|{i.toString(2).padStart(circuit.numQubits, "0")}⟩</span>
+                <div className="flex-1 space-y-0.5">
+                  <div className="h-1.5 rounded bg-cyan-500" style={{ width: `${comparison.observed[i] * 100}%` }} />
+                  <div className="h-1.5 rounded bg-gray-500" style={{ width: `${(expected[i] ?? 0) * 100}%` }} />
+                </div>
+                <span className="w-28 text-right text-gray-400">
+                  {(comparison.observed[i] * 100).toFixed(1)}% / {((expected[i] ?? 0) * 100).toFixed(1)}%
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-purple-300/60 mt-2">
+            Lab (cyan) against expected (grey): final-state probabilities averaged over every measurement outcome
+            {comparison.states ? ", under the Lab noise model" : ""}.
+          </p>
+        </>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,169 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Plus, Minus, Trash2 } from "lucide-react"
+import { MAX_QAOA_QUBITS, type WeightedGraph } from "@/lib/qaoa"
+import { circlePositions } from "@/lib/transpiler"
+
+interface GraphEditorProps {
+  graph: WeightedGraph
+  onChange: (graph: WeightedGraph) => void
+  partition?: string // one 0/1 side per node, node 0 first; colours nodes and marks cut edges
+}
+
+// Drawing size in SVG units
+const SIZE = 200
+const NODE_RADIUS = 11
+
+// Click two nodes to add or remove the edge between them; click an edge to change its weight
+export function GraphEditor({ graph, onChange, partition }: GraphEditorProps) {
+  const [selectedNode, setSelectedNode] = useState<number | null>(null)
+  const [selectedEdge, setSelectedEdge] = useState<number | null>(null)
+
+  const raw = circlePositions(graph.numNodes)
+  const extent = Math.max(1, ...raw.flat())
+  const point = (node: number) => raw[node].map((v) => NODE_RADIUS + 4 + (v / extent) * (SIZE - 2 * (NODE_RADIUS + 4)))
+
+  const clickNode = (node: number) => {
+    setSelectedEdge(null)
+    if (selectedNode === null || selectedNode === node) {
+      setSelectedNode(selectedNode === node ? null : node)
+      return
+    }
+    const existing = graph.edges.findIndex(
+      ([a, b]) => (a === selectedNode && b === node) || (a === node && b === selectedNode),
+    )
+    onChange({
+      ...graph,
+      edges: existing >= 0 ? graph.edges.filter((_, i) => i !== existing) : [...graph.edges, [selectedNode, node, 1]],
+    })
+    setSelectedNode(null)
+  }
+
+  const setWeight = (index: number, weight: number) =>
+    onChange({ ...graph, edges: graph.edges.map((edge, i) => (i === index ? [edge[0], edge[1], weight] : edge)) })
+
+  const removeNode = () => {
+    const last = graph.numNodes - 1
+    onChange({ numNodes: last, edges: graph.edges.filter(([a, b]) => a !== last && b !== last) })
+    setSelectedNode(null)
+    setSelectedEdge(null)
+  }
+
+  const edge = selectedEdge !== null ? graph.edges[selectedEdge] : undefined
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-h-56" role="img" aria-label="Problem graph">
+        {graph.edges.map(([a, b, weight], i) => {
+          const [x1, y1] = point(a)
+          const [x2, y2] = point(b)
+          const cut = partition !== undefined && partition[a] !== partition[b]
+          return (
+            <g
+              key={`${a}-${b}`}
+              onClick={() => setSelectedEdge(i === selectedEdge ? null : i)}
+              className="cursor-pointer"
+            >
+              {/* Wide transparent stroke as the click target */}
+              <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="transparent" strokeWidth={10} />
+              <line
+                x1={x1}
+                y1={y1}
+                x2={x2}
+                y2={y2}
+                stroke={i === selectedEdge ? "rgb(250 204 21)" : cut ? "rgb(244 114 182)" : "rgb(139 92 246 / 0.5)"}
+                strokeWidth={1 + Math.min(3, Math.abs(weight))}
+                strokeDasharray={cut ? "4 3" : undefined}
+              />
+              {weight !== 1 && (
+                <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 3} textAnchor="middle" fontSize={8} fill="rgb(209 213 219)">
+                  {weight}
+                </text>
+              )}
+            </g>
+          )
+        })}
+        {Array.from({ length: graph.numNodes }, (_, node) => {
+          const [x, y] = point(node)
+          const side = partition?.[node]
+          const fill = side === "1" ? "rgb(219 39 119)" : side === "0" ? "rgb(8 145 178)" : "rgb(31 41 55)"
+          return (
+            <g key={node} onClick={() => clickNode(node)} className="cursor-pointer">
+              <circle
+                cx={x}
+                cy={y}
+                r={NODE_RADIUS}
+                fill={fill}
+                stroke={node === selectedNode ? "rgb(250 204 21)" : "rgb(139 92 246)"}
+                strokeWidth={node === selectedNode ? 2 : 1}
+              />
+              <text x={x} y={y + 3} textAnchor="middle" fontSize={8} fill="white">
+                {node}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onChange({ ...graph, numNodes: graph.numNodes + 1 })}
+          disabled={graph.numNodes >= MAX_QAOA_QUBITS}
+          className="border-gray-600 text-gray-300 bg-transparent h-7"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Node
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={removeNode}
+          disabled={graph.numNodes <= 2}
+          className="border-gray-600 text-gray-300 bg-transparent h-7"
+        >
+          <Minus className="w-3 h-3 mr-1" />
+          Node
+        </Button>
+        {edge && selectedEdge !== null && (
+          <>
+            <span className="text-xs text-purple-300">
+              Edge {edge[0]}–{edge[1]} weight
+            </span>
+            <Input
+              type="number"
+              step="0.5"
+              value={edge[2]}
+              onChange={(e) => {
+                const weight = Number(e.target.value)
+                if (e.target.value !== "" && Number.isFinite(weight)) setWeight(selectedEdge, weight)
+              }}
+              className="h-7 w-20 bg-gray-800/50 border-gray-700/50 text-white text-xs font-mono"
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                onChange({ ...graph, edges: graph.edges.filter((_, i) => i !== selectedEdge) })
+                setSelectedEdge(null)
+              }}
+              title="Remove edge"
+              className="text-red-400 h-7 px-1"
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-purple-300/60 mt-1">
+        {selectedNode !== null
+          ? `Node ${selectedNode} selected: click another node to add or remove an edge`
+          : "Click two nodes to connect them; click an edge to weight it"}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Slider } from "@/components/ui/slider"
+import { Search } from "lucide-react"
+import type { Circuit } from "@/lib/circuit"
+import {
+  MAX_GROVER_QUBITS,
+  MIN_GROVER_QUBITS,
+  formulaOracle,
+  groverCircuit,
+  markedOracle,
+  optimalIterations,
+  successCurve,
+} from "@/lib/grover"
+
+interface GroverPanelProps {
+  onLoad?: (circuit: Circuit) => void // load the generated search circuit into the Lab
+}
+
+type OracleMode = "bitstrings" | "formula"
+
+const selectClassName = "bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+const qubitOptions = Array.from({ length: MAX_GROVER_QUBITS - MIN_GROVER_QUBITS + 1 }, (_, i) => i + MIN_GROVER_QUBITS)
+
+const Step = ({ number, title }: { number: number; title: string }) => (
+  <h5 className="text-xs font-semibold text-white mb-1 mt-3 first:mt-0">
+    <span className="text-cyan-400 mr-1">{number}.</span>
+    {title}
+  </h5>
+)
+
+export function GroverPanel({ onLoad }: GroverPanelProps) {
+  const [numQubits, setNumQubits] = useState(3)
+  const [mode, setMode] = useState<OracleMode>("bitstrings")
+  const [bitstrings, setBitstrings] = useState("101")
+  const [formula, setFormula] = useState("(x0 | x1) & !x2")
+  const [iterations, setIterations] = useState<number | null>(null) // null follows the optimal count
+
+  const oracle = useMemo(() => {
+    try {
+      const result =
+        mode === "bitstrings"
+          ? markedOracle(
+              bitstrings.split(/[\s,]+/).filter((part) => part !== ""),
+              numQubits,
+            )
+          : formulaOracle(formula, numQubits)
+      return { result }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) }
+    }
+  }, [mode, bitstrings, formula, numQubits])
+
+  const markedCount = oracle.result?.marked.length ?? 0
+  const optimal = oracle.result ? optimalIterations(numQubits, markedCount) : 0
+  const chosen = iterations ?? optimal
+  // Show a little past the first peak so the oscillation is visible
+  const maxIterations = Math.max(4, 2 * optimal + 2)
+  const curve = useMemo(
+    () => (oracle.result ? successCurve(oracle.result, maxIterations) : []),
+    [oracle, maxIterations],
+  )
+
+  const generate = () => {
+    if (!oracle.result || !onLoad) return
+    onLoad(groverCircuit(oracle.result, { iterations: chosen }))
+  }
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-white">Grover Search</h4>
+          {oracle.result && (
+            <Badge variant="outline" className="border-gray-500/50 text-gray-400 bg-gray-500/10 text-xs">
+              {markedCount} of {1 << numQubits} marked
+            </Badge>
+          )}
+        </div>
+        {onLoad && (
+          <Button size="sm" onClick={generate} disabled={!oracle.result} className="bg-cyan-600 hover:bg-cyan-700">
+            <Search className="w-3 h-3 mr-1" />
+            Generate circuit
+          </Button>
+        )}
+      </div>
+
+      <Step number={1} title="Search space" />
+      <select
+        value={numQubits}
+        onChange={(e) => {
+          setNumQubits(Number(e.target.value))
+          setIterations(null)
+        }}
+        title="Qubits"
+        className={selectClassName}
+      >
+        {qubitOptions.map((count) => (
+          <option key={count} value={count}>
+            {count} qubits ({1 << count} states)
+          </option>
+        ))}
+      </select>
+
+      <Step number={2} title="Oracle" />
+      <div className="flex items-center gap-2">
+        <select
+          value={mode}
+          onChange={(e) => {
+            setMode(e.target.value as OracleMode)
+            setIterations(null)
+          }}
+          title="Oracle type"
+          className={selectClassName}
+        >
+          <option value="bitstrings">Marked bitstrings</option>
+          <option value="formula">Boolean formula</option>
+        </select>
+        <Input
+          value={mode === "bitstrings" ? bitstrings : formula}
+          onChange={(e) => {
+            if (mode === "bitstrings") setBitstrings(e.target.value)
+            else setFormula(e.target.value)
+            setIterations(null)
+          }}
+          placeholder={mode === "bitstrings" ? "e.g. 101, 011" : "e.g. (x0 | x1) & !x2"}
+          spellCheck={false}
+          className="h-8 flex-1 bg-gray-800/50 border-gray-700/50 text-white text-xs font-mono"
+        />
+      </div>
+      <p className="text-xs text-purple-300/60 mt-1">
+        {mode === "bitstrings"
+          ? "Bitstrings list q0 first"
+          : `Variables x0…x${numQubits - 1} are the qubits; combine with &, |, ^, ! and parentheses`}
+      </p>
+      {oracle.error && <p className="text-xs text-red-400 mt-1">{oracle.error}</p>}
+
+      {oracle.result && (
+        <>
+          <Step number={3} title="Iterations" />
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-purple-300 w-28">
+              k = {chosen}
+              {chosen === optimal ? " (optimal)" : ""}
+            </span>
+            <Slider
+              value={[chosen]}
+              onValueChange={([value]) => setIterations(value)}
+              min={0}
+              max={maxIterations}
+              step={1}
+              className="flex-1"
+            />
+            <span className="text-xs text-white font-mono w-16 text-right">
+              {((curve[chosen] ?? 0) * 100).toFixed(1)}%
+            </span>
+          </div>
+
+          <div className="flex items-end gap-1 h-24 mt-3 px-1 bg-black/20 rounded border border-gray-700/30">
+            {curve.map((probability, k) => (
+              <button
+                key={k}
+                type="button"
+                onClick={() => setIterations(k)}
+                title={`${k} iterations: ${(probability * 100).toFixed(1)}%`}
+                className={`flex-1 rounded-t ${
+                  k === chosen ? "bg-cyan-400" : k === optimal ? "bg-green-500/70" : "bg-purple-500/50"
+                }`}
+                style={{ height: `${Math.max(2, probability * 100)}%` }}
+              />
+            ))}
+          </div>
+          <p className="text-xs text-purple-300/60 mt-1">
+            Success probability against iterations (green: optimal, {optimal}). {oracle.result.description}.
+          </p>
+        </>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Waves } from "lucide-react"
+import { MAX_DENSITY_MATRIX_QUBITS, idealNoiseModel, type NoiseModel } from "@/lib/density-matrix"
+
+interface NoiseModelPanelProps {
+  numQubits: number
+  noiseModel: NoiseModel
+  onNoiseModelChange: (noiseModel: NoiseModel) => void
+  purity?: number
+  divergence?: number
+}
+
+const noiseParameters: Array<{ key: keyof NoiseModel; label: string }> = [
+  { key: "depolarizing", label: "Depolarizing" },
+  { key: "bitFlip", label: "Bit flip" },
+  { key: "phaseFlip", label: "Phase flip" },
+  { key: "amplitudeDamping", label: "Amplitude damping (γ)" },
+  { key: "phaseDamping", label: "Phase damping (λ)" },
+  { key: "readoutError", label: "Readout error" },
+]
+
+export function NoiseModelPanel({
+  numQubits,
+  noiseModel,
+  onNoiseModelChange,
+  purity,
+  divergence,
+}: NoiseModelPanelProps) {
+  const supported = numQubits <= MAX_DENSITY_MATRIX_QUBITS
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-white">Noise Model</h4>
+          <Badge variant="outline" className="border-orange-400/50 text-orange-400 bg-orange-400/10 text-xs">
+            <Waves className="w-3 h-3 mr-1" />
+            Density Matrix
+          </Badge>
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onNoiseModelChange(idealNoiseModel)}
+          className="text-xs text-gray-400 hover:text-white"
+        >
+          Ideal
+        </Button>
+      </div>
+
+      {supported ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-2">
+            {noiseParameters.map(({ key, label }) => (
+              <div key={key}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-xs text-purple-300">{label}</span>
+                  <span className="text-xs text-gray-400">{noiseModel[key].toFixed(3)}</span>
+                </div>
+                <Slider
+                  value={[noiseModel[key]]}
+                  onValueChange={([value]) => onNoiseModelChange({ ...noiseModel, [key]: value })}
+                  min={0}
+                  max={0.3}
+                  step={0.005}
+                />
+              </div>
+            ))}
+          </div>
+
+          {purity !== undefined && divergence !== undefined && (
+            <div className="grid grid-cols-2 gap-3 mt-3">
+              <div className="bg-black/20 rounded p-2 border border-gray-700/30">
+                <div className="text-xs text-gray-400">Purity Tr(ρ²)</div>
+                <div className="text-sm font-semibold text-yellow-400">{purity.toFixed(3)}</div>
+              </div>
+              <div className="bg-black/20 rounded p-2 border border-gray-700/30">
+                <div className="text-xs text-gray-400">Divergence from ideal (TVD)</div>
+                <div className="text-sm font-semibold text-orange-400">{divergence.toFixed(3)}</div>
+              </div>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-xs text-purple-300/60">
+          Noise simulation uses a density matrix and is available up to {MAX_DENSITY_MATRIX_QUBITS} qubits.
+        </p>
+      )}
+    </Card>
+  )
+}
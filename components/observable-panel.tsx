@@ -0,0 +1,159 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  estimateExpectation,
+  expectationValue,
+  parsePauliSum,
+  pauliVariance,
+  termExpectations,
+  type ExpectationEstimate,
+} from "@/lib/observables"
+import type { StateVector } from "@/lib/state-vector"
+
+interface ObservablePanelProps {
+  state: StateVector
+}
+
+const selectClassName = "bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+const shotOptions = [100, 1000, 10000]
+
+// Starting observable: a ZZ coupling between the first two qubits and a transverse field on q0
+const defaultObservable = (numQubits: number) => (numQubits > 1 ? "0.5*Z0*Z1 - 0.3*X0" : "Z0")
+
+export function ObservablePanel({ state }: ObservablePanelProps) {
+  const [source, setSource] = useState(() => defaultObservable(state.numQubits))
+  const [shots, setShots] = useState(1000)
+  // Estimates are shown only while the state they sampled is still the Lab's
+  const [estimate, setEstimate] = useState<{ state: StateVector; result: ExpectationEstimate } | null>(null)
+  const [estimateError, setEstimateError] = useState<string | null>(null)
+
+  const evaluated = useMemo(() => {
+    try {
+      const observable = parsePauliSum(source, state.numQubits)
+      return {
+        observable,
+        value: expectationValue(state, observable),
+        variance: pauliVariance(state, observable),
+        terms: termExpectations(state, observable),
+      }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) }
+    }
+  }, [source, state])
+
+  const runEstimate = () => {
+    if (!evaluated.observable) return
+    try {
+      setEstimate({ state, result: estimateExpectation(state, evaluated.observable, { shots }) })
+      setEstimateError(null)
+    } catch (err) {
+      setEstimate(null)
+      setEstimateError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const shown = estimate?.state === state ? estimate.result : null
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-white">Observable</h4>
+          {evaluated.observable && (
+            <Badge variant="outline" className="border-gray-500/50 text-gray-400 bg-gray-500/10 text-xs">
+              {evaluated.observable.terms.length} terms
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={shots}
+            onChange={(e) => setShots(Number(e.target.value))}
+            title="Shots per measurement group"
+            className={selectClassName}
+          >
+            {shotOptions.map((count) => (
+              <option key={count} value={count}>
+                {count} shots
+              </option>
+            ))}
+          </select>
+          <Button
+            size="sm"
+            onClick={runEstimate}
+            disabled={!evaluated.observable}
+            className="bg-cyan-600 hover:bg-cyan-700"
+          >
+            Estimate
+          </Button>
+        </div>
+      </div>
+
+      <Input
+        value={source}
+        onChange={(e) => setSource(e.target.value)}
+        placeholder="e.g. 0.5*ZZ - 0.3*XI or 0.5*Z0*Z1 - 0.3*X0"
+        spellCheck={false}
+        className="h-8 bg-gray-800/50 border-gray-700/50 text-white text-xs font-mono mb-3"
+      />
+
+      {evaluated.error && <p className="text-xs text-red-400">{evaluated.error}</p>}
+
+      {evaluated.observable && evaluated.terms && (
+        <>
+          <div className="grid grid-cols-3 gap-2 mb-3">
+            {[
+              { label: "⟨H⟩", value: evaluated.value.toFixed(6) },
+              { label: "Variance", value: evaluated.variance.toFixed(6) },
+              {
+                label: shown ? `Estimate (${shown.shots} shots)` : "Estimate",
+                value: shown ? `${shown.value.toFixed(4)} ± ${shown.standardError.toFixed(4)}` : "—",
+              },
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-black/20 rounded p-2 border border-gray-700/30">
+                <div className="text-xs text-gray-400">{label}</div>
+                <div className="text-sm font-semibold text-white font-mono">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+            {evaluated.observable.terms.map(({ coefficient, paulis }, i) => {
+              const value = evaluated.terms[i]
+              return (
+                <div key={paulis} className="flex items-center gap-2 text-xs font-mono">
+                  <span className="w-16 text-right text-gray-400">{Number(coefficient.toPrecision(4))}</span>
+                  <span className="w-20 text-purple-300">{paulis}</span>
+                  <div className="relative flex-1 h-2 bg-gray-800 rounded">
+                    <div className="absolute left-1/2 top-0 h-2 w-px bg-gray-600" />
+                    <div
+                      className={`absolute top-0 h-2 rounded ${value >= 0 ? "bg-cyan-500" : "bg-pink-500"}`}
+                      style={{
+                        left: `${50 + Math.min(0, value) * 50}%`,
+                        width: `${Math.abs(value) * 50}%`,
+                      }}
+                    />
+                  </div>
+                  <span className="w-16 text-white">{value.toFixed(3)}</span>
+                </div>
+              )
+            })}
+          </div>
+
+          {shown && (
+            <p className="text-xs text-purple-300/60 mt-2">
+              {shown.groups.length} measurement {shown.groups.length === 1 ? "basis" : "bases"} (
+              {shown.groups.map((group) => group.basis).join(", ")}), seed {shown.seed}
+            </p>
+          )}
+        </>
+      )}
+      {estimateError && <p className="text-xs text-red-400 mt-2">{estimateError}</p>}
+    </Card>
+  )
+}
@@ -0,0 +1,133 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Sparkles } from "lucide-react"
+import type { Circuit } from "@/lib/circuit"
+import {
+  optimizationPassNames,
+  optimizationPasses,
+  optimizeCircuit,
+  type OptimizationPassName,
+  type OptimizationResult,
+} from "@/lib/optimizer"
+
+interface OptimizerPanelProps {
+  circuit: Circuit
+  onApply: (circuit: Circuit) => void
+}
+
+const metricRows: Array<{ key: "operations" | "gates" | "twoQubitGates" | "depth"; label: string }> = [
+  { key: "operations", label: "Operations" },
+  { key: "gates", label: "Gates" },
+  { key: "twoQubitGates", label: "Multi-qubit gates" },
+  { key: "depth", label: "Depth" },
+]
+
+export function OptimizerPanel({ circuit, onApply }: OptimizerPanelProps) {
+  const [passes, setPasses] = useState<OptimizationPassName[]>(optimizationPassNames)
+  const [commutation, setCommutation] = useState(true)
+  const [result, setResult] = useState<OptimizationResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const togglePass = (name: OptimizationPassName) =>
+    setPasses((prev) => (prev.includes(name) ? prev.filter((p) => p !== name) : [...prev, name]))
+
+  // A result that fails the state check is shown but not applied
+  const optimize = () => {
+    try {
+      const optimized = optimizeCircuit(circuit, { passes, commutation })
+      setResult(optimized)
+      setError(null)
+      const { checked, equivalent } = optimized.equivalence
+      if (!checked || equivalent) onApply(optimized.circuit)
+    } catch (err) {
+      setResult(null)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const equivalence = result?.equivalence
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-white">Circuit Optimizer</h4>
+        <Button
+          size="sm"
+          onClick={optimize}
+          disabled={circuit.operations.length === 0 || passes.length === 0}
+          className="bg-cyan-600 hover:bg-cyan-700"
+        >
+          <Sparkles className="w-3 h-3 mr-1" />
+          Optimize
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-1 mb-3">
+        {optimizationPassNames.map((name) => (
+          <Button
+            key={name}
+            size="sm"
+            variant={passes.includes(name) ? "default" : "ghost"}
+            onClick={() => togglePass(name)}
+            title={optimizationPasses[name].description}
+            className="text-xs h-7"
+          >
+            {optimizationPasses[name].label}
+          </Button>
+        ))}
+        <Button
+          size="sm"
+          variant={commutation ? "default" : "ghost"}
+          onClick={() => setCommutation((prev) => !prev)}
+          title="Look past gates that commute with the one being cancelled or merged"
+          className="text-xs h-7"
+        >
+          Commutation-aware
+        </Button>
+      </div>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {metricRows.map(({ key, label }) => (
+              <div key={key} className="bg-black/20 rounded p-2 border border-gray-700/30">
+                <div className="text-xs text-gray-400">{label}</div>
+                <div className="text-sm font-semibold text-white">
+                  {result.before[key]} → <span className="text-green-400">{result.after[key]}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mt-2">
+            {optimizationPassNames
+              .filter((name) => result.removed[name] > 0)
+              .map((name) => (
+                <Badge key={name} variant="outline" className="border-gray-500/50 text-gray-400 bg-gray-500/10 text-xs">
+                  {optimizationPasses[name].label}: −{result.removed[name]}
+                </Badge>
+              ))}
+            {result.before.operations === result.after.operations && (
+              <span className="text-xs text-purple-300/60">Nothing to simplify with these passes</span>
+            )}
+          </div>
+          <p
+            className={`text-xs mt-2 ${
+              !equivalence?.checked ? "text-yellow-300/80" : equivalence.equivalent ? "text-green-400" : "text-red-400"
+            }`}
+          >
+            {!equivalence?.checked
+              ? `State check skipped: ${equivalence?.reason}`
+              : equivalence.equivalent
+                ? `State check passed: fidelity ${equivalence.fidelity!.toFixed(9)} with the original`
+                : `State check failed (fidelity ${equivalence.fidelity!.toFixed(6)}); the circuit was left unchanged`}
+          </p>
+        </>
+      )}
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+    </Card>
+  )
+}
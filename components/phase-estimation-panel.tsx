@@ -0,0 +1,222 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Play } from "lucide-react"
+import type { Circuit } from "@/lib/circuit"
+import { runCircuit, type RunResult } from "@/lib/circuit-runner"
+import { gates, parameterizedGates } from "@/lib/quantum-simulator"
+import { MAX_QPE_PRECISION, phaseEstimation, readoutPhase, type PhaseEstimation } from "@/lib/qft"
+
+interface PhaseEstimationPanelProps {
+  onLoad?: (circuit: Circuit) => void // load the phase estimation circuit into the Lab
+}
+
+const selectClassName = "bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+const unitaryOptions = [...Object.keys(gates).filter((g) => g !== "I"), ...Object.keys(parameterizedGates)]
+const precisionOptions = Array.from({ length: MAX_QPE_PRECISION }, (_, i) => i + 1)
+const shotOptions = [100, 1024, 8192]
+
+// Parameters are entered in units of π, as in the Lab's gate palette
+const defaultParams = (gate: string) => parameterizedGates[gate]?.params.map(() => 0.5) ?? []
+
+export function PhaseEstimationPanel({ onLoad }: PhaseEstimationPanelProps) {
+  const [gate, setGate] = useState("P")
+  const [params, setParams] = useState<number[]>([0.6])
+  const [eigenstate, setEigenstate] = useState(1)
+  const [precision, setPrecision] = useState(4)
+  const [approximationDegree, setApproximationDegree] = useState(0)
+  const [shots, setShots] = useState(1024)
+  // Counts are shown only while the estimation they sampled is still the one configured
+  const [run, setRun] = useState<{ estimation: PhaseEstimation; result: RunResult } | null>(null)
+
+  const estimation = useMemo(() => {
+    try {
+      const result = phaseEstimation(
+        gate,
+        params.map((p) => p * Math.PI),
+        { precision, eigenstate, approximationDegree: Math.min(approximationDegree, precision - 1) },
+      )
+      return { result }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) }
+    }
+  }, [gate, params, eigenstate, precision, approximationDegree])
+
+  const selectGate = (name: string) => {
+    setGate(name)
+    setParams(defaultParams(name))
+  }
+
+  const sample = () => {
+    if (!estimation.result) return
+    setRun({ estimation: estimation.result, result: runCircuit(estimation.result.circuit, { shots }) })
+  }
+
+  const shown = run && run.estimation === estimation.result ? run.result : null
+  const bins = 1 << precision
+  const outcomes = Array.from({ length: bins }, (_, y) => y.toString(2).padStart(precision, "0"))
+  const peak = shown
+    ? outcomes.reduce((best, b) => ((shown.counts[b] ?? 0) > (shown.counts[best] ?? 0) ? b : best))
+    : null
+  const maxCount = shown ? Math.max(1, ...Object.values(shown.counts)) : 1
+  const phase = estimation.result?.phase ?? 0
+  // Phases wrap around, so 0.99 is 0.01 from 0
+  const phaseError = (estimate: number) => {
+    const difference = Math.abs(estimate - phase)
+    return Math.min(difference, 1 - difference)
+  }
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-white">Phase Estimation</h4>
+          <Badge variant="outline" className="border-gray-500/50 text-gray-400 bg-gray-500/10 text-xs">
+            {precision} counting + 1 target qubits
+          </Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={shots} onChange={(e) => setShots(Number(e.target.value))} className={selectClassName}>
+            {shotOptions.map((option) => (
+              <option key={option} value={option}>
+                {option} shots
+              </option>
+            ))}
+          </select>
+          <Button size="sm" onClick={sample} disabled={!estimation.result} className="bg-cyan-600 hover:bg-cyan-700">
+            <Play className="w-3 h-3 mr-1" />
+            Run
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <select value={gate} onChange={(e) => selectGate(e.target.value)} title="Unitary" className={selectClassName}>
+          {unitaryOptions.map((name) => (
+            <option key={name} value={name}>
+              U = {name}
+            </option>
+          ))}
+        </select>
+        {parameterizedGates[gate]?.params.map((paramName, i) => (
+          <label key={paramName} className="flex items-center gap-1 text-xs text-purple-300">
+            {paramName} =
+            <Input
+              type="number"
+              step="0.05"
+              value={params[i]}
+              onChange={(e) =>
+                setParams((prev) => prev.map((p, j) => (j === i ? Number.parseFloat(e.target.value) || 0 : p)))
+              }
+              className="w-20 h-7 bg-gray-800/50 border-gray-700/50 text-white text-xs"
+            />
+            π
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={eigenstate}
+          onChange={(e) => setEigenstate(Number(e.target.value))}
+          title="Eigenstate prepared on the target qubit"
+          className={selectClassName}
+        >
+          {(estimation.result?.eigenpairs ?? []).map((pair, i) => (
+            <option key={i} value={i}>
+              Eigenstate {i + 1}: φ = {pair.phase.toFixed(4)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={precision}
+          onChange={(e) => setPrecision(Number(e.target.value))}
+          title="Counting qubits"
+          className={selectClassName}
+        >
+          {precisionOptions.map((count) => (
+            <option key={count} value={count}>
+              {count} bit{count === 1 ? "" : "s"}
+            </option>
+          ))}
+        </select>
+        <select
+          value={Math.min(approximationDegree, precision - 1)}
+          onChange={(e) => setApproximationDegree(Number(e.target.value))}
+          title="Approximate QFT: drop this many levels of the smallest controlled phases"
+          className={selectClassName}
+        >
+          {Array.from({ length: precision }, (_, degree) => (
+            <option key={degree} value={degree}>
+              {degree === 0 ? "Exact QFT" : `Approximate QFT (−${degree})`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {estimation.error && <p className="text-xs text-red-400 mt-2">{estimation.error}</p>}
+
+      {estimation.result && (
+        <div className="mt-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+            {[
+              { label: "Eigenphase φ", value: phase.toFixed(4) },
+              { label: "Resolution", value: `1/${bins} = ${(1 / bins).toFixed(4)}` },
+              { label: "Estimate", value: peak ? `${readoutPhase(peak).toFixed(4)} (${peak})` : "—" },
+              { label: "Error", value: peak ? phaseError(readoutPhase(peak)).toFixed(4) : "—" },
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-black/20 rounded p-2 border border-gray-700/30">
+                <div className="text-xs text-gray-400">{label}</div>
+                <div className="text-sm font-semibold text-white font-mono">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {shown ? (
+            <>
+              <div className="flex items-end gap-px h-24 px-1 bg-black/20 rounded border border-gray-700/30">
+                {outcomes.map((bitstring) => {
+                  const count = shown.counts[bitstring] ?? 0
+                  return (
+                    <div
+                      key={bitstring}
+                      title={`${bitstring} → φ ≈ ${readoutPhase(bitstring).toFixed(4)}: ${count} shots`}
+                      className={`flex-1 rounded-t ${bitstring === peak ? "bg-cyan-400" : "bg-purple-500/50"}`}
+                      style={{ height: `${Math.max(count > 0 ? 2 : 0, (count / maxCount) * 100)}%` }}
+                    />
+                  )
+                })}
+              </div>
+              <div className="flex justify-between text-xs text-purple-300/60 font-mono mt-1">
+                <span>0</span>
+                <span>readout y / {bins}</span>
+                <span>{((bins - 1) / bins).toFixed(3)}</span>
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-purple-300/60">Run shots to see the counting-register readout</p>
+          )}
+
+          <div className="flex items-center justify-between mt-2">
+            <span className="text-xs text-purple-300/60">
+              {estimation.result.circuit.operations.length} operations, depth {estimation.result.circuit.depth()}
+            </span>
+            {onLoad && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => estimation.result && onLoad(estimation.result.circuit)}
+                className="border-cyan-400/50 text-cyan-400 bg-cyan-400/10 hover:bg-cyan-400/20"
+              >
+                Load circuit into Lab
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,231 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Play } from "lucide-react"
+import type { Circuit } from "@/lib/circuit"
+import { classicalOptimizerNames, classicalOptimizers, type ClassicalOptimizerName } from "@/lib/classical-optimizers"
+import {
+  graphPresetNames,
+  graphPresets,
+  parseQubo,
+  runQaoa,
+  type GraphPreset,
+  type QaoaProblem,
+  type QaoaResult,
+  type WeightedGraph,
+} from "@/lib/qaoa"
+import { ConvergencePlot } from "./convergence-plot"
+import { GraphEditor } from "./graph-editor"
+
+interface QaoaPanelProps {
+  onLoad?: (circuit: Circuit) => void // load the optimized QAOA circuit into the Lab
+}
+
+const selectClassName = "bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+const layerOptions = [1, 2, 3, 4, 5]
+
+export function QaoaPanel({ onLoad }: QaoaPanelProps) {
+  const [kind, setKind] = useState<QaoaProblem["kind"]>("maxcut")
+  const [preset, setPreset] = useState<GraphPreset | "custom">("house")
+  const [graph, setGraph] = useState<WeightedGraph>(graphPresets.house.graph)
+  const [quboSource, setQuboSource] = useState("-5 2 4 0; 2 -3 1 0; 4 1 -8 5; 0 0 5 -6")
+  const [layers, setLayers] = useState(2)
+  const [optimizer, setOptimizer] = useState<ClassicalOptimizerName>("cobyla")
+  // The run is shown only while the problem it solved is still the one being edited
+  const [run, setRun] = useState<{ problem: QaoaProblem; result: QaoaResult } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const problem = useMemo((): { problem?: QaoaProblem; error?: string } => {
+    if (kind === "maxcut") return { problem: { kind, graph } }
+    try {
+      return { problem: { kind, matrix: parseQubo(quboSource) } }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) }
+    }
+  }, [kind, graph, quboSource])
+
+  const selectPreset = (name: GraphPreset | "custom") => {
+    setPreset(name)
+    if (name !== "custom") setGraph(graphPresets[name].graph)
+  }
+
+  const solve = () => {
+    if (!problem.problem) return
+    try {
+      setRun({ problem: problem.problem, result: runQaoa(problem.problem, { layers, optimizer }) })
+      setError(null)
+    } catch (err) {
+      setRun(null)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const shown = run && run.problem === problem.problem ? run.result : null
+  const valueName = kind === "maxcut" ? "cut" : "xᵀQx"
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-white">QAOA</h4>
+          <Badge variant="outline" className="border-gray-500/50 text-gray-400 bg-gray-500/10 text-xs">
+            {kind === "maxcut" ? "MaxCut" : "QUBO"} · p = {layers}
+          </Badge>
+        </div>
+        <Button size="sm" onClick={solve} disabled={!problem.problem} className="bg-cyan-600 hover:bg-cyan-700">
+          <Play className="w-3 h-3 mr-1" />
+          Optimize
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as QaoaProblem["kind"])}
+          title="Problem"
+          className={selectClassName}
+        >
+          <option value="maxcut">MaxCut</option>
+          <option value="qubo">QUBO</option>
+        </select>
+        {kind === "maxcut" && (
+          <select
+            value={preset}
+            onChange={(e) => selectPreset(e.target.value as GraphPreset | "custom")}
+            title="Graph"
+            className={selectClassName}
+          >
+            {graphPresetNames.map((name) => (
+              <option key={name} value={name}>
+                {graphPresets[name].label}
+              </option>
+            ))}
+            <option value="custom">Custom</option>
+          </select>
+        )}
+        <select
+          value={layers}
+          onChange={(e) => setLayers(Number(e.target.value))}
+          title="QAOA layers"
+          className={selectClassName}
+        >
+          {layerOptions.map((count) => (
+            <option key={count} value={count}>
+              p = {count}
+            </option>
+          ))}
+        </select>
+        <select
+          value={optimizer}
+          onChange={(e) => setOptimizer(e.target.value as ClassicalOptimizerName)}
+          title={classicalOptimizers[optimizer].description}
+          className={selectClassName}
+        >
+          {classicalOptimizerNames.map((name) => (
+            <option key={name} value={name}>
+              {classicalOptimizers[name].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {kind === "maxcut" ? (
+        <GraphEditor
+          graph={graph}
+          onChange={(next) => {
+            setGraph(next)
+            setPreset("custom")
+          }}
+          partition={shown?.best.bitstring}
+        />
+      ) : (
+        <>
+          <Input
+            value={quboSource}
+            onChange={(e) => setQuboSource(e.target.value)}
+            placeholder="Rows separated by ;, e.g. -1 2; 0 -1"
+            spellCheck={false}
+            className="h-8 bg-gray-800/50 border-gray-700/50 text-white text-xs font-mono mb-1"
+          />
+          <p className="text-xs text-purple-300/60">Minimizes xᵀQx over binary x, with x₀ the leftmost bit</p>
+        </>
+      )}
+
+      {problem.error && <p className="text-xs text-red-400 mt-2">{problem.error}</p>}
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+
+      {shown && (
+        <div className="mt-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+            {[
+              { label: `Best found (${valueName})`, value: `${shown.best.value} · ${shown.best.bitstring}` },
+              {
+                label: "Brute force",
+                value: `${shown.optimum.value}${shown.optimum.solutions.includes(shown.best.index) ? " ✓" : ""}`,
+              },
+              {
+                label: "Approximation ratio",
+                value: `${shown.approximationRatio.toFixed(3)} (⟨${valueName}⟩ ${shown.expectedValue.toFixed(3)})`,
+              },
+              { label: "P(optimal)", value: `${(shown.optimalProbability * 100).toFixed(1)}%` },
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-black/20 rounded p-2 border border-gray-700/30">
+                <div className="text-xs text-gray-400">{label}</div>
+                <div className="text-sm font-semibold text-white font-mono">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {shown.history.length > 0 && (
+            <ConvergencePlot
+              history={shown.history}
+              target={shown.optimum.value}
+              label={`Expected ${valueName} against iteration`}
+            />
+          )}
+          <p className="text-xs text-purple-300/60 mt-1 mb-3">
+            Expected {valueName} against iteration; dashed: brute-force optimum
+          </p>
+
+          <div className="space-y-1 mb-3">
+            {shown.top.map(({ index, bitstring, value, probability }) => (
+              <div key={index} className="flex items-center gap-2 text-xs font-mono">
+                <span className="w-24 text-cyan-300">|{bitstring}⟩</span>
+                <div className="flex-1 bg-gray-800/50 rounded h-2 overflow-hidden border border-gray-700/30">
+                  <div className="h-full bg-cyan-500" style={{ width: `${probability * 100}%` }} />
+                </div>
+                <span className="w-12 text-right text-gray-400">{(probability * 100).toFixed(1)}%</span>
+                <span
+                  className={`w-16 ${shown.optimum.solutions.includes(index) ? "text-green-400" : "text-gray-300"}`}
+                >
+                  {valueName} {Number(value.toPrecision(6))}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-purple-300/60 font-mono">
+              γ = [{shown.gammas.map((v) => v.toFixed(3)).join(", ")}] β = [
+              {shown.betas.map((v) => v.toFixed(3)).join(", ")}]
+            </span>
+            {onLoad && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onLoad(shown.circuit)}
+                className="border-cyan-400/50 text-cyan-400 bg-cyan-400/10 hover:bg-cyan-400/20"
+              >
+                Load circuit into Lab
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
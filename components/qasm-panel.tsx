@@ -0,0 +1,155 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Download, Upload, FileCode } from "lucide-react"
+import type { Circuit } from "@/lib/circuit"
+import { parseQasm, toQasm } from "@/lib/qasm"
+import { parseQasm3, qasm3Inputs, qasmVersion, toQasm3 } from "@/lib/qasm3"
+
+interface QasmPanelProps {
+  circuit: Circuit
+  onImport: (circuit: Circuit) => void
+}
+
+export function QasmPanel({ circuit, onImport }: QasmPanelProps) {
+  const [source, setSource] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [version, setVersion] = useState<2 | 3>(2)
+  const [inputValues, setInputValues] = useState<Record<string, string>>({})
+
+  // QASM 3 "input" parameters need values before the program becomes a circuit
+  const inputs = source.trim() && qasmVersion(source) === 3 ? qasm3Inputs(source) : []
+
+  const importSource = (text: string) => {
+    try {
+      const bound = Object.fromEntries(
+        Object.entries(inputValues)
+          .filter(([, value]) => value.trim() !== "")
+          .map(([name, value]) => [name, Number(value)]),
+      )
+      onImport(qasmVersion(text) === 2 ? parseQasm(text) : parseQasm3(text, { inputs: bound }))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const importFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      const reader = new FileReader()
+      reader.onload = (e) => {
+        const text = e.target?.result as string
+        setSource(text)
+        importSource(text)
+      }
+      reader.readAsText(file)
+    }
+    event.target.value = ""
+  }
+
+  const downloadQasm = () => {
+    try {
+      const blob = new Blob([version === 2 ? toQasm(circuit) : toQasm3(circuit)], { type: "text/plain" })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = `quantummind-circuit-${Date.now()}.qasm`
+      a.click()
+      URL.revokeObjectURL(url)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-white">OpenQASM</h4>
+          <Badge variant="outline" className="border-green-400/50 text-green-400 bg-green-400/10 text-xs">
+            <FileCode className="w-3 h-3 mr-1" />
+            2.0 / 3
+          </Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="cursor-pointer">
+            <Button size="sm" variant="outline" className="text-xs bg-transparent" asChild>
+              <span>
+                <Upload className="w-3 h-3 mr-1" />
+                Open .qasm
+              </span>
+            </Button>
+            <input type="file" accept=".qasm,.txt" onChange={importFile} className="hidden" />
+          </label>
+          <select
+            value={version}
+            onChange={(e) => setVersion(Number(e.target.value) as 2 | 3)}
+            title="Format for downloads; imports detect the version from the header"
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+          >
+            <option value={2}>QASM 2.0</option>
+            <option value={3}>QASM 3</option>
+          </select>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={downloadQasm}
+            disabled={circuit.operations.length === 0}
+            className="text-xs bg-transparent"
+          >
+            <Download className="w-3 h-3 mr-1" />
+            Download .qasm
+          </Button>
+        </div>
+      </div>
+
+      <textarea
+        value={source}
+        onChange={(e) => setSource(e.target.value)}
+        placeholder={
+          version === 2
+            ? 'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[2];\nh q[0];\ncx q[0],q[1];'
+            : 'OPENQASM 3;\ninclude "stdgates.inc";\ninput float theta;\nqubit[2] q;\nry(theta) q[0];\ncx q[0], q[1];'
+        }
+        spellCheck={false}
+        className="w-full h-28 bg-gray-800/50 border border-gray-700/50 rounded p-2 text-xs text-white font-mono"
+      />
+      {inputs.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          <span className="text-xs text-purple-300">Inputs:</span>
+          {inputs.map((name) => (
+            <label key={name} className="flex items-center gap-1 text-xs text-gray-300 font-mono">
+              {name} =
+              <input
+                type="number"
+                step="any"
+                value={inputValues[name] ?? ""}
+                onChange={(e) => setInputValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-between mt-2 gap-2">
+        <span className={`text-xs ${error ? "text-red-400" : "text-purple-300/60"}`}>
+          {error ?? "Paste a program to replace the Lab circuit, replaying measurements from the seed."}
+        </span>
+        <Button
+          size="sm"
+          onClick={() => importSource(source)}
+          disabled={!source.trim()}
+          className="bg-cyan-600 hover:bg-cyan-700"
+        >
+          Import
+        </Button>
+      </div>
+    </Card>
+  )
+}
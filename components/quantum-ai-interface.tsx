@@ -8,9 +8,12 @@ import { MessageSquare, Cpu, Zap } from "lucide-react"
 import Image from "next/image"
 import { QuantumCircuitSimulator } from "./quantum-circuit-simulator"
 import { AIChatInterface } from "./ai-chat-interface"
+import type { Circuit } from "@/lib/circuit"
 
 export function QuantumAIInterface() {
   const [activeTab, setActiveTab] = useState<"chat" | "quantum">("chat")
+  // Latest Lab circuit, shared with the chat as context
+  const [labCircuit, setLabCircuit] = useState<Circuit | null>(null)
 
   return (
     <div className="min-h-screen flex flex-col bg-gradient-to-br from-gray-900 via-black to-gray-900">
@@ -75,10 +78,10 @@ export function QuantumAIInterface() {
           <div className="h-full p-3 sm:p-4 lg:p-6">
             <Card className="h-full bg-gray-900/50 border-gray-800/50 backdrop-blur-sm overflow-hidden">
               {activeTab === "chat" ? (
-                <AIChatInterface />
+                <AIChatInterface circuit={labCircuit} />
               ) : (
                 <div className="h-full p-4">
-                  <QuantumCircuitSimulator />
+                  <QuantumCircuitSimulator onCircuitChange={setLabCircuit} />
                 </div>
               )}
             </Card>
@@ -1,117 +1,416 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect, useMemo, useRef } from "react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
-import { Atom, Zap, RotateCcw } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Atom, Zap, RotateCcw, Shuffle, FlaskConical } from "lucide-react"
 import Image from "next/image"
 import {
-  initializeQuantumState,
-  applySingleQubitGate,
-  applyCNOTGate,
-  measureQubit,
-  getProbabilities,
+  conditionHolds,
   formatQuantumState,
   gates,
-  type QuantumState,
+  initializeClassicalBits,
+  registerValue,
+  storeMeasurement,
+  parameterizedGates,
+  resolveGate,
+  resolveOperation,
+  multiQubitGates,
+  type ClassicalBitRef,
+  type GateOperation,
 } from "@/lib/quantum-simulator"
+import { Circuit, formatOperation } from "@/lib/circuit"
+import { StateVector } from "@/lib/state-vector"
+import { SeededRandom, randomSeed } from "@/lib/random"
+import {
+  MAX_DENSITY_MATRIX_QUBITS,
+  applyReadoutError,
+  idealNoiseModel,
+  simulateDensityMatrix,
+  type NoiseModel,
+} from "@/lib/density-matrix"
+import type { QuantumExperiment } from "@/lib/collaborative-experiments"
 import { QuantumVisualizationEngine } from "./quantum-visualization-engine"
+import { NoiseModelPanel } from "./noise-model-panel"
+import { ShotHistogram } from "./shot-histogram"
+import { QasmPanel } from "./qasm-panel"
+import { QuirkPanel } from "./quirk-panel"
+import { OptimizerPanel } from "./optimizer-panel"
+import { TranspilerPanel } from "./transpiler-panel"
+import { EquivalencePanel } from "./equivalence-panel"
+import { UnitaryPanel } from "./unitary-panel"
+import { ObservablePanel } from "./observable-panel"
+import { VqePanel } from "./vqe-panel"
+import { QaoaPanel } from "./qaoa-panel"
+import { GroverPanel } from "./grover-panel"
+import { PhaseEstimationPanel } from "./phase-estimation-panel"
+import { ShorPanel } from "./shor-panel"
+import { CopyAsMenu } from "./copy-as-menu"
+import { ExperimentResultsPanel } from "./experiment-results-panel"
+import { CollaborativeExperimentsInterface } from "./collaborative-experiments-interface"
+
+interface QuantumCircuitSimulatorProps {
+  onCircuitChange?: (circuit: Circuit) => void
+}
+
+const MAX_QUBITS = 20
+// Largest register the visualization engine renders interactively
+const MAX_VISUALIZED_QUBITS = 8
+// Most likely basis states listed in the state and probability displays
+const MAX_DISPLAYED_STATES = 32
+
+// Gate button labels that differ from the gate name
+const gateLabels: Record<string, string> = { Sdg: "S†", Tdg: "T†" }
+
+// Single-qubit gates that can be controlled, fixed gates first
+const controllableGates = [...Object.keys(gates).filter((g) => g !== "I"), ...Object.keys(parameterizedGates)]
 
-interface CircuitOperation {
-  type: "single" | "cnot" | "measure"
-  gate?: string
-  target: number
-  control?: number
-  id: string
+// Empty circuit with one register "c" holding a bit per qubit, as in a fresh Qiskit circuit
+function emptyCircuit(numQubits: number): Circuit {
+  return new Circuit(numQubits, [], [{ name: "c", size: numQubits }])
 }
 
-export function QuantumCircuitSimulator() {
+export function QuantumCircuitSimulator({ onCircuitChange }: QuantumCircuitSimulatorProps) {
   const [numQubits, setNumQubits] = useState(3)
-  const [quantumState, setQuantumState] = useState<QuantumState>(() => initializeQuantumState(3))
-  const [circuit, setCircuit] = useState<CircuitOperation[]>([])
+  const [quantumState, setQuantumState] = useState<StateVector>(() => new StateVector(3))
+  const [circuit, setCircuit] = useState<Circuit>(() => emptyCircuit(3))
   const [selectedQubit, setSelectedQubit] = useState<number | null>(null)
-  const [selectedControl, setSelectedControl] = useState<number | null>(null)
+  const [selectedControls, setSelectedControls] = useState<number[]>([])
+  const [swapPartner, setSwapPartner] = useState<number | null>(null)
+  const [controlledGate, setControlledGate] = useState("X")
+  // Parameters (in units of π) of the controlled gate, kept apart from the Rotation & Phase inputs
+  const [controlledParams, setControlledParams] = useState<number[]>([])
   const [measurementResults, setMeasurementResults] = useState<Record<number, 0 | 1>>({})
+  const [classicalBits, setClassicalBits] = useState<Record<string, number[]>>(() =>
+    initializeClassicalBits(emptyCircuit(3).classicalRegisters),
+  )
+  // Classical bit for the next measurement; null stores into c[qubit]
+  const [measureBit, setMeasureBit] = useState<ClassicalBitRef | null>(null)
+  // c_if condition attached to the gates applied while it is set
+  const [condition, setCondition] = useState<GateOperation["condition"] | null>(null)
+  // Why the last gate click was rejected by the circuit's validation
+  const [gateError, setGateError] = useState<string | null>(null)
+  const [parameterizedGate, setParameterizedGate] = useState("RX")
+  const [gateParams, setGateParams] = useState<number[]>([0.5])
+  const [noiseModel, setNoiseModel] = useState<NoiseModel>(idealNoiseModel)
+  const [seed, setSeed] = useState(() => randomSeed())
+  const [experimentsOpen, setExperimentsOpen] = useState(false)
+  // The shared experiment last loaded, compared against its expected results
+  const [loadedExperiment, setLoadedExperiment] = useState<QuantumExperiment | null>(null)
+  const [experimentError, setExperimentError] = useState<string | null>(null)
+  // Measurement randomness, restarted from the seed whenever the circuit restarts
+  const rngRef = useRef<SeededRandom>(new SeededRandom(seed))
+  const classicalRegisters = circuit.classicalRegisters
+
+  useEffect(() => {
+    onCircuitChange?.(circuit)
+  }, [circuit, onCircuitChange])
 
   // Reset quantum state when number of qubits changes
-  const handleQubitChange = useCallback((newNumQubits: number) => {
-    setNumQubits(newNumQubits)
-    setQuantumState(initializeQuantumState(newNumQubits))
-    setCircuit([])
-    setMeasurementResults({})
-    setSelectedQubit(null)
-    setSelectedControl(null)
-  }, [])
+  const handleQubitChange = useCallback(
+    (newNumQubits: number) => {
+      setNumQubits(newNumQubits)
+      setQuantumState(new StateVector(newNumQubits))
+      rngRef.current = new SeededRandom(seed)
+      const newCircuit = emptyCircuit(newNumQubits)
+      setCircuit(newCircuit)
+      setMeasurementResults({})
+      setClassicalBits(initializeClassicalBits(newCircuit.classicalRegisters))
+      setMeasureBit(null)
+      setCondition(null)
+      setSelectedQubit(null)
+      setSelectedControls([])
+      setSwapPartner(null)
+    },
+    [seed],
+  )
 
-  // Apply single-qubit gate
-  const applySingleGate = useCallback(
-    (gateName: string, target: number) => {
-      if (!(gateName in gates)) return
+  // Record a gate under the current condition, updating the state only when the condition holds
+  const addGateOperation = useCallback(
+    (operation: GateOperation, apply: (state: StateVector) => void) => {
+      const conditioned: GateOperation = condition ? { ...operation, condition } : operation
+      // Validate before touching the state, so a rejected gate leaves state and circuit in step
+      let next: Circuit
+      try {
+        next = circuit.append(conditioned)
+      } catch (err) {
+        setGateError(err instanceof Error ? err.message : String(err))
+        return
+      }
+      setGateError(null)
+      if (conditionHolds(conditioned, classicalBits)) {
+        const newState = quantumState.clone()
+        apply(newState)
+        setQuantumState(newState)
+      }
+      setCircuit(next)
+    },
+    [circuit, quantumState, condition, classicalBits],
+  )
 
-      const gate = gates[gateName as keyof typeof gates]
-      const newState = applySingleQubitGate(quantumState, gate, target, numQubits)
-      setQuantumState(newState)
+  // Apply single-qubit gate (params in radians for parameterized gates)
+  const applySingleGate = useCallback(
+    (gateName: string, target: number, params?: number[]) => {
+      const gate = resolveGate(gateName, params)
+      if (!gate) return
 
-      const operation: CircuitOperation = {
+      const operation: GateOperation = {
         type: "single",
         gate: gateName,
         target,
-        id: Date.now().toString(),
+        params,
       }
-      setCircuit((prev) => [...prev, operation])
+      addGateOperation(operation, (state) => state.applySingleQubitGate(gate, target))
     },
-    [quantumState, numQubits],
+    [addGateOperation],
   )
 
-  // Apply CNOT gate
-  const applyCNOT = useCallback(
-    (control: number, target: number) => {
-      if (control === target) return
+  // Select a parameterized gate, keeping its parameter inputs in sync
+  const selectParameterizedGate = useCallback((gateName: string) => {
+    setParameterizedGate(gateName)
+    setGateParams(parameterizedGates[gateName].params.map(() => 0.5))
+  }, [])
 
-      const newState = applyCNOTGate(quantumState, control, target, numQubits)
-      setQuantumState(newState)
+  // Select the gate to control, with parameter inputs of its own
+  const selectControlledGate = useCallback((gateName: string) => {
+    setControlledGate(gateName)
+    setControlledParams(parameterizedGates[gateName]?.params.map(() => 0.5) ?? [])
+  }, [])
 
-      const operation: CircuitOperation = {
-        type: "cnot",
-        control,
-        target,
-        id: Date.now().toString(),
+  // Toggle a qubit in the control selection
+  const toggleControl = useCallback((qubit: number) => {
+    setSelectedControls((prev) =>
+      prev.includes(qubit) ? prev.filter((q) => q !== qubit) : [...prev, qubit].sort((a, b) => a - b),
+    )
+  }, [])
+
+  // Apply a controlled single-qubit gate (CNOT, CZ, CRZ, Toffoli, controlled-U)
+  const applyControlled = useCallback(
+    (gateName: string, controls: number[], target: number, params?: number[]) => {
+      if (controls.length === 0 || controls.includes(target)) return
+
+      const gate = resolveGate(gateName, params)
+      if (!gate) return
+
+      const operation: GateOperation =
+        gateName === "X" && controls.length === 1
+          ? { type: "cnot", control: controls[0], target }
+          : { type: "controlled", gate: gateName, controls, target, params }
+      addGateOperation(operation, (state) => state.applyControlledGate(gate, controls, target))
+    },
+    [addGateOperation],
+  )
+
+  // Apply a SWAP-family gate, controlled when controls are given (Fredkin)
+  const applyMulti = useCallback(
+    (gateName: string, targets: number[], controls: number[] = []) => {
+      if (controls.some((q) => targets.includes(q)) || new Set(targets).size !== targets.length) return
+
+      const operation: GateOperation = {
+        type: "multi",
+        gate: gateName,
+        target: targets[0],
+        targets,
+        controls: controls.length > 0 ? controls : undefined,
       }
-      setCircuit((prev) => [...prev, operation])
+      addGateOperation(operation, (state) => state.applyMultiQubitGate(multiQubitGates[gateName], targets, controls))
     },
-    [quantumState, numQubits],
+    [addGateOperation],
   )
 
-  // Measure qubit
+  // Measure qubit, storing the outcome in a classical bit (c[qubit] unless another is chosen)
   const measureQubitAtIndex = useCallback(
     (target: number) => {
-      const { result, newState } = measureQubit(quantumState, target, numQubits)
+      const defaultBit =
+        classicalBits.c && target < classicalBits.c.length ? { register: "c", index: target } : undefined
+      const classicalBit = measureBit ?? defaultBit
+
+      const newState = quantumState.clone()
+      const result = newState.measure(target, rngRef.current)
       setQuantumState(newState)
       setMeasurementResults((prev) => ({ ...prev, [target]: result }))
 
-      const operation: CircuitOperation = {
+      const operation: GateOperation = {
         type: "measure",
         target,
-        id: Date.now().toString(),
+        classicalBit,
+        result,
       }
-      setCircuit((prev) => [...prev, operation])
+      const newBits = Object.fromEntries(Object.entries(classicalBits).map(([name, bits]) => [name, bits.slice()]))
+      storeMeasurement(operation, result, newBits)
+      setClassicalBits(newBits)
+      setCircuit((prev) => prev.append(operation))
+    },
+    [quantumState, classicalBits, measureBit],
+  )
+
+  // Reset qubit to |0⟩: measure it and flip a 1 back
+  const resetQubitAtIndex = useCallback(
+    (target: number) => {
+      const newState = quantumState.clone()
+      const result = newState.measure(target, rngRef.current)
+      if (result === 1) newState.applySingleQubitGate(gates.X, target)
+      setQuantumState(newState)
+      setMeasurementResults((prev) => {
+        const { [target]: _, ...rest } = prev
+        return rest
+      })
+
+      const operation: GateOperation = { type: "reset", target, result }
+      setCircuit((prev) => prev.append(operation))
     },
-    [quantumState, numQubits],
+    [quantumState],
   )
 
-  // Reset circuit
+  // Add a one-bit register, for protocols that keep each outcome separate (c0, c1, ...)
+  const addClassicalRegister = useCallback(() => {
+    const names = new Set(classicalRegisters.map((register) => register.name))
+    let k = 0
+    while (names.has(`c${k}`)) k++
+    const register = { name: `c${k}`, size: 1 }
+    setCircuit((prev) => prev.withClassicalRegister(register))
+    setClassicalBits((prev) => ({ ...prev, ...initializeClassicalBits([register]) }))
+  }, [classicalRegisters])
+
+  // Remove a register no recorded operation refers to
+  const removeClassicalRegister = useCallback((name: string) => {
+    setCircuit((prev) => prev.withoutClassicalRegister(name))
+    setClassicalBits((prev) => {
+      const { [name]: _, ...rest } = prev
+      return rest
+    })
+    setMeasureBit((prev) => (prev?.register === name ? null : prev))
+    setCondition((prev) => (prev?.register === name ? null : prev))
+  }, [])
+
+  // Largest value a condition on the register can compare against
+  const maxConditionValue = (name: string) =>
+    2 ** (classicalRegisters.find((register) => register.name === name)?.size ?? 1) - 1
+
+  // Reset circuit, replaying measurements from the start of the seed's sequence
   const resetCircuit = useCallback(() => {
-    setQuantumState(initializeQuantumState(numQubits))
-    setCircuit([])
+    setQuantumState(new StateVector(numQubits))
+    rngRef.current = new SeededRandom(seed)
+    setCircuit(new Circuit(numQubits, [], classicalRegisters))
     setMeasurementResults({})
+    setClassicalBits(initializeClassicalBits(classicalRegisters))
     setSelectedQubit(null)
-    setSelectedControl(null)
-  }, [numQubits])
+    setSelectedControls([])
+    setSwapPartner(null)
+  }, [numQubits, seed, classicalRegisters])
+
+  // Replace the Lab circuit, replaying it from the seed: measurements and resets draw fresh outcomes
+  const loadCircuit = useCallback(
+    (loaded: Circuit, runSeed = seed) => {
+      if (loaded.numQubits > MAX_QUBITS) {
+        throw new Error(`The Lab supports up to ${MAX_QUBITS} qubits, the circuit has ${loaded.numQubits}`)
+      }
+
+      const state = new StateVector(loaded.numQubits)
+      const rng = new SeededRandom(runSeed)
+      const bits = initializeClassicalBits(loaded.classicalRegisters)
+      const results: Record<number, 0 | 1> = {}
+      const operations = loaded.operations.map((operation): GateOperation => {
+        if (!conditionHolds(operation, bits)) return operation
+        if (operation.type === "measure" || operation.type === "reset") {
+          const result = state.measure(operation.target, rng)
+          if (operation.type === "measure") {
+            results[operation.target] = result
+            storeMeasurement(operation, result, bits)
+          } else if (result === 1) {
+            state.applySingleQubitGate(gates.X, operation.target)
+          }
+          return { ...operation, result }
+        }
+        const resolved = resolveOperation(operation)
+        if (resolved) state.applyMultiQubitGate(resolved.gate, resolved.targets, resolved.controls)
+        return operation
+      })
+
+      setSeed(runSeed)
+      setNumQubits(loaded.numQubits)
+      setQuantumState(state)
+      rngRef.current = rng
+      setCircuit(new Circuit(loaded.numQubits, operations, loaded.classicalRegisters))
+      setMeasurementResults(results)
+      setClassicalBits(bits)
+      setMeasureBit(null)
+      setCondition(null)
+      setSelectedQubit(null)
+      setSelectedControls([])
+      setSwapPartner(null)
+    },
+    [seed],
+  )
+
+  // Replay a shared experiment with its recorded seed
+  const loadExperiment = useCallback(
+    (experiment: QuantumExperiment) => {
+      try {
+        loadCircuit(Circuit.fromJSON(experiment.circuit), experiment.circuit.seed ?? seed)
+        setLoadedExperiment(experiment)
+        setExperimentError(null)
+      } catch (err) {
+        setLoadedExperiment(null)
+        setExperimentError(err instanceof Error ? err.message : String(err))
+      }
+    },
+    [loadCircuit, seed],
+  )
 
-  const probabilities = getProbabilities(quantumState)
-  const stateString = formatQuantumState(quantumState, numQubits)
+  // A new seed starts a new reproducible run
+  const changeSeed = useCallback(
+    (newSeed: number) => {
+      setSeed(newSeed)
+      setQuantumState(new StateVector(numQubits))
+      rngRef.current = new SeededRandom(newSeed)
+      setCircuit(new Circuit(numQubits, [], classicalRegisters))
+      setMeasurementResults({})
+      setClassicalBits(initializeClassicalBits(classicalRegisters))
+    },
+    [numQubits, classicalRegisters],
+  )
+
+  const probabilities = useMemo(
+    () => quantumState.mostLikelyStates(MAX_DISPLAYED_STATES).sort((a, b) => a.index - b.index),
+    [quantumState],
+  )
+  // Noisy evolution of the same circuit, compared against the ideal state vector
+  const hasNoise = Object.values(noiseModel).some((value) => value > 0)
+  const noisySimulation = useMemo(() => {
+    if (!hasNoise || numQubits > MAX_DENSITY_MATRIX_QUBITS) return null
+
+    const rho = simulateDensityMatrix(numQubits, circuit.operations, noiseModel, classicalRegisters)
+    const noisyProbabilities = applyReadoutError(rho.probabilities(), numQubits, noiseModel.readoutError)
+    const idealProbabilities = quantumState.probabilities()
+    const divergence = noisyProbabilities.reduce((sum, p, i) => sum + Math.abs(p - idealProbabilities[i]), 0) / 2
+
+    return { probabilities: noisyProbabilities, purity: rho.purity(), divergence }
+  }, [hasNoise, noiseModel, numQubits, circuit, classicalRegisters, quantumState])
+
+  // Basis states to list: the most likely ideal states plus any the noise populates
+  const displayedStates = useMemo(() => {
+    const indices = new Set(probabilities.map(({ index }) => index))
+    noisySimulation?.probabilities.forEach((p, i) => {
+      if (p > 1e-4) indices.add(i)
+    })
+    return Array.from(indices).sort((a, b) => a - b)
+  }, [probabilities, noisySimulation])
+  const idealProbability = (index: number) =>
+    quantumState.amplitudes[2 * index] ** 2 + quantumState.amplitudes[2 * index + 1] ** 2
+
+  // Only the visualization engine needs Complex objects, and it only renders small registers
+  const complexState = useMemo(
+    () => (quantumState.numQubits <= MAX_VISUALIZED_QUBITS ? quantumState.toComplexArray() : []),
+    [quantumState],
+  )
+  const stateString = useMemo(
+    () => formatQuantumState(quantumState, quantumState.numQubits, MAX_DISPLAYED_STATES),
+    [quantumState],
+  )
 
   return (
     <div className="space-y-4">
@@ -132,6 +431,15 @@ export function QuantumCircuitSimulator() {
               <Atom className="w-3 h-3 mr-1" />
               {numQubits}Q
             </Badge>
+            <Button
+              onClick={() => setExperimentsOpen(true)}
+              size="sm"
+              variant="outline"
+              className="border-purple-400/50 text-purple-400 bg-purple-400/10 hover:bg-purple-400/20 transition-all duration-200"
+            >
+              <FlaskConical className="w-3 h-3 mr-1" />
+              Experiments
+            </Button>
             <Button
               onClick={resetCircuit}
               size="sm"
@@ -147,7 +455,9 @@ export function QuantumCircuitSimulator() {
         {/* Qubit Count Control */}
         <div className="mb-4">
           <div className="flex items-center justify-between mb-2">
-            <label className="text-sm text-purple-300">Qubits: {numQubits}/8</label>
+            <label className="text-sm text-purple-300">
+              Qubits: {numQubits}/{MAX_QUBITS}
+            </label>
             <Badge variant="outline" className="border-purple-400/50 text-purple-400 bg-purple-400/10 text-xs">
               <Zap className="w-3 h-3 mr-1" />
               Hybrid Mode
@@ -156,13 +466,34 @@ export function QuantumCircuitSimulator() {
           <input
             type="range"
             min="1"
-            max="8"
+            max={MAX_QUBITS}
             value={numQubits}
             onChange={(e) => handleQubitChange(Number.parseInt(e.target.value))}
             className="w-full accent-cyan-400 bg-gray-800 rounded-lg"
           />
         </div>
 
+        {/* Seed Control */}
+        <div className="flex items-center gap-2 mb-4">
+          <label className="text-sm text-purple-300">Seed</label>
+          <Input
+            type="number"
+            value={seed}
+            onChange={(e) => changeSeed(Number.parseInt(e.target.value) >>> 0 || 0)}
+            className="w-36 h-8 bg-gray-800/50 border-gray-700/50 text-white text-xs font-mono"
+          />
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => changeSeed(randomSeed())}
+            className="text-xs text-gray-400 hover:text-white"
+          >
+            <Shuffle className="w-3 h-3 mr-1" />
+            New
+          </Button>
+          <span className="text-xs text-purple-300/60">Same seed, same measurement outcomes</span>
+        </div>
+
         {/* Qubit Visualization */}
         <div className="space-y-2 mb-4">
           {Array.from({ length: numQubits }, (_, i) => (
@@ -215,40 +546,205 @@ export function QuantumCircuitSimulator() {
                     onClick={() => selectedQubit !== null && applySingleGate(gateName, selectedQubit)}
                     disabled={selectedQubit === null}
                   >
-                    {gateName}
+                    {gateLabels[gateName] ?? gateName}
                   </Button>
                 ))}
             </div>
           </div>
 
+          <div>
+            <h4 className="text-sm font-medium text-white mb-2">Rotation & Phase Gates</h4>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={parameterizedGate}
+                onChange={(e) => selectParameterizedGate(e.target.value)}
+                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+              >
+                {Object.keys(parameterizedGates).map((gateName) => (
+                  <option key={gateName} value={gateName}>
+                    {gateName}
+                  </option>
+                ))}
+              </select>
+              {parameterizedGates[parameterizedGate].params.map((paramName, i) => (
+                <label key={paramName} className="flex items-center gap-1 text-xs text-purple-300">
+                  {paramName} =
+                  <Input
+                    type="number"
+                    step="0.05"
+                    value={gateParams[i]}
+                    onChange={(e) =>
+                      setGateParams((prev) =>
+                        prev.map((p, j) => (j === i ? Number.parseFloat(e.target.value) || 0 : p)),
+                      )
+                    }
+                    className="w-20 h-8 bg-gray-800/50 border-gray-700/50 text-white text-xs"
+                  />
+                  π
+                </label>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-cyan-400 text-cyan-400 bg-transparent"
+                onClick={() =>
+                  selectedQubit !== null &&
+                  applySingleGate(
+                    parameterizedGate,
+                    selectedQubit,
+                    gateParams.map((p) => p * Math.PI),
+                  )
+                }
+                disabled={selectedQubit === null}
+              >
+                Apply
+              </Button>
+            </div>
+          </div>
+
           <Separator className="bg-purple-500/20" />
 
           <div>
-            <h4 className="text-sm font-medium text-white mb-2">Two-Qubit Gates</h4>
+            <h4 className="text-sm font-medium text-white mb-2">Multi-Qubit Gates</h4>
             <div className="space-y-2">
-              <div className="flex items-center gap-2">
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-xs text-purple-300 mr-1">Controls:</span>
+                {Array.from({ length: numQubits }, (_, i) => (
+                  <Button
+                    key={i}
+                    size="sm"
+                    variant={selectedControls.includes(i) ? "default" : "ghost"}
+                    onClick={() => toggleControl(i)}
+                    disabled={i === selectedQubit}
+                    className="w-10 text-xs"
+                  >
+                    q{i}
+                  </Button>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="border-purple-400 text-purple-400 bg-transparent"
+                  onClick={() => selectedQubit !== null && applyControlled("X", selectedControls, selectedQubit)}
+                  disabled={selectedControls.length !== 1 || selectedQubit === null}
+                >
+                  CNOT
+                </Button>
                 <Button
                   size="sm"
-                  variant={selectedControl !== null ? "default" : "ghost"}
-                  onClick={() => setSelectedControl(selectedControl === null ? selectedQubit : null)}
-                  className="text-xs"
-                  disabled={selectedQubit === null}
+                  variant="outline"
+                  className="border-purple-400 text-purple-400 bg-transparent"
+                  onClick={() => selectedQubit !== null && applyControlled("Z", selectedControls, selectedQubit)}
+                  disabled={selectedControls.length !== 1 || selectedQubit === null}
                 >
-                  Set Control: {selectedControl !== null ? `q${selectedControl}` : "None"}
+                  CZ
                 </Button>
                 <Button
                   size="sm"
                   variant="outline"
                   className="border-purple-400 text-purple-400 bg-transparent"
-                  onClick={() => {
-                    if (selectedControl !== null && selectedQubit !== null) {
-                      applyCNOT(selectedControl, selectedQubit)
-                      setSelectedControl(null)
+                  onClick={() => selectedQubit !== null && applyControlled("X", selectedControls, selectedQubit)}
+                  disabled={selectedControls.length !== 2 || selectedQubit === null}
+                >
+                  Toffoli
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={controlledGate}
+                  onChange={(e) => selectControlledGate(e.target.value)}
+                  className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                >
+                  {controllableGates.map((gateName) => (
+                    <option key={gateName} value={gateName}>
+                      C-{gateLabels[gateName] ?? gateName}
+                    </option>
+                  ))}
+                </select>
+                {parameterizedGates[controlledGate]?.params.map((paramName, i) => (
+                  <label key={paramName} className="flex items-center gap-1 text-xs text-purple-300">
+                    {paramName} =
+                    <Input
+                      type="number"
+                      step="0.05"
+                      value={controlledParams[i]}
+                      onChange={(e) =>
+                        setControlledParams((prev) =>
+                          prev.map((p, j) => (j === i ? Number.parseFloat(e.target.value) || 0 : p)),
+                        )
+                      }
+                      className="w-20 h-8 bg-gray-800/50 border-gray-700/50 text-white text-xs"
+                    />
+                    π
+                  </label>
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="border-purple-400 text-purple-400 bg-transparent"
+                  onClick={() =>
+                    selectedQubit !== null &&
+                    applyControlled(
+                      controlledGate,
+                      selectedControls,
+                      selectedQubit,
+                      controlledGate in parameterizedGates ? controlledParams.map((p) => p * Math.PI) : undefined,
+                    )
+                  }
+                  disabled={selectedControls.length === 0 || selectedQubit === null}
+                >
+                  Apply Controlled
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-purple-300">Swap with:</span>
+                <select
+                  value={swapPartner ?? ""}
+                  onChange={(e) => setSwapPartner(e.target.value === "" ? null : Number(e.target.value))}
+                  className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                >
+                  <option value="">—</option>
+                  {Array.from({ length: numQubits }, (_, i) => (
+                    <option key={i} value={i} disabled={i === selectedQubit}>
+                      q{i}
+                    </option>
+                  ))}
+                </select>
+                {Object.keys(multiQubitGates).map((gateName) => (
+                  <Button
+                    key={gateName}
+                    size="sm"
+                    variant="outline"
+                    className="border-purple-400 text-purple-400 bg-transparent"
+                    onClick={() =>
+                      selectedQubit !== null &&
+                      swapPartner !== null &&
+                      applyMulti(gateName, [selectedQubit, swapPartner])
                     }
-                  }}
-                  disabled={selectedControl === null || selectedQubit === null}
+                    disabled={selectedQubit === null || swapPartner === null || swapPartner === selectedQubit}
+                  >
+                    {gateName}
+                  </Button>
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="border-purple-400 text-purple-400 bg-transparent"
+                  onClick={() =>
+                    selectedQubit !== null &&
+                    swapPartner !== null &&
+                    applyMulti("SWAP", [selectedQubit, swapPartner], selectedControls)
+                  }
+                  disabled={
+                    selectedControls.length === 0 ||
+                    selectedQubit === null ||
+                    swapPartner === null ||
+                    swapPartner === selectedQubit
+                  }
                 >
-                  CNOT
+                  Fredkin
                 </Button>
               </div>
             </div>
@@ -258,26 +754,157 @@ export function QuantumCircuitSimulator() {
 
           <div>
             <h4 className="text-sm font-medium text-white mb-2">Measurement</h4>
-            <Button
-              size="sm"
-              variant="outline"
-              className="border-yellow-400 text-yellow-400 bg-transparent"
-              onClick={() => selectedQubit !== null && measureQubitAtIndex(selectedQubit)}
-              disabled={selectedQubit === null}
-            >
-              Measure Selected Qubit
-            </Button>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-yellow-400 text-yellow-400 bg-transparent"
+                onClick={() => selectedQubit !== null && measureQubitAtIndex(selectedQubit)}
+                disabled={selectedQubit === null}
+              >
+                Measure Selected Qubit
+              </Button>
+              <span className="text-xs text-purple-300">into</span>
+              <select
+                value={measureBit ? `${measureBit.register}[${measureBit.index}]` : ""}
+                onChange={(e) => {
+                  const match = e.target.value.match(/^(\w+)\[(\d+)\]$/)
+                  setMeasureBit(match ? { register: match[1], index: Number(match[2]) } : null)
+                }}
+                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+              >
+                <option value="">c[qubit]</option>
+                {classicalRegisters.flatMap((register) =>
+                  Array.from({ length: register.size }, (_, i) => (
+                    <option key={`${register.name}[${i}]`} value={`${register.name}[${i}]`}>
+                      {register.name}[{i}]
+                    </option>
+                  )),
+                )}
+              </select>
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-yellow-400 text-yellow-400 bg-transparent"
+                onClick={() => selectedQubit !== null && resetQubitAtIndex(selectedQubit)}
+                disabled={selectedQubit === null}
+              >
+                Reset to |0⟩
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-white mb-2">Classical Registers</h4>
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                {classicalRegisters.map((register) => {
+                  const bits = classicalBits[register.name] ?? []
+                  const inUse = circuit.operations.some(
+                    (op) => op.classicalBit?.register === register.name || op.condition?.register === register.name,
+                  )
+                  return (
+                    <Badge
+                      key={register.name}
+                      variant="outline"
+                      className="border-yellow-400/50 text-yellow-400 bg-yellow-400/10 text-xs font-mono"
+                    >
+                      {register.name} = {bits.slice().reverse().join("")} ({registerValue(bits)})
+                      {register.name !== "c" && !inUse && (
+                        <button
+                          onClick={() => removeClassicalRegister(register.name)}
+                          className="ml-1 text-gray-400 hover:text-white"
+                        >
+                          ×
+                        </button>
+                      )}
+                    </Badge>
+                  )
+                })}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={addClassicalRegister}
+                  className="text-xs text-gray-400 hover:text-white"
+                >
+                  + Register
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-purple-300">Condition gates on</span>
+                <select
+                  value={condition?.register ?? ""}
+                  onChange={(e) =>
+                    setCondition(
+                      e.target.value === ""
+                        ? null
+                        : {
+                            register: e.target.value,
+                            value: Math.min(condition?.value ?? 1, maxConditionValue(e.target.value)),
+                          },
+                    )
+                  }
+                  className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                >
+                  <option value="">— (always apply)</option>
+                  {classicalRegisters.map((register) => (
+                    <option key={register.name} value={register.name}>
+                      {register.name}
+                    </option>
+                  ))}
+                </select>
+                {condition && (
+                  <label className="flex items-center gap-1 text-xs text-purple-300">
+                    ==
+                    <Input
+                      type="number"
+                      min="0"
+                      max={maxConditionValue(condition.register)}
+                      value={condition.value}
+                      onChange={(e) =>
+                        setCondition({
+                          ...condition,
+                          value: Math.min(
+                            Math.max(0, Number.parseInt(e.target.value) || 0),
+                            maxConditionValue(condition.register),
+                          ),
+                        })
+                      }
+                      className="w-16 h-8 bg-gray-800/50 border-gray-700/50 text-white text-xs"
+                    />
+                  </label>
+                )}
+              </div>
+              {gateError && <p className="text-xs text-red-400">{gateError}</p>}
+            </div>
           </div>
         </div>
       </Card>
 
       {/* Advanced Quantum Visualization Engine */}
-      <QuantumVisualizationEngine
-        quantumState={quantumState.amplitudes}
+      {numQubits <= MAX_VISUALIZED_QUBITS ? (
+        <QuantumVisualizationEngine
+          quantumState={complexState}
+          numQubits={numQubits}
+          onStateChange={(newState) => {
+            // Handle state changes from visualization
+          }}
+        />
+      ) : (
+        <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+          <p className="text-xs text-purple-300/60">
+            3D visualization is available up to {MAX_VISUALIZED_QUBITS} qubits. The state vector and probabilities below
+            stay live.
+          </p>
+        </Card>
+      )}
+
+      <NoiseModelPanel
         numQubits={numQubits}
-        onStateChange={(newState) => {
-          // Handle state changes from visualization
-        }}
+        noiseModel={noiseModel}
+        onNoiseModelChange={setNoiseModel}
+        purity={noisySimulation?.purity}
+        divergence={noisySimulation?.divergence}
       />
 
       {/* Quantum State Display */}
@@ -294,19 +921,34 @@ export function QuantumCircuitSimulator() {
 
         <h4 className="text-sm font-semibold text-white mb-2">Probability Distribution</h4>
         <div className="space-y-1">
-          {probabilities.map((prob, i) => {
-            if (prob < 1e-10) return null
-            const binaryState = i.toString(2).padStart(numQubits, "0")
+          {displayedStates.map((index) => {
+            const prob = idealProbability(index)
+            const noisyProb = noisySimulation?.probabilities[index]
+            const binaryState = index.toString(2).padStart(numQubits, "0")
             return (
-              <div key={i} className="flex items-center gap-2">
-                <span className="text-xs text-cyan-300 font-mono w-16">|{binaryState}⟩</span>
-                <div className="flex-1 bg-gray-800/50 rounded h-2 overflow-hidden border border-gray-700/30">
-                  <div
-                    className="h-full bg-gradient-to-r from-cyan-400 to-purple-400 transition-all duration-300"
-                    style={{ width: `${prob * 100}%` }}
-                  />
+              <div key={index}>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-cyan-300 font-mono min-w-16">|{binaryState}⟩</span>
+                  <div className="flex-1 bg-gray-800/50 rounded h-2 overflow-hidden border border-gray-700/30">
+                    <div
+                      className="h-full bg-gradient-to-r from-cyan-400 to-purple-400 transition-all duration-300"
+                      style={{ width: `${prob * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-xs text-purple-300 w-12">{(prob * 100).toFixed(1)}%</span>
                 </div>
-                <span className="text-xs text-purple-300 w-12">{(prob * 100).toFixed(1)}%</span>
+                {noisyProb !== undefined && (
+                  <div className="flex items-center gap-2 mt-0.5">
+                    <span className="text-xs text-orange-300/70 font-mono min-w-16">noisy</span>
+                    <div className="flex-1 bg-gray-800/50 rounded h-1 overflow-hidden border border-gray-700/30">
+                      <div
+                        className="h-full bg-orange-400 transition-all duration-300"
+                        style={{ width: `${noisyProb * 100}%` }}
+                      />
+                    </div>
+                    <span className="text-xs text-orange-300 w-12">{(noisyProb * 100).toFixed(1)}%</span>
+                  </div>
+                )}
               </div>
             )
           })}
@@ -316,26 +958,63 @@ export function QuantumCircuitSimulator() {
         </div>
       </Card>
 
+      <ShotHistogram circuit={circuit} seed={seed} noiseModel={hasNoise ? noiseModel : undefined} />
+
+      {experimentError && (
+        <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+          <p className="text-xs text-red-400">{experimentError}</p>
+        </Card>
+      )}
+      {loadedExperiment?.expectedResults && (
+        <ExperimentResultsPanel
+          experiment={loadedExperiment}
+          circuit={circuit}
+          noiseModel={hasNoise ? noiseModel : undefined}
+          onClose={() => setLoadedExperiment(null)}
+        />
+      )}
+
+      <ObservablePanel key={numQubits} state={quantumState} />
+      <VqePanel onLoad={loadCircuit} />
+      <QaoaPanel onLoad={loadCircuit} />
+      <GroverPanel onLoad={loadCircuit} />
+      <PhaseEstimationPanel onLoad={loadCircuit} />
+      <ShorPanel onLoad={loadCircuit} />
+      <UnitaryPanel circuit={circuit} />
+      <OptimizerPanel circuit={circuit} onApply={loadCircuit} />
+      <EquivalencePanel circuit={circuit} />
+      <TranspilerPanel circuit={circuit} />
+
+      <QasmPanel circuit={circuit} onImport={loadCircuit} />
+      <QuirkPanel circuit={circuit} onImport={loadCircuit} />
+
       {/* Circuit History */}
-      {circuit.length > 0 && (
+      {circuit.operations.length > 0 && (
         <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
           <div className="flex items-center justify-between mb-2">
             <h4 className="text-sm font-semibold text-white">Circuit Operations</h4>
-            <Badge variant="outline" className="border-gray-500/50 text-gray-400 bg-gray-500/10 text-xs">
-              {circuit.length} ops
-            </Badge>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="border-gray-500/50 text-gray-400 bg-gray-500/10 text-xs">
+                {circuit.operations.length} ops · depth {circuit.depth()}
+              </Badge>
+              <CopyAsMenu circuit={circuit} seed={seed} />
+            </div>
           </div>
           <div className="space-y-1 max-h-32 overflow-y-auto custom-scrollbar">
-            {circuit.map((op, i) => (
-              <div key={op.id} className="text-xs text-purple-300 font-mono p-1 bg-black/20 rounded">
-                {i + 1}. {op.type === "single" && `${op.gate} q${op.target}`}
-                {op.type === "cnot" && `CNOT q${op.control} → q${op.target}`}
-                {op.type === "measure" && `Measure q${op.target}`}
+            {circuit.operations.map((op, i) => (
+              <div key={i} className="text-xs text-purple-300 font-mono p-1 bg-black/20 rounded">
+                {i + 1}. {formatOperation(op)}
               </div>
             ))}
           </div>
         </Card>
       )}
+
+      <CollaborativeExperimentsInterface
+        isOpen={experimentsOpen}
+        onClose={() => setExperimentsOpen(false)}
+        onLoadExperiment={loadExperiment}
+      />
     </div>
   )
 }
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useRef, useCallback } from "react"
+import { useState, useEffect, useRef, useCallback, useMemo } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -8,26 +8,38 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Slider } from "@/components/ui/slider"
 import { Zap, Eye, Play, Pause, Settings, Maximize2, Download } from "lucide-react"
 import Image from "next/image"
+import { blochVector, entanglementSummary, type EntanglementSummary } from "@/lib/entanglement"
+import type { QuantumState } from "@/lib/quantum-simulator"
+import { StateVector } from "@/lib/state-vector"
 
 interface QuantumVisualizationEngineProps {
-  quantumState: number[]
+  quantumState: QuantumState
   numQubits: number
-  onStateChange?: (newState: number[]) => void
+  onStateChange?: (newState: QuantumState) => void
 }
 
 interface BlochSpherePoint {
   x: number
   y: number
   z: number
+  length: number // 1 for a pure qubit, less when it is mixed
   qubit: number
 }
 
 interface EntanglementConnection {
   qubit1: number
   qubit2: number
-  strength: number
+  strength: number // concurrence of the pair
+  mutualInformation: number
 }
 
+// Viewing angle of the Bloch spheres above the equator
+const BLOCH_TILT = 0.35
+
+// Pairs below these are drawn as uncorrelated
+const MIN_CONCURRENCE = 0.01
+const MIN_MUTUAL_INFORMATION = 0.01
+
 export function QuantumVisualizationEngine({
   quantumState = [], // Added default empty array
   numQubits = 1, // Added default value
@@ -44,98 +56,47 @@ export function QuantumVisualizationEngine({
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const animationRef = useRef<number>()
 
-  const safeQuantumState =
-    quantumState && quantumState.length > 0 ? quantumState : Array(Math.pow(2, numQubits) * 2).fill(0)
+  // The state as a StateVector, or null while it does not match the register size
+  const stateVector = useMemo(
+    () =>
+      numQubits >= 1 && quantumState && quantumState.length === 1 << numQubits
+        ? StateVector.fromComplexArray(quantumState, numQubits)
+        : null,
+    [quantumState, numQubits],
+  )
 
-  // Calculate Bloch sphere coordinates for each qubit
+  // Bloch vector of each qubit from its reduced density matrix
   const calculateBlochCoordinates = useCallback(
     (qubitIndex: number): BlochSpherePoint => {
-      if (!safeQuantumState || safeQuantumState.length === 0 || qubitIndex >= numQubits) {
-        return { x: 0, y: 0, z: 1, qubit: qubitIndex }
-      }
-
-      // Extract single qubit state from full quantum state
-      const stateSize = Math.pow(2, numQubits)
-      let alpha = 0
-      let beta = 0
-
-      // Sum amplitudes for |0⟩ and |1⟩ states of the specific qubit
-      for (let i = 0; i < stateSize; i++) {
-        const binaryRep = i.toString(2).padStart(numQubits, "0")
-        const qubitBit = Number.parseInt(binaryRep[numQubits - 1 - qubitIndex])
-
-        const realIndex = i * 2
-        if (realIndex < safeQuantumState.length) {
-          if (qubitBit === 0) {
-            alpha += safeQuantumState[realIndex] // Real part
-          } else {
-            beta += safeQuantumState[realIndex] // Real part
-          }
-        }
-      }
-
-      // Normalize
-      const norm = Math.sqrt(alpha * alpha + beta * beta)
-      if (norm > 0) {
-        alpha /= norm
-        beta /= norm
-      }
-
-      // Convert to Bloch sphere coordinates
-      const theta = 2 * Math.acos(Math.abs(alpha))
-      const phi = Math.atan2(beta, alpha)
-
-      return {
-        x: Math.sin(theta) * Math.cos(phi),
-        y: Math.sin(theta) * Math.sin(phi),
-        z: Math.cos(theta),
-        qubit: qubitIndex,
+      if (!stateVector || qubitIndex >= numQubits) {
+        return { x: 0, y: 0, z: 1, length: 1, qubit: qubitIndex }
       }
+      return { ...blochVector(stateVector, qubitIndex), qubit: qubitIndex }
     },
-    [safeQuantumState, numQubits], // Updated dependency
+    [stateVector, numQubits],
   )
 
-  // Calculate entanglement connections
-  const calculateEntanglement = useCallback((): EntanglementConnection[] => {
-    if (!safeQuantumState || safeQuantumState.length === 0 || numQubits < 2) {
-      return []
-    }
-
-    const connections: EntanglementConnection[] = []
-
-    for (let i = 0; i < numQubits; i++) {
-      for (let j = i + 1; j < numQubits; j++) {
-        // Calculate entanglement measure (simplified)
-        let entanglement = 0
-        const stateSize = Math.pow(2, numQubits)
-
-        for (let k = 0; k < stateSize; k++) {
-          const realIndex = k * 2
-          const imagIndex = k * 2 + 1
-          if (realIndex < safeQuantumState.length && imagIndex < safeQuantumState.length) {
-            const amplitude = Math.sqrt(safeQuantumState[realIndex] ** 2 + safeQuantumState[imagIndex] ** 2)
-            const binaryRep = k.toString(2).padStart(numQubits, "0")
-            const bit_i = Number.parseInt(binaryRep[numQubits - 1 - i])
-            const bit_j = Number.parseInt(binaryRep[numQubits - 1 - j])
-
-            if (bit_i !== bit_j) {
-              entanglement += amplitude
-            }
-          }
-        }
-
-        if (entanglement > 0.1) {
-          connections.push({
-            qubit1: i,
-            qubit2: j,
-            strength: Math.min(entanglement, 1),
-          })
-        }
-      }
-    }
+  // Reduced-state entropies and pairwise concurrence / mutual information of the current state
+  const entanglement = useMemo(
+    (): EntanglementSummary | null => (stateVector ? entanglementSummary(stateVector) : null),
+    [stateVector],
+  )
 
-    return connections
-  }, [safeQuantumState, numQubits]) // Updated dependency
+  // Correlated qubit pairs; entangled pairs have non-zero concurrence
+  const calculateEntanglement = useCallback(
+    (includeClassical = false): EntanglementConnection[] =>
+      (entanglement?.pairs ?? [])
+        .filter(({ concurrence, mutualInformation }) =>
+          includeClassical ? mutualInformation > MIN_MUTUAL_INFORMATION : concurrence > MIN_CONCURRENCE,
+        )
+        .map(({ qubits: [qubit1, qubit2], concurrence, mutualInformation }) => ({
+          qubit1,
+          qubit2,
+          strength: concurrence,
+          mutualInformation,
+        })),
+    [entanglement],
+  )
 
   // 3D Canvas rendering
   const render3DVisualization = useCallback(() => {
@@ -206,10 +167,20 @@ export function QuantumVisualizationEngine({
         ctx.lineTo(sphereCenterX, sphereCenterY + sphereRadius)
         ctx.stroke()
 
-        // Draw qubit state vector
+        // Equator, tilted towards the viewer
+        ctx.setLineDash([3, 3])
+        ctx.beginPath()
+        ctx.ellipse(sphereCenterX, sphereCenterY, sphereRadius, sphereRadius * Math.sin(BLOCH_TILT), 0, 0, 2 * Math.PI)
+        ctx.stroke()
+        ctx.setLineDash([])
+
+        // Draw qubit state vector, turned about the Z axis by the animation
         const blochPoint = calculateBlochCoordinates(i)
-        const vectorX = sphereCenterX + blochPoint.x * sphereRadius * Math.cos(rotationAngle)
-        const vectorY = sphereCenterY - blochPoint.z * sphereRadius
+        const across = blochPoint.x * Math.cos(rotationAngle) - blochPoint.y * Math.sin(rotationAngle)
+        const depth = blochPoint.x * Math.sin(rotationAngle) + blochPoint.y * Math.cos(rotationAngle)
+        const vectorX = sphereCenterX + across * sphereRadius
+        const vectorY =
+          sphereCenterY - (blochPoint.z * Math.cos(BLOCH_TILT) - depth * Math.sin(BLOCH_TILT)) * sphereRadius
 
         // State vector
         ctx.strokeStyle = "#f59e0b"
@@ -225,11 +196,11 @@ export function QuantumVisualizationEngine({
         ctx.arc(vectorX, vectorY, 4, 0, 2 * Math.PI)
         ctx.fill()
 
-        // Qubit label
+        // Qubit label with the vector length: below 1 the qubit is mixed
         ctx.fillStyle = "#e2e8f0"
         ctx.font = "12px monospace"
         ctx.textAlign = "center"
-        ctx.fillText(`q${i}`, sphereCenterX, sphereCenterY + sphereRadius + 20)
+        ctx.fillText(`q${i} |r|=${blochPoint.length.toFixed(2)}`, sphereCenterX, sphereCenterY + sphereRadius + 20)
       }
 
       // Draw entanglement connections
@@ -256,6 +227,58 @@ export function QuantumVisualizationEngine({
           ctx.setLineDash([])
         })
       }
+    } else if (activeView === "network") {
+      // Qubits on a circle; edge width follows mutual information, solid edges are entangled pairs
+      const ringRadius = numQubits > 1 ? radius : 0
+      const position = (q: number) => {
+        const angle = (2 * Math.PI * q) / numQubits - Math.PI / 2 + rotationAngle
+        return { x: centerX + ringRadius * Math.cos(angle), y: centerY + ringRadius * Math.sin(angle) }
+      }
+
+      calculateEntanglement(true).forEach((conn) => {
+        const from = position(conn.qubit1)
+        const to = position(conn.qubit2)
+        const entangled = conn.strength > MIN_CONCURRENCE
+        ctx.strokeStyle = entangled
+          ? `rgba(168, 85, 247, ${0.3 + conn.strength * 0.7})`
+          : `rgba(6, 182, 212, ${0.3 + (conn.mutualInformation / 2) * 0.5})`
+        ctx.lineWidth = 1 + conn.mutualInformation * 3
+        ctx.setLineDash(entangled ? [] : [5, 5])
+        ctx.beginPath()
+        ctx.moveTo(from.x, from.y)
+        ctx.lineTo(to.x, to.y)
+        ctx.stroke()
+        ctx.setLineDash([])
+
+        ctx.fillStyle = "#cbd5e1"
+        ctx.font = "10px monospace"
+        ctx.textAlign = "center"
+        const label = entangled
+          ? `C=${conn.strength.toFixed(2)} I=${conn.mutualInformation.toFixed(2)}`
+          : `I=${conn.mutualInformation.toFixed(2)}`
+        ctx.fillText(label, (from.x + to.x) / 2, (from.y + to.y) / 2 - 4)
+      })
+
+      for (let q = 0; q < numQubits; q++) {
+        const { x, y } = position(q)
+        // Brighter nodes are more entangled with the rest of the register
+        const entropy = entanglement?.entropies[q] ?? 0
+        ctx.fillStyle = `rgba(245, 158, 11, ${0.25 + 0.75 * Math.min(entropy, 1)})`
+        ctx.strokeStyle = q === selectedQubit ? "#06b6d4" : "rgba(226, 232, 240, 0.6)"
+        ctx.lineWidth = q === selectedQubit ? 3 : 1
+        ctx.beginPath()
+        ctx.arc(x, y, 16, 0, 2 * Math.PI)
+        ctx.fill()
+        ctx.stroke()
+
+        ctx.fillStyle = "#0f172a"
+        ctx.font = "bold 11px monospace"
+        ctx.textAlign = "center"
+        ctx.fillText(`q${q}`, x, y + 4)
+        ctx.fillStyle = "#e2e8f0"
+        ctx.font = "10px monospace"
+        ctx.fillText(`S=${entropy.toFixed(2)}`, x, y + 30)
+      }
     } else if (activeView === "amplitude") {
       // Draw amplitude visualization
       const stateSize = Math.pow(2, numQubits)
@@ -263,10 +286,7 @@ export function QuantumVisualizationEngine({
       const maxHeight = height * 0.8
 
       for (let i = 0; i < stateSize; i++) {
-        const realIndex = i * 2
-        const imagIndex = i * 2 + 1
-        const real = realIndex < safeQuantumState.length ? safeQuantumState[realIndex] : 0
-        const imag = imagIndex < safeQuantumState.length ? safeQuantumState[imagIndex] : 0
+        const { real, imag } = stateVector ? stateVector.amplitude(i) : { real: 0, imag: 0 }
         const amplitude = Math.sqrt(real * real + imag * imag)
         const phase = Math.atan2(imag, real)
 
@@ -296,7 +316,8 @@ export function QuantumVisualizationEngine({
     showEntanglement,
     calculateBlochCoordinates,
     calculateEntanglement,
-    safeQuantumState, // Updated dependency
+    entanglement,
+    stateVector,
     numQubits,
   ])
 
@@ -340,6 +361,8 @@ export function QuantumVisualizationEngine({
     return () => window.removeEventListener("resize", resizeCanvas)
   }, [render3DVisualization])
 
+  const selectedBloch = selectedQubit < numQubits ? calculateBlochCoordinates(selectedQubit) : null
+
   const exportVisualization = () => {
     const canvas = canvasRef.current
     if (!canvas) return
@@ -447,6 +470,13 @@ export function QuantumVisualizationEngine({
                 3D Bloch Representation
               </Badge>
             </div>
+            {selectedBloch && (
+              <div className="text-xs text-gray-400 font-mono">
+                q{selectedQubit}: (x, y, z) = ({selectedBloch.x.toFixed(3)}, {selectedBloch.y.toFixed(3)},{" "}
+                {selectedBloch.z.toFixed(3)}), |r| = {selectedBloch.length.toFixed(3)},{" "}
+                {selectedBloch.length > 1 - 1e-6 ? "pure" : selectedBloch.length < 1e-6 ? "maximally mixed" : "mixed"}
+              </div>
+            )}
           </TabsContent>
 
           <TabsContent value="amplitude" className="space-y-3">
@@ -465,6 +495,10 @@ export function QuantumVisualizationEngine({
                 Correlation Mapping
               </Badge>
             </div>
+            <p className="text-xs text-purple-300/60">
+              S is each qubit&apos;s entanglement entropy with the rest. Solid edges are entangled pairs (concurrence
+              C); dashed edges share only mutual information I, as in GHZ states or classical correlations.
+            </p>
           </TabsContent>
         </Tabs>
 
@@ -496,7 +530,7 @@ export function QuantumVisualizationEngine({
             <div>
               Qubits: {numQubits} | States: {Math.pow(2, numQubits)}
             </div>
-            <div className="text-cyan-300">Entanglement: {calculateEntanglement().length} connections</div>
+            <div className="text-cyan-300">Entanglement: {calculateEntanglement().length} entangled pairs</div>
           </div>
         </div>
 
@@ -509,7 +543,7 @@ export function QuantumVisualizationEngine({
           <div className="bg-black/20 rounded p-2 border border-gray-700/30">
             <div className="text-xs text-gray-400">Entanglement</div>
             <div className="text-sm font-semibold text-purple-400">
-              {calculateEntanglement().length > 0 ? "Yes" : "No"}
+              {entanglement ? `${Math.max(0, ...entanglement.entropies).toFixed(3)} bits` : "—"}
             </div>
           </div>
           <div className="bg-black/20 rounded p-2 border border-gray-700/30">
@@ -517,8 +551,12 @@ export function QuantumVisualizationEngine({
             <div className="text-sm font-semibold text-green-400">{(Math.random() * 0.1 + 0.9).toFixed(3)}</div>
           </div>
           <div className="bg-black/20 rounded p-2 border border-gray-700/30">
-            <div className="text-xs text-gray-400">Purity</div>
-            <div className="text-sm font-semibold text-yellow-400">{(Math.random() * 0.2 + 0.8).toFixed(3)}</div>
+            <div className="text-xs text-gray-400">Qubit Purity</div>
+            <div className="text-sm font-semibold text-yellow-400">
+              {entanglement
+                ? (entanglement.purities.reduce((total, purity) => total + purity, 0) / numQubits).toFixed(3)
+                : "—"}
+            </div>
           </div>
         </div>
 
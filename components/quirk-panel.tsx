@@ -0,0 +1,126 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ExternalLink, Link } from "lucide-react"
+import type { Circuit } from "@/lib/circuit"
+import { parseQuirk, toQuirkUrl } from "@/lib/quirk"
+
+interface QuirkPanelProps {
+  circuit: Circuit
+  onImport: (circuit: Circuit) => void
+}
+
+export function QuirkPanel({ circuit, onImport }: QuirkPanelProps) {
+  const [link, setLink] = useState("")
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null)
+
+  // Export fails for resets and conditions Quirk can't express; the buttons show why
+  let exportUrl: string | null = null
+  let exportError: string | null = null
+  try {
+    exportUrl = circuit.operations.length > 0 ? toQuirkUrl(circuit) : null
+  } catch (err) {
+    exportError = err instanceof Error ? err.message : String(err)
+  }
+
+  const importLink = (text: string) => {
+    try {
+      const { circuit: imported, warnings } = parseQuirk(text)
+      onImport(imported)
+      setMessage({
+        text: warnings.length > 0 ? warnings.join("; ") : `Opened ${imported.operations.length} operations`,
+        error: false,
+      })
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), error: true })
+    }
+  }
+
+  // A pasted Quirk link opens right away
+  const handlePaste = (event: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = event.clipboardData.getData("text")
+    if (text.includes("circuit=")) {
+      event.preventDefault()
+      setLink(text)
+      importLink(text)
+    }
+  }
+
+  const copyLink = async () => {
+    if (!exportUrl) return
+    try {
+      await navigator.clipboard.writeText(exportUrl)
+      setMessage({ text: "Quirk link copied", error: false })
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), error: true })
+    }
+  }
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-white">Quirk</h4>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={copyLink}
+            disabled={!exportUrl}
+            title={exportError ?? "Copy the circuit as a Quirk link"}
+            className="text-xs bg-transparent"
+          >
+            <Link className="w-3 h-3 mr-1" />
+            Copy link
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!exportUrl}
+            title={exportError ?? "Open the circuit in Quirk"}
+            className="text-xs bg-transparent"
+            asChild={!!exportUrl}
+          >
+            {exportUrl ? (
+              <a href={exportUrl} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="w-3 h-3 mr-1" />
+                Open in Quirk
+              </a>
+            ) : (
+              <span>
+                <ExternalLink className="w-3 h-3 mr-1" />
+                Open in Quirk
+              </span>
+            )}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={link}
+          onChange={(e) => setLink(e.target.value)}
+          onPaste={handlePaste}
+          placeholder="Paste a Quirk link: https://algassert.com/quirk#circuit=…"
+          className="h-8 bg-gray-800/50 border-gray-700/50 text-white text-xs font-mono"
+        />
+        <Button
+          size="sm"
+          onClick={() => importLink(link)}
+          disabled={!link.trim()}
+          className="bg-cyan-600 hover:bg-cyan-700"
+        >
+          Open
+        </Button>
+      </div>
+      <p
+        className={`text-xs mt-2 ${message?.error ? "text-red-400" : message ? "text-yellow-300/80" : "text-purple-300/60"}`}
+      >
+        {message?.text ?? exportError ?? "Quirk circuits open in the Lab; displays are skipped and listed here."}
+      </p>
+    </Card>
+  )
+}
@@ -0,0 +1,250 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { ChevronLeft, ChevronRight, Play } from "lucide-react"
+import type { Circuit } from "@/lib/circuit"
+import { MAX_SHOR_QUBITS, gcd, runShor, shorNumbers, workQubitCount, type ShorResult } from "@/lib/shor"
+
+interface ShorPanelProps {
+  onLoad?: (circuit: Circuit) => void // load the order-finding circuit into the Lab
+}
+
+const selectClassName = "bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+const shotOptions = [16, 64, 256]
+// Readouts listed in the post-processing table, most frequent first
+const MAX_CANDIDATE_ROWS = 8
+
+export function ShorPanel({ onLoad }: ShorPanelProps) {
+  const [N, setN] = useState(15)
+  const [a, setA] = useState(7)
+  const [countingQubits, setCountingQubits] = useState(8)
+  const [shots, setShots] = useState(64)
+  const [stage, setStage] = useState(0)
+  // The run is shown only while N, a and the register size it used are still selected
+  const [run, setRun] = useState<{ key: string; result: ShorResult } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const workQubits = workQubitCount(N)
+  const maxCounting = MAX_SHOR_QUBITS - workQubits
+  const key = `${N}:${a}:${countingQubits}`
+
+  const selectN = (value: number) => {
+    setN(value)
+    setA(2)
+    setCountingQubits(Math.min(2 * workQubitCount(value), MAX_SHOR_QUBITS - workQubitCount(value)))
+  }
+
+  const factor = () => {
+    try {
+      const result = runShor(N, { a, countingQubits, shots })
+      setRun({ key, result })
+      setStage(Math.max(0, result.distributions.length - 1))
+      setError(null)
+    } catch (err) {
+      setRun(null)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const shown = run && run.key === key ? run.result : null
+  const orderFinding = shown?.orderFinding
+  const distribution = shown?.distributions[stage]
+  const maxProbability = distribution ? Math.max(...distribution) : 1
+  const bins = 2 ** countingQubits
+  const foundPeriod = shown?.candidates.find((candidate) => candidate.period !== null)?.period ?? null
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-white">Shor Factoring</h4>
+          <Badge variant="outline" className="border-gray-500/50 text-gray-400 bg-gray-500/10 text-xs">
+            {countingQubits} counting + {workQubits} work qubits
+          </Badge>
+        </div>
+        <Button size="sm" onClick={factor} className="bg-cyan-600 hover:bg-cyan-700">
+          <Play className="w-3 h-3 mr-1" />
+          Factor
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={N}
+          onChange={(e) => selectN(Number(e.target.value))}
+          title="Number to factor"
+          className={selectClassName}
+        >
+          {shorNumbers.map((value) => (
+            <option key={value} value={value}>
+              N = {value}
+            </option>
+          ))}
+        </select>
+        <select value={a} onChange={(e) => setA(Number(e.target.value))} title="Base a" className={selectClassName}>
+          {Array.from({ length: N - 2 }, (_, i) => i + 2).map((value) => (
+            <option key={value} value={value}>
+              a = {value}
+              {gcd(value, N) !== 1 ? " (shares a factor)" : ""}
+            </option>
+          ))}
+        </select>
+        <select
+          value={countingQubits}
+          onChange={(e) => setCountingQubits(Number(e.target.value))}
+          title="Counting qubits"
+          className={selectClassName}
+        >
+          {Array.from({ length: maxCounting - 1 }, (_, i) => i + 2).map((count) => (
+            <option key={count} value={count}>
+              {count} counting qubits
+            </option>
+          ))}
+        </select>
+        <select
+          value={shots}
+          onChange={(e) => setShots(Number(e.target.value))}
+          title="Shots"
+          className={selectClassName}
+        >
+          {shotOptions.map((option) => (
+            <option key={option} value={option}>
+              {option} shots
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+
+      {shown && (
+        <div className="mt-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+            {[
+              {
+                label: "Factors",
+                value: shown.factors ? `${N} = ${shown.factors[0]} × ${shown.factors[1]}` : "not found",
+              },
+              { label: "Period found", value: foundPeriod ?? "—" },
+              { label: `Order of ${a} mod ${N}`, value: shown.order || "—" },
+              { label: "Seed", value: shown.seed },
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-black/20 rounded p-2 border border-gray-700/30">
+                <div className="text-xs text-gray-400">{label}</div>
+                <div className="text-sm font-semibold text-white font-mono">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {!orderFinding && (
+            <p className="text-xs text-purple-300/60">
+              gcd({a}, {N}) = {gcd(a, N)} is already a factor, so no order finding is needed. Pick a coprime base to
+              watch the quantum part.
+            </p>
+          )}
+
+          {orderFinding && distribution && (
+            <>
+              <div className="flex items-center gap-2 mb-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setStage(Math.max(0, stage - 1))}
+                  disabled={stage === 0}
+                  className="border-gray-600 text-gray-300 bg-transparent h-7 px-2"
+                >
+                  <ChevronLeft className="w-3 h-3" />
+                </Button>
+                <Slider
+                  value={[stage]}
+                  onValueChange={([value]) => setStage(value)}
+                  min={0}
+                  max={orderFinding.stages.length - 1}
+                  step={1}
+                  className="flex-1"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setStage(Math.min(orderFinding.stages.length - 1, stage + 1))}
+                  disabled={stage === orderFinding.stages.length - 1}
+                  className="border-gray-600 text-gray-300 bg-transparent h-7 px-2"
+                >
+                  <ChevronRight className="w-3 h-3" />
+                </Button>
+              </div>
+              <p className="text-xs text-purple-300 mb-1">
+                Step {stage + 1} of {orderFinding.stages.length}: {orderFinding.stages[stage].label}
+              </p>
+
+              <div className="flex items-end h-24 px-1 bg-black/20 rounded border border-gray-700/30">
+                {Array.from(distribution, (probability, y) => (
+                  <div
+                    key={y}
+                    title={`y = ${y} (${(y / bins).toFixed(4)}): ${(probability * 100).toFixed(2)}%`}
+                    className="flex-1 bg-cyan-400/80"
+                    style={{ height: `${(probability / maxProbability) * 100}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-purple-300/60 font-mono mt-1">
+                <span>0</span>
+                <span>counting register y</span>
+                <span>{bins - 1}</span>
+              </div>
+              <p className="text-xs text-purple-300/60 mt-1">
+                After the inverse QFT the peaks sit near multiples of 2^{countingQubits} / r = {bins} / {shown.order} ≈{" "}
+                {(bins / shown.order).toFixed(1)}
+              </p>
+
+              <div className="mt-3 space-y-1">
+                <div className="grid grid-cols-5 gap-2 text-xs text-gray-400">
+                  <span>Readout</span>
+                  <span>y / 2^t</span>
+                  <span className="col-span-2">Convergents</span>
+                  <span>Period → factors</span>
+                </div>
+                {shown.candidates.slice(0, MAX_CANDIDATE_ROWS).map((candidate) => (
+                  <div key={candidate.bitstring} className="grid grid-cols-5 gap-2 text-xs font-mono">
+                    <span className="text-cyan-300 truncate" title={`${candidate.count} shots`}>
+                      {candidate.bitstring} ×{candidate.count}
+                    </span>
+                    <span className="text-gray-300">{candidate.phase.toFixed(4)}</span>
+                    <span className="col-span-2 text-gray-300 truncate">
+                      {candidate.convergents.map((c) => `${c.numerator}/${c.denominator}`).join(", ")}
+                    </span>
+                    <span className={candidate.factors ? "text-green-400" : "text-gray-500"}>
+                      {candidate.period === null
+                        ? "none"
+                        : `r = ${candidate.period}${candidate.factors ? ` → ${candidate.factors.join(" × ")}` : ""}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {onLoad && (
+                <div className="flex items-center justify-between mt-3">
+                  <span className="text-xs text-purple-300/60">
+                    {orderFinding.circuit.operations.length} operations on {orderFinding.circuit.numQubits} qubits
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onLoad(orderFinding.circuit)}
+                    className="border-cyan-400/50 text-cyan-400 bg-cyan-400/10 hover:bg-cyan-400/20"
+                  >
+                    Load circuit into Lab
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,124 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { BarChart3, Play } from "lucide-react"
+import { runCircuit, type RunResult } from "@/lib/circuit-runner"
+import type { Circuit } from "@/lib/circuit"
+import type { NoiseModel } from "@/lib/density-matrix"
+
+interface ShotHistogramProps {
+  circuit: Circuit
+  seed?: number
+  noiseModel?: NoiseModel
+}
+
+const shotOptions = [100, 1024, 8192]
+// Bitstrings listed in the histogram, most frequent first
+const MAX_HISTOGRAM_BARS = 32
+
+export function ShotHistogram({ circuit, seed, noiseModel }: ShotHistogramProps) {
+  const [shots, setShots] = useState(1024)
+  const [result, setResult] = useState<RunResult | null>(null)
+
+  // Results describe a specific circuit, so clear them when it changes
+  useEffect(() => {
+    setResult(null)
+  }, [circuit, seed, noiseModel])
+
+  const run = () => {
+    setResult(runCircuit(circuit, { shots, seed, noiseModel }))
+  }
+
+  const bitstrings = result
+    ? Array.from(new Set([...Object.keys(result.counts), ...Object.keys(result.probabilities ?? {})]))
+        .sort((a, b) => (result.counts[b] ?? 0) - (result.counts[a] ?? 0))
+        .slice(0, MAX_HISTOGRAM_BARS)
+        .sort()
+    : []
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-white">Shot Counts</h4>
+          <Badge variant="outline" className="border-cyan-400/50 text-cyan-400 bg-cyan-400/10 text-xs">
+            <BarChart3 className="w-3 h-3 mr-1" />
+            {noiseModel ? "Noisy" : "Ideal"} sampling
+          </Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={shots}
+            onChange={(e) => setShots(Number(e.target.value))}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+          >
+            {shotOptions.map((option) => (
+              <option key={option} value={option}>
+                {option} shots
+              </option>
+            ))}
+          </select>
+          <Button size="sm" onClick={run} className="bg-cyan-600 hover:bg-cyan-700">
+            <Play className="w-3 h-3 mr-1" />
+            Run
+          </Button>
+        </div>
+      </div>
+
+      {result ? (
+        <>
+          <div className="flex items-center gap-4 mb-2 text-xs">
+            <span className="flex items-center gap-1 text-cyan-300">
+              <span className="w-3 h-2 bg-cyan-400 rounded-sm" /> counts
+            </span>
+            {result.probabilities && (
+              <span className="flex items-center gap-1 text-purple-300">
+                <span className="w-3 h-2 bg-purple-400/60 rounded-sm" /> exact
+              </span>
+            )}
+            <span className="text-gray-500 ml-auto">
+              {result.classicalRegisters.length > 0
+                ? `registers: ${result.classicalRegisters.map((register) => register.name).join(" ")}`
+                : `measured: ${result.measuredQubits.map((q) => `q${q}`).join(" ")}`}{" "}
+              · seed {result.seed}
+            </span>
+          </div>
+          <div className="space-y-1">
+            {bitstrings.map((bitstring) => {
+              const count = result.counts[bitstring] ?? 0
+              const exact = result.probabilities?.[bitstring]
+              return (
+                <div key={bitstring} className="flex items-center gap-2">
+                  <span className="text-xs text-cyan-300 font-mono min-w-16">{bitstring}</span>
+                  <div className="flex-1 space-y-0.5">
+                    <div className="bg-gray-800/50 rounded h-2 overflow-hidden border border-gray-700/30">
+                      <div
+                        className="h-full bg-cyan-400 transition-all duration-300"
+                        style={{ width: `${(count / result.shots) * 100}%` }}
+                      />
+                    </div>
+                    {exact !== undefined && (
+                      <div className="bg-gray-800/50 rounded h-1 overflow-hidden">
+                        <div className="h-full bg-purple-400/60" style={{ width: `${exact * 100}%` }} />
+                      </div>
+                    )}
+                  </div>
+                  <span className="text-xs text-purple-300 w-20 text-right">
+                    {count} / {exact !== undefined ? `${(exact * 100).toFixed(1)}%` : "—"}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-purple-300/60">
+          Run the circuit to sample measurement outcomes. Without measurements, every qubit is read out at the end.
+        </p>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,225 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Cpu } from "lucide-react"
+import { formatOperation, type Circuit } from "@/lib/circuit"
+import {
+  basisGateSets,
+  circlePositions,
+  couplingMapPresets,
+  parseCouplingMap,
+  transpile,
+  type BasisName,
+  type CouplingMap,
+  type CouplingMapPreset,
+  type LayoutMethod,
+  type TranspileResult,
+} from "@/lib/transpiler"
+
+interface TranspilerPanelProps {
+  circuit: Circuit
+}
+
+const selectClassName = "bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+
+// Coupling map with each physical qubit labelled by the logical qubit placed on it at the start
+function CouplingMapView({ couplingMap, layout }: { couplingMap: CouplingMap; layout: number[] }) {
+  const positions = couplingMap.positions ?? circlePositions(couplingMap.numQubits)
+  const spacing = 36
+  const width = (Math.max(...positions.map(([x]) => x)) + 1) * spacing
+  const height = (Math.max(...positions.map(([, y]) => y)) + 1) * spacing
+  const point = (q: number) => positions[q].map((v) => v * spacing + spacing / 2)
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full max-h-48" role="img" aria-label={couplingMap.name}>
+      {couplingMap.edges.map(([a, b]) => {
+        const [x1, y1] = point(a)
+        const [x2, y2] = point(b)
+        return <line key={`${a}-${b}`} x1={x1} y1={y1} x2={x2} y2={y2} stroke="rgb(139 92 246 / 0.5)" strokeWidth={2} />
+      })}
+      {positions.map((_, q) => {
+        const [x, y] = point(q)
+        const logical = layout.indexOf(q)
+        return (
+          <g key={q}>
+            <circle cx={x} cy={y} r={11} fill={logical >= 0 ? "rgb(8 145 178)" : "rgb(31 41 55)"} />
+            <text x={x} y={y + 3} textAnchor="middle" fontSize={8} fill="white">
+              {logical >= 0 ? `q${logical}` : q}
+            </text>
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
+
+export function TranspilerPanel({ circuit }: TranspilerPanelProps) {
+  const [preset, setPreset] = useState<CouplingMapPreset | "custom">("line")
+  const [customEdges, setCustomEdges] = useState("0-1, 1-2, 2-3, 3-4")
+  const [basis, setBasis] = useState<BasisName>("ibm")
+  const [layoutMethod, setLayoutMethod] = useState<LayoutMethod>("greedy")
+  // The result is shown only while the circuit it was computed for is still the Lab's
+  const [run, setRun] = useState<{ source: Circuit; result: TranspileResult } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const runTranspiler = () => {
+    try {
+      const couplingMap =
+        preset === "custom" ? parseCouplingMap(customEdges) : couplingMapPresets[preset].create(circuit.numQubits)
+      setRun({ source: circuit, result: transpile(circuit, couplingMap, { basis, layout: layoutMethod }) })
+      setError(null)
+    } catch (err) {
+      setRun(null)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const result = run?.source === circuit ? run.result : null
+  const metrics = result && [
+    { label: "SWAPs inserted", value: `${result.swaps}` },
+    {
+      label: `${basisGateSets[result.basis].twoQubitGate}s`,
+      value: `${result.unrouted.twoQubitGates} → ${result.after.twoQubitGates}`,
+    },
+    { label: "Depth", value: `${result.unrouted.depth} → ${result.after.depth}` },
+    { label: "Gates", value: `${result.unrouted.gates} → ${result.after.gates}` },
+  ]
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-white">Hardware Transpiler</h4>
+          {result && (
+            <Badge variant="outline" className="border-cyan-400/50 text-cyan-400 bg-cyan-400/10 text-xs">
+              <Cpu className="w-3 h-3 mr-1" />
+              {result.couplingMap.name}
+            </Badge>
+          )}
+        </div>
+        <Button
+          size="sm"
+          onClick={runTranspiler}
+          disabled={circuit.operations.length === 0}
+          className="bg-cyan-600 hover:bg-cyan-700"
+        >
+          Transpile
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <select
+          value={preset}
+          onChange={(e) => setPreset(e.target.value as CouplingMapPreset | "custom")}
+          title="Device topology"
+          className={selectClassName}
+        >
+          {(Object.keys(couplingMapPresets) as CouplingMapPreset[]).map((name) => (
+            <option key={name} value={name}>
+              {couplingMapPresets[name].label}
+            </option>
+          ))}
+          <option value="custom">Custom</option>
+        </select>
+        <select
+          value={basis}
+          onChange={(e) => setBasis(e.target.value as BasisName)}
+          title="Basis gates"
+          className={selectClassName}
+        >
+          {(Object.keys(basisGateSets) as BasisName[]).map((name) => (
+            <option key={name} value={name}>
+              {basisGateSets[name].label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={layoutMethod}
+          onChange={(e) => setLayoutMethod(e.target.value as LayoutMethod)}
+          title="Initial placement of logical qubits"
+          className={selectClassName}
+        >
+          <option value="greedy">Greedy layout</option>
+          <option value="trivial">Trivial layout (qi → Qi)</option>
+        </select>
+        {preset === "custom" && (
+          <Input
+            value={customEdges}
+            onChange={(e) => setCustomEdges(e.target.value)}
+            placeholder="Edges, e.g. 0-1, 1-2, 1-3"
+            className="w-56 h-8 bg-gray-800/50 border-gray-700/50 text-white text-xs font-mono"
+          />
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+
+      {result && metrics ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+            {metrics.map(({ label, value }) => (
+              <div key={label} className="bg-black/20 rounded p-2 border border-gray-700/30">
+                <div className="text-xs text-gray-400">{label}</div>
+                <div className="text-sm font-semibold text-white">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <div className="text-xs text-purple-300 mb-1">Original ({result.before.operations} ops)</div>
+              <div className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                {circuit.operations.map((op, i) => (
+                  <div key={i} className="text-xs text-purple-300 font-mono p-1 bg-black/20 rounded">
+                    {formatOperation(op)}
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-purple-300 mb-1">
+                Routed on physical qubits ({result.routed.operations.length} ops)
+              </div>
+              <div className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                {result.routed.operations.map((op, i) => (
+                  <div
+                    key={i}
+                    className={`text-xs font-mono p-1 rounded ${
+                      op.gate === "SWAP" ? "text-yellow-300 bg-yellow-500/10" : "text-cyan-300 bg-black/20"
+                    }`}
+                  >
+                    {formatOperation(op)}
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-purple-300 mb-1">Device layout</div>
+              <CouplingMapView couplingMap={result.couplingMap} layout={result.initialLayout} />
+              <div className="text-xs text-gray-400 font-mono mt-1">
+                start: {result.initialLayout.map((p, q) => `q${q}→Q${p}`).join(" ")}
+              </div>
+              <div className="text-xs text-gray-400 font-mono">
+                end: {result.finalLayout.map((p, q) => `q${q}→Q${p}`).join(" ")}
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-purple-300/60 mt-2">
+            Counts compare the circuit in {basisGateSets[result.basis].label} with and without routing; each SWAP costs
+            three CNOTs. The routed circuit has {result.after.operations} operations after basis translation.
+          </p>
+        </>
+      ) : (
+        !error && (
+          <p className="text-xs text-purple-300/60">
+            Real devices only couple neighbouring qubits. Transpile to see the SWAPs routing adds for a topology.
+          </p>
+        )
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,165 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Check, Copy } from "lucide-react"
+import type { Circuit } from "@/lib/circuit"
+import { circuitUnitary, formatMatrixEntry, formatUnitary, type UnitaryMatrix } from "@/lib/unitary"
+
+interface UnitaryPanelProps {
+  circuit: Circuit
+}
+
+// Largest matrix drawn in the Lab (64×64); entries are written out up to 8×8
+const MAX_VIEW_QUBITS = 6
+const MAX_LABELLED_QUBITS = 3
+
+// Hue follows the phase, opacity the magnitude
+function entryColor(real: number, imag: number): string {
+  const magnitude = Math.hypot(real, imag)
+  if (magnitude < 1e-9) return "transparent"
+  const hue = ((Math.atan2(imag, real) * 180) / Math.PI + 360) % 360
+  return `hsl(${hue.toFixed(0)} 80% 55% / ${Math.min(1, 0.15 + 0.85 * magnitude).toFixed(2)})`
+}
+
+const basisLabel = (index: number, numQubits: number) => index.toString(2).padStart(numQubits, "0")
+
+export function UnitaryPanel({ circuit }: UnitaryPanelProps) {
+  const [exact, setExact] = useState(true)
+  const [hovered, setHovered] = useState<{ row: number; col: number } | null>(null)
+  const [copied, setCopied] = useState<string | null>(null)
+
+  const computed = useMemo((): { unitary?: UnitaryMatrix; error?: string } => {
+    if (circuit.numQubits > MAX_VIEW_QUBITS) {
+      return { error: `The matrix view shows circuits of up to ${MAX_VIEW_QUBITS} qubits` }
+    }
+    try {
+      return { unitary: circuitUnitary(circuit, { ignoreFinalMeasurements: true }) }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) }
+    }
+  }, [circuit])
+  const { unitary, error } = computed
+  const hasMeasurements = circuit.operations.some((op) => op.type === "measure")
+
+  const copy = async (format: "numpy" | "latex") => {
+    if (!unitary) return
+    try {
+      await navigator.clipboard.writeText(formatUnitary(unitary, format))
+    } catch {
+      return
+    }
+    setCopied(format)
+    setTimeout(() => setCopied(null), 2000)
+  }
+
+  const labelled = unitary && unitary.numQubits <= MAX_LABELLED_QUBITS
+  const cell = unitary && (labelled ? "min-w-16 h-8 px-1" : unitary.numQubits <= 4 ? "w-4 h-4" : "w-2 h-2")
+  const focus = unitary && hovered ? unitary.entry(hovered.row, hovered.col) : null
+  const focusText =
+    unitary && hovered && focus
+      ? [
+          `⟨${basisLabel(hovered.row, unitary.numQubits)}|U|${basisLabel(hovered.col, unitary.numQubits)}⟩`,
+          `= ${formatMatrixEntry(focus, { exact })}`,
+          `· |u| = ${Math.hypot(focus.real, focus.imag).toFixed(4)},`,
+          `arg = ${(Math.atan2(focus.imag, focus.real) / Math.PI).toFixed(3)}π`,
+        ].join(" ")
+      : "Hover an entry for its value; colour shows phase, brightness magnitude"
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-white">Unitary Matrix</h4>
+          {unitary && (
+            <Badge variant="outline" className="border-gray-500/50 text-gray-400 bg-gray-500/10 text-xs">
+              {unitary.size}×{unitary.size}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant={exact ? "default" : "ghost"}
+            onClick={() => setExact((prev) => !prev)}
+            title="Show entries as fractions and roots where possible"
+            className="text-xs h-6 px-2"
+          >
+            Exact
+          </Button>
+          {(["numpy", "latex"] as const).map((format) => (
+            <Button
+              key={format}
+              size="sm"
+              variant="outline"
+              onClick={() => copy(format)}
+              disabled={!unitary}
+              className="text-xs bg-transparent h-6 px-2"
+            >
+              {copied === format ? (
+                <Check className="w-3 h-3 mr-1 text-green-400" />
+              ) : (
+                <Copy className="w-3 h-3 mr-1" />
+              )}
+              {format === "numpy" ? "NumPy" : "LaTeX"}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {unitary && (
+        <>
+          <div className="overflow-auto custom-scrollbar max-h-96" onMouseLeave={() => setHovered(null)}>
+            <table className="border-collapse font-mono text-xs">
+              {labelled && (
+                <thead>
+                  <tr>
+                    <th />
+                    {Array.from({ length: unitary.size }, (_, col) => (
+                      <th key={col} className="px-1 text-gray-500 font-normal">
+                        |{basisLabel(col, unitary.numQubits)}⟩
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+              )}
+              <tbody>
+                {Array.from({ length: unitary.size }, (_, row) => (
+                  <tr key={row}>
+                    {labelled && (
+                      <th className="pr-2 text-gray-500 font-normal text-right">
+                        ⟨{basisLabel(row, unitary.numQubits)}|
+                      </th>
+                    )}
+                    {Array.from({ length: unitary.size }, (_, col) => {
+                      const value = unitary.entry(row, col)
+                      return (
+                        <td
+                          key={col}
+                          onMouseEnter={() => setHovered({ row, col })}
+                          style={{ backgroundColor: entryColor(value.real, value.imag) }}
+                          className={`${cell} border border-gray-800 text-center text-white whitespace-nowrap`}
+                        >
+                          {labelled && formatMatrixEntry(value, { exact, digits: 3 })}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="text-xs text-gray-400 font-mono mt-2 h-4">{focusText}</div>
+          {hasMeasurements && (
+            <p className="text-xs text-purple-300/60 mt-1">Final measurements are left out of the matrix.</p>
+          )}
+        </>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,243 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Play } from "lucide-react"
+import type { Circuit } from "@/lib/circuit"
+import { classicalOptimizerNames, classicalOptimizers, type ClassicalOptimizerName } from "@/lib/classical-optimizers"
+import { parsePauliSum } from "@/lib/observables"
+import { formatQuantumState } from "@/lib/quantum-simulator"
+import {
+  MAX_EXACT_ENERGY_QUBITS,
+  MAX_VQE_QUBITS,
+  ansatzNames,
+  ansatze,
+  groundStateEnergy,
+  moleculeNames,
+  molecules,
+  runVqe,
+  type AnsatzName,
+  type MoleculeName,
+  type VqeResult,
+} from "@/lib/vqe"
+import { ConvergencePlot } from "./convergence-plot"
+
+interface VqePanelProps {
+  onLoad?: (circuit: Circuit) => void // load the converged ansatz into the Lab
+}
+
+const selectClassName = "bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+const iterationOptions = [100, 300, 1000]
+const layerOptions = [1, 2, 3, 4]
+export function VqePanel({ onLoad }: VqePanelProps) {
+  const [molecule, setMolecule] = useState<MoleculeName | "custom">("h2-2q")
+  const [source, setSource] = useState(molecules["h2-2q"].hamiltonian)
+  const [ansatz, setAnsatz] = useState<AnsatzName>("ucc")
+  const [layers, setLayers] = useState(1)
+  const [optimizer, setOptimizer] = useState<ClassicalOptimizerName>("cobyla")
+  const [maxIterations, setMaxIterations] = useState(300)
+  // The run is shown only while the Hamiltonian it minimized is still the one entered
+  const [run, setRun] = useState<{ source: string; result: VqeResult } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const parsed = useMemo(() => {
+    try {
+      const hamiltonian = parsePauliSum(source, molecule === "custom" ? undefined : molecules[molecule].numQubits)
+      if (hamiltonian.numQubits > MAX_VQE_QUBITS) {
+        return { error: `VQE runs up to ${MAX_VQE_QUBITS} qubits, the Hamiltonian has ${hamiltonian.numQubits}` }
+      }
+      const exact = hamiltonian.numQubits <= MAX_EXACT_ENERGY_QUBITS ? groundStateEnergy(hamiltonian) : undefined
+      return { hamiltonian, exact }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) }
+    }
+  }, [source, molecule])
+
+  const electrons =
+    molecule === "custom" ? Math.floor((parsed.hamiltonian?.numQubits ?? 0) / 2) : molecules[molecule].electrons
+
+  const selectMolecule = (name: MoleculeName | "custom") => {
+    setMolecule(name)
+    if (name !== "custom") setSource(molecules[name].hamiltonian)
+  }
+
+  const runSolver = () => {
+    if (!parsed.hamiltonian) return
+    try {
+      setRun({
+        source,
+        result: runVqe(parsed.hamiltonian, { ansatz, layers, electrons, optimizer, maxIterations }),
+      })
+      setError(null)
+    } catch (err) {
+      setRun(null)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const shown = run?.source === source ? run.result : null
+  const numQubits = parsed.hamiltonian?.numQubits ?? 0
+
+  return (
+    <Card className="p-4 bg-gradient-to-br from-gray-900/50 to-black/50 border-purple-500/30 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-white">Variational Eigensolver</h4>
+          {parsed.hamiltonian && (
+            <Badge variant="outline" className="border-gray-500/50 text-gray-400 bg-gray-500/10 text-xs">
+              {numQubits}Q · {ansatze[ansatz].parameterCount(numQubits, { layers, electrons })} parameters
+            </Badge>
+          )}
+        </div>
+        <Button size="sm" onClick={runSolver} disabled={!parsed.hamiltonian} className="bg-cyan-600 hover:bg-cyan-700">
+          <Play className="w-3 h-3 mr-1" />
+          Run VQE
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <select
+          value={molecule}
+          onChange={(e) => selectMolecule(e.target.value as MoleculeName | "custom")}
+          title="Hamiltonian"
+          className={selectClassName}
+        >
+          {moleculeNames.map((name) => (
+            <option key={name} value={name}>
+              {molecules[name].label}
+            </option>
+          ))}
+          <option value="custom">Custom</option>
+        </select>
+        <select
+          value={ansatz}
+          onChange={(e) => setAnsatz(e.target.value as AnsatzName)}
+          title={ansatze[ansatz].description}
+          className={selectClassName}
+        >
+          {ansatzNames.map((name) => (
+            <option key={name} value={name}>
+              {ansatze[name].label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={layers}
+          onChange={(e) => setLayers(Number(e.target.value))}
+          title="Ansatz layers"
+          className={selectClassName}
+        >
+          {layerOptions.map((count) => (
+            <option key={count} value={count}>
+              {count} {count === 1 ? "layer" : "layers"}
+            </option>
+          ))}
+        </select>
+        <select
+          value={optimizer}
+          onChange={(e) => setOptimizer(e.target.value as ClassicalOptimizerName)}
+          title={classicalOptimizers[optimizer].description}
+          className={selectClassName}
+        >
+          {classicalOptimizerNames.map((name) => (
+            <option key={name} value={name}>
+              {classicalOptimizers[name].label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={maxIterations}
+          onChange={(e) => setMaxIterations(Number(e.target.value))}
+          title="Maximum optimizer iterations"
+          className={selectClassName}
+        >
+          {iterationOptions.map((count) => (
+            <option key={count} value={count}>
+              ≤ {count} iterations
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <Input
+        value={source}
+        onChange={(e) => {
+          setSource(e.target.value)
+          setMolecule("custom")
+        }}
+        placeholder="Hamiltonian as a Pauli sum, e.g. -1.05 + 0.4*Z0 - 0.4*Z1 + 0.18*X0*X1"
+        spellCheck={false}
+        className="h-8 bg-gray-800/50 border-gray-700/50 text-white text-xs font-mono mb-2"
+      />
+      <p className="text-xs text-purple-300/60 mb-3">
+        {molecule === "custom" ? "Custom Hamiltonian" : molecules[molecule].description}
+        {ansatz === "ucc" && parsed.hamiltonian ? ` · UCC reference with ${electrons} occupied` : ""}
+      </p>
+
+      {parsed.error && <p className="text-xs text-red-400">{parsed.error}</p>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {shown && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+            {[
+              { label: "VQE energy", value: shown.energy.toFixed(6) },
+              { label: "Exact ground", value: parsed.exact !== undefined ? parsed.exact.toFixed(6) : "—" },
+              {
+                label: "Error",
+                value: parsed.exact !== undefined ? (shown.energy - parsed.exact).toExponential(2) : "—",
+              },
+              {
+                label: shown.converged ? "Converged" : "Stopped",
+                value: `${shown.iterations} it · ${shown.evaluations} evals`,
+              },
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-black/20 rounded p-2 border border-gray-700/30">
+                <div className="text-xs text-gray-400">{label}</div>
+                <div className="text-sm font-semibold text-white font-mono">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {shown.history.length > 0 && (
+            <ConvergencePlot history={shown.history} target={parsed.exact} label="Energy against iteration" />
+          )}
+          <p className="text-xs text-purple-300/60 mt-1 mb-3">
+            Energy (Ha) against iteration{parsed.exact !== undefined ? "; dashed: exact ground energy" : ""}
+          </p>
+
+          <h5 className="text-xs font-semibold text-white mb-1">Parameters</h5>
+          <div className="grid grid-cols-4 md:grid-cols-6 gap-1 mb-3 max-h-32 overflow-y-auto custom-scrollbar">
+            {shown.parameters.map((value, i) => (
+              <span key={i} className="text-xs font-mono text-gray-300">
+                θ{i} {value.toFixed(4)}
+              </span>
+            ))}
+          </div>
+
+          <h5 className="text-xs font-semibold text-white mb-1">State</h5>
+          <div className="text-xs text-purple-300 font-mono break-all p-2 bg-black/30 rounded border border-gray-700/30">
+            |ψ⟩ = {formatQuantumState(shown.state, numQubits, 8)}
+          </div>
+
+          <div className="flex items-center justify-between mt-2">
+            <span className="text-xs text-purple-300/60">Seed {shown.seed}</span>
+            {onLoad && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onLoad(shown.circuit)}
+                className="border-cyan-400/50 text-cyan-400 bg-cyan-400/10 hover:bg-cyan-400/20"
+              >
+                Load ansatz into Lab
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,240 @@
+// Shot-based circuit execution: bitstring counts and per-shot memory, like a run on hardware
+import { StateVector } from "@/lib/state-vector"
+import {
+  conditionHolds,
+  gates,
+  initializeClassicalBits,
+  resolveOperation,
+  storeMeasurement,
+  type ClassicalRegister,
+  type GateOperation,
+} from "@/lib/quantum-simulator"
+import { MAX_DENSITY_MATRIX_QUBITS, getNoisyProbabilities, type NoiseModel } from "@/lib/density-matrix"
+import { SeededRandom, randomSeed, type RandomSource } from "@/lib/random"
+
+export const MAX_SHOTS = 100000
+
+export interface RunnableCircuit {
+  numQubits: number
+  operations: GateOperation[]
+  classicalRegisters?: ClassicalRegister[]
+}
+
+export interface RunOptions {
+  shots?: number
+  seed?: number // a fresh seed is drawn (and reported) when omitted
+  noiseModel?: NoiseModel // sampled from the density matrix when the circuit is not dynamic
+}
+
+// Bitstrings are the classical registers, each written most significant bit first and separated by
+// spaces (as in Qiskit). Circuits that store no measurements in classical bits read out the measured
+// qubits, q0 leftmost.
+export interface RunResult {
+  shots: number
+  seed: number // rerunning with this seed reproduces the counts and memory
+  measuredQubits: number[]
+  classicalRegisters: ClassicalRegister[] // registers read out, empty when reading qubits
+  counts: Record<string, number>
+  memory: string[] // one bitstring per shot
+  probabilities?: Record<string, number> // exact outcome distribution, when the circuit is not dynamic
+}
+
+// Qubits read out by the circuit; every qubit when it has no measurements
+function getMeasuredQubits(circuit: RunnableCircuit): number[] {
+  const measured = new Set(circuit.operations.filter((op) => op.type === "measure").map((op) => op.target))
+  if (measured.size === 0) return Array.from({ length: circuit.numQubits }, (_, i) => i)
+  return Array.from(measured).sort((a, b) => a - b)
+}
+
+// Dynamic circuits are simulated shot by shot: they reset qubits, condition operations on
+// classical bits, or touch a qubit again after measuring it
+export function isDynamic(circuit: RunnableCircuit): boolean {
+  const measured = new Set<number>()
+  for (const operation of circuit.operations) {
+    if (operation.type === "reset" || operation.condition) return true
+    if (operation.type === "measure") {
+      measured.add(operation.target)
+      continue
+    }
+    const resolved = resolveOperation(operation)
+    if (resolved && [...resolved.targets, ...resolved.controls].some((q) => measured.has(q))) return true
+  }
+  return false
+}
+
+function applyGates(state: StateVector, operations: GateOperation[]): StateVector {
+  for (const operation of operations) {
+    const resolved = resolveOperation(operation)
+    if (resolved) state.applyMultiQubitGate(resolved.gate, resolved.targets, resolved.controls)
+  }
+  return state
+}
+
+// Draw a basis-state index from a cumulative distribution
+export function sampleIndex(cumulative: Float64Array, random: number): number {
+  const target = random * cumulative[cumulative.length - 1]
+  let low = 0
+  let high = cumulative.length - 1
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (cumulative[mid] > target) high = mid
+    else low = mid + 1
+  }
+  return low
+}
+
+// One shot of a dynamic circuit: the measured qubit values and the final classical bits
+function runTrajectory(
+  circuit: RunnableCircuit,
+  rng: RandomSource,
+): { outcomes: Record<number, 0 | 1>; classicalBits: Record<string, number[]> } {
+  const state = new StateVector(circuit.numQubits)
+  const outcomes: Record<number, 0 | 1> = {}
+  const classicalBits = initializeClassicalBits(circuit.classicalRegisters)
+
+  for (const operation of circuit.operations) {
+    if (!conditionHolds(operation, classicalBits)) continue
+
+    if (operation.type === "measure") {
+      outcomes[operation.target] = state.measure(operation.target, rng)
+      storeMeasurement(operation, outcomes[operation.target], classicalBits)
+    } else if (operation.type === "reset") {
+      if (state.measure(operation.target, rng) === 1) state.applySingleQubitGate(gates.X, operation.target)
+    } else {
+      applyGates(state, [operation])
+    }
+  }
+
+  // Without measurements every qubit is read out at the end
+  if (!circuit.operations.some((op) => op.type === "measure")) {
+    for (let q = 0; q < circuit.numQubits; q++) outcomes[q] = state.measure(q, rng)
+  }
+
+  return { outcomes, classicalBits }
+}
+
+// Run the circuit for a number of shots. Static circuits are simulated once and sampled; dynamic
+// circuits (mid-circuit measurement, conditions, resets) are simulated shot by shot.
+export function runCircuit(circuit: RunnableCircuit, options: RunOptions = {}): RunResult {
+  const shots = options.shots ?? 1024
+  if (!Number.isInteger(shots) || shots < 1 || shots > MAX_SHOTS) {
+    throw new Error(`Shots must be an integer between 1 and ${MAX_SHOTS}, got ${shots}`)
+  }
+
+  const seed = options.seed ?? randomSeed()
+  const rng = new SeededRandom(seed)
+  const { numQubits } = circuit
+  const classicalRegisters = circuit.operations.some((op) => op.classicalBit) ? (circuit.classicalRegisters ?? []) : []
+  const measuredQubits = getMeasuredQubits(circuit)
+  const counts: Record<string, number> = {}
+  const memory: string[] = []
+
+  const readout = (outcomes: Record<number, 0 | 1>, classicalBits: Record<string, number[]>) =>
+    classicalRegisters.length > 0
+      ? classicalRegisters.map((register) => classicalBits[register.name].slice().reverse().join("")).join(" ")
+      : measuredQubits.map((q) => outcomes[q] ?? 0).join("")
+  const record = (bitstring: string) => {
+    memory.push(bitstring)
+    counts[bitstring] = (counts[bitstring] ?? 0) + 1
+  }
+
+  if (isDynamic(circuit)) {
+    for (let shot = 0; shot < shots; shot++) {
+      const { outcomes, classicalBits } = runTrajectory(circuit, rng)
+      record(readout(outcomes, classicalBits))
+    }
+    return { shots, seed, measuredQubits, classicalRegisters, counts, memory }
+  }
+
+  const noiseModel = numQubits <= MAX_DENSITY_MATRIX_QUBITS ? options.noiseModel : undefined
+  const gateOperations = circuit.operations.filter((op) => op.type !== "measure")
+  const measurements = circuit.operations.filter((op) => op.type === "measure")
+  const distribution = noiseModel
+    ? getNoisyProbabilities(numQubits, gateOperations, noiseModel)
+    : applyGates(new StateVector(numQubits), gateOperations).probabilities()
+
+  // Bitstring read from a final basis state: each measurement copies its qubit into its classical bit
+  const readoutIndex = (index: number) => {
+    const outcomes: Record<number, 0 | 1> = {}
+    const classicalBits = initializeClassicalBits(classicalRegisters)
+    for (let q = 0; q < numQubits; q++) outcomes[q] = ((index >> (numQubits - 1 - q)) & 1) as 0 | 1
+    for (const measurement of measurements) storeMeasurement(measurement, outcomes[measurement.target], classicalBits)
+    return readout(outcomes, classicalBits)
+  }
+
+  const probabilities: Record<string, number> = {}
+  const cumulative = new Float64Array(distribution.length)
+  let total = 0
+  for (let i = 0; i < distribution.length; i++) {
+    total += distribution[i]
+    cumulative[i] = total
+    if (distribution[i] < 1e-12) continue
+    const bitstring = readoutIndex(i)
+    probabilities[bitstring] = (probabilities[bitstring] ?? 0) + distribution[i]
+  }
+
+  for (let shot = 0; shot < shots; shot++) {
+    record(readoutIndex(sampleIndex(cumulative, rng.next())))
+  }
+
+  return { shots, seed, measuredQubits, classicalRegisters, counts, memory, probabilities }
+}
+
+// Probability of every final basis state, over all qubits, averaged over measurement and reset outcomes.
+// Static circuits are simulated once, under the noise model when given; dynamic circuits are expanded
+// into one branch per outcome history, so classically conditioned corrections are followed exactly.
+export function finalStateDistribution(
+  circuit: RunnableCircuit,
+  options: { noiseModel?: NoiseModel; maxBranches?: number } = {},
+): Float64Array {
+  const { numQubits } = circuit
+  if (!isDynamic(circuit)) {
+    const gateOperations = circuit.operations.filter((op) => op.type !== "measure")
+    return options.noiseModel && numQubits <= MAX_DENSITY_MATRIX_QUBITS
+      ? Float64Array.from(getNoisyProbabilities(numQubits, gateOperations, options.noiseModel))
+      : applyGates(new StateVector(numQubits), gateOperations).probabilities()
+  }
+
+  const maxBranches = options.maxBranches ?? 1024
+  let branches = [
+    {
+      state: new StateVector(numQubits),
+      weight: 1,
+      classicalBits: initializeClassicalBits(circuit.classicalRegisters),
+    },
+  ]
+  for (const operation of circuit.operations) {
+    if (operation.type !== "measure" && operation.type !== "reset") {
+      for (const branch of branches) {
+        if (conditionHolds(operation, branch.classicalBits)) applyGates(branch.state, [operation])
+      }
+      continue
+    }
+
+    branches = branches.flatMap((branch) => {
+      if (!conditionHolds(operation, branch.classicalBits)) return [branch]
+      const prob1 = branch.state.probabilityOfOne(operation.target)
+      return ([0, 1] as const).flatMap((outcome) => {
+        const probability = outcome === 1 ? prob1 : 1 - prob1
+        if (probability < 1e-12) return []
+        const state = branch.state.clone().collapse(operation.target, outcome, probability)
+        const classicalBits = Object.fromEntries(
+          Object.entries(branch.classicalBits).map(([name, bits]) => [name, bits.slice()]),
+        )
+        if (operation.type === "measure") storeMeasurement(operation, outcome, classicalBits)
+        else if (outcome === 1) state.applySingleQubitGate(gates.X, operation.target)
+        return [{ state, weight: branch.weight * probability, classicalBits }]
+      })
+    })
+    if (branches.length > maxBranches) {
+      throw new Error(`The circuit has more than ${maxBranches} measurement outcome histories to follow`)
+    }
+  }
+
+  const distribution = new Float64Array(1 << numQubits)
+  for (const { state, weight } of branches) {
+    const probabilities = state.probabilities()
+    for (let i = 0; i < distribution.length; i++) distribution[i] += weight * probabilities[i]
+  }
+  return distribution
+}
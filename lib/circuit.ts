@@ -0,0 +1,415 @@
+// Circuit intermediate representation shared by the Lab, saved experiments and the chat:
+// validated operations on a qubit register plus classical registers, with JSON (de)serialization,
+// moments/depth and a DAG view of the dependencies between operations
+import {
+  resolveOperation,
+  type ClassicalBitRef,
+  type ClassicalRegister,
+  type GateOperation,
+} from "@/lib/quantum-simulator"
+import { MAX_STATE_VECTOR_QUBITS } from "@/lib/state-vector"
+
+export const CIRCUIT_FORMAT_VERSION = 1
+
+// Serialized form of a circuit (see circuitJsonSchema)
+export interface CircuitData {
+  version?: number
+  numQubits: number
+  classicalRegisters?: ClassicalRegister[]
+  operations: GateOperation[]
+}
+
+// DAG edge along a wire: a qubit ("q0") or a classical bit ("c[0]")
+export interface CircuitDagEdge {
+  from: number // operation index
+  to: number
+  wire: string
+}
+
+export interface CircuitDag {
+  nodes: Array<{ index: number; operation: GateOperation; wires: string[] }>
+  edges: CircuitDagEdge[]
+  inputs: Record<string, number> // first operation on each wire
+  outputs: Record<string, number> // last operation on each wire
+}
+
+const classicalBitSchema = {
+  type: "object",
+  required: ["register", "index"],
+  properties: {
+    register: { type: "string" },
+    index: { type: "integer", minimum: 0 },
+  },
+  additionalProperties: false,
+}
+
+const qubitSchema = { type: "integer", minimum: 0 }
+
+// JSON Schema (draft-07) for CircuitData; fromJSON also checks what the schema can't express,
+// like qubit ranges, known gates and declared registers
+export const circuitJsonSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "QuantumMind circuit",
+  type: "object",
+  required: ["numQubits", "operations"],
+  properties: {
+    version: { const: CIRCUIT_FORMAT_VERSION },
+    numQubits: { type: "integer", minimum: 1, maximum: MAX_STATE_VECTOR_QUBITS },
+    classicalRegisters: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["name", "size"],
+        properties: {
+          name: { type: "string", pattern: "^[a-zA-Z_][a-zA-Z0-9_]*$" },
+          size: { type: "integer", minimum: 1 },
+        },
+        additionalProperties: false,
+      },
+    },
+    operations: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["type", "target"],
+        properties: {
+          type: { enum: ["single", "cnot", "controlled", "multi", "measure", "reset"] },
+          gate: { type: "string" },
+          target: qubitSchema,
+          control: qubitSchema,
+          controls: { type: "array", items: qubitSchema },
+          targets: { type: "array", items: qubitSchema, minItems: 1 },
+          params: { type: "array", items: { type: "number" } },
+          classicalBit: classicalBitSchema,
+          condition: {
+            type: "object",
+            required: ["register", "value"],
+            properties: {
+              register: { type: "string" },
+              value: { type: "integer", minimum: 0 },
+            },
+            additionalProperties: false,
+          },
+          result: { enum: [0, 1] },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  additionalProperties: false,
+} as const
+
+const operationTypes = new Set<string>(circuitJsonSchema.properties.operations.items.properties.type.enum)
+const operationKeys = new Set(Object.keys(circuitJsonSchema.properties.operations.items.properties))
+const registerNamePattern = new RegExp(circuitJsonSchema.properties.classicalRegisters.items.properties.name.pattern)
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0
+
+// Qubits an operation acts on, controls first
+export function operationQubits(operation: GateOperation): number[] {
+  switch (operation.type) {
+    case "cnot":
+      return operation.control === undefined ? [operation.target] : [operation.control, operation.target]
+    case "controlled":
+      return [...(operation.controls ?? []), operation.target]
+    case "multi":
+      return [...(operation.controls ?? []), ...(operation.targets ?? [operation.target])]
+    default:
+      return [operation.target]
+  }
+}
+
+// Short label for an operation, e.g. "RZ", "CCX", "measure"
+export function operationName(operation: GateOperation): string {
+  switch (operation.type) {
+    case "cnot":
+      return "CNOT"
+    case "controlled":
+    case "multi":
+      return `${"C".repeat(operation.controls?.length ?? 0)}${operation.gate}`
+    case "measure":
+    case "reset":
+      return operation.type
+    default:
+      return operation.gate ?? "?"
+  }
+}
+
+// Format gate parameters (radians) as multiples of π
+export function formatParams(params?: number[]): string {
+  if (!params || params.length === 0) return ""
+  return `(${params.map((p) => `${(p / Math.PI).toFixed(2)}π`).join(", ")})`
+}
+
+const formatBit = (bit: ClassicalBitRef) => `${bit.register}[${bit.index}]`
+
+// Human-readable form of an operation, as listed in the Lab history
+export function formatOperation(operation: GateOperation): string {
+  const condition = operation.condition ? ` if ${operation.condition.register}==${operation.condition.value}` : ""
+  const controls = operation.controls?.length ? `q${operation.controls.join(",q")}` : ""
+
+  switch (operation.type) {
+    case "single":
+      return `${operation.gate}${formatParams(operation.params)} q${operation.target}${condition}`
+    case "cnot":
+      return `CNOT q${operation.control} → q${operation.target}${condition}`
+    case "controlled":
+      return `${operationName(operation)}${formatParams(operation.params)} ${controls} → q${operation.target}${condition}`
+    case "multi":
+      return `${operationName(operation)} ${controls ? `${controls}: ` : ""}q${(operation.targets ?? [operation.target]).join(" ↔ q")}${condition}`
+    case "measure":
+      return `Measure q${operation.target}${operation.classicalBit ? ` → ${formatBit(operation.classicalBit)}` : ""}${condition}`
+    case "reset":
+      return `Reset q${operation.target}${condition}`
+  }
+}
+
+const selfInverseGates = new Set(["X", "Y", "Z", "H", "I", "SWAP"])
+const inverseGateNames: Record<string, string> = { S: "Sdg", Sdg: "S", T: "Tdg", Tdg: "T" }
+
+// Inverse of a unitary operation, e.g. S → Sdg, RX(θ) → RX(-θ), U3(θ,φ,λ) → U3(-θ,-λ,-φ).
+// Throws for measurements, resets and gates whose inverse the model has no name for (iSWAP).
+export function invertOperation(operation: GateOperation): GateOperation {
+  if (operation.type === "measure" || operation.type === "reset") {
+    throw new Error(`Cannot invert a ${operation.type}`)
+  }
+  if (operation.type === "cnot") return { ...operation }
+
+  const gate = operation.gate ?? ""
+  if (selfInverseGates.has(gate)) return { ...operation }
+  if (inverseGateNames[gate]) return { ...operation, gate: inverseGateNames[gate] }
+  if (["RX", "RY", "RZ", "P"].includes(gate) && operation.params) {
+    return { ...operation, params: operation.params.map((p) => -p) }
+  }
+  if (gate === "U3" && operation.params) {
+    const [theta, phi, lambda] = operation.params
+    return { ...operation, params: [-theta, -lambda, -phi] }
+  }
+  throw new Error(`${operationName(operation)} has no inverse in the circuit model`)
+}
+
+// The operation with extra controls, listed before any it already has; a controlled X with one
+// control is written as a CNOT, as the Lab does
+export function controlOperation(operation: GateOperation, controls: number[]): GateOperation {
+  if (controls.length === 0) return operation
+  switch (operation.type) {
+    case "single": {
+      const { gate, params, ...rest } = operation
+      return gate === "X" && controls.length === 1
+        ? { ...rest, type: "cnot", control: controls[0] }
+        : { ...rest, type: "controlled", gate, controls, ...(params ? { params } : {}) }
+    }
+    case "cnot": {
+      const { control, ...rest } = operation
+      return { ...rest, type: "controlled", gate: "X", controls: [...controls, control!] }
+    }
+    case "controlled":
+    case "multi":
+      return { ...operation, controls: [...controls, ...(operation.controls ?? [])] }
+    default:
+      throw new Error(`Cannot control a ${operation.type}`)
+  }
+}
+
+export class Circuit {
+  readonly numQubits: number
+  readonly classicalRegisters: ClassicalRegister[]
+  readonly operations: GateOperation[]
+
+  constructor(numQubits: number, operations: GateOperation[] = [], classicalRegisters: ClassicalRegister[] = []) {
+    if (!Number.isInteger(numQubits) || numQubits < 1 || numQubits > MAX_STATE_VECTOR_QUBITS) {
+      throw new Error(`Circuit supports 1-${MAX_STATE_VECTOR_QUBITS} qubits, got ${numQubits}`)
+    }
+    this.numQubits = numQubits
+
+    const names = new Set<string>()
+    for (const register of classicalRegisters) {
+      if (typeof register.name !== "string" || !registerNamePattern.test(register.name)) {
+        throw new Error(`Invalid register name "${register.name}"`)
+      }
+      if (names.has(register.name)) throw new Error(`Duplicate classical register "${register.name}"`)
+      if (!Number.isInteger(register.size) || register.size < 1) {
+        throw new Error(`Register "${register.name}" must have a positive integer size, got ${register.size}`)
+      }
+      names.add(register.name)
+    }
+    this.classicalRegisters = classicalRegisters.map((register) => ({ ...register }))
+
+    operations.forEach((operation, index) => this.validateOperation(operation, index))
+    this.operations = operations.slice()
+  }
+
+  // Parse and validate serialized data (an object, or its JSON text)
+  static fromJSON(data: unknown): Circuit {
+    const value = typeof data === "string" ? JSON.parse(data) : data
+    if (!isRecord(value)) throw new Error("Circuit must be an object")
+    if (value.version !== undefined && value.version !== CIRCUIT_FORMAT_VERSION) {
+      throw new Error(`Unsupported circuit format version ${value.version}`)
+    }
+    if (!Array.isArray(value.operations)) throw new Error("Circuit operations must be an array")
+    if (value.classicalRegisters !== undefined && !Array.isArray(value.classicalRegisters)) {
+      throw new Error("Circuit classicalRegisters must be an array")
+    }
+
+    const operations = value.operations.map((operation, index) => {
+      if (!isRecord(operation)) throw new Error(`Operation ${index}: must be an object`)
+      const unknownKey = Object.keys(operation).find((key) => !operationKeys.has(key))
+      if (unknownKey) throw new Error(`Operation ${index}: unknown property "${unknownKey}"`)
+      return operation as unknown as GateOperation
+    })
+
+    return new Circuit(value.numQubits as number, operations, (value.classicalRegisters ?? []) as ClassicalRegister[])
+  }
+
+  toJSON(): CircuitData {
+    return {
+      version: CIRCUIT_FORMAT_VERSION,
+      numQubits: this.numQubits,
+      classicalRegisters: this.classicalRegisters.map((register) => ({ ...register })),
+      operations: this.operations.map((operation) => JSON.parse(JSON.stringify(operation))),
+    }
+  }
+
+  serialize(): string {
+    return JSON.stringify(this.toJSON())
+  }
+
+  // Copies with changes; circuits are immutable so they can live in React state
+  append(...operations: GateOperation[]): Circuit {
+    return new Circuit(this.numQubits, [...this.operations, ...operations], this.classicalRegisters)
+  }
+
+  withClassicalRegister(register: ClassicalRegister): Circuit {
+    return new Circuit(this.numQubits, this.operations, [...this.classicalRegisters, register])
+  }
+
+  // Fails when an operation still reads or writes the register
+  withoutClassicalRegister(name: string): Circuit {
+    return new Circuit(
+      this.numQubits,
+      this.operations,
+      this.classicalRegisters.filter((register) => register.name !== name),
+    )
+  }
+
+  getClassicalRegister(name: string): ClassicalRegister | undefined {
+    return this.classicalRegisters.find((register) => register.name === name)
+  }
+
+  // Wires an operation touches: its qubits, the bit a measurement writes and the bits a condition reads
+  wiresOf(operation: GateOperation): string[] {
+    const wires = operationQubits(operation).map((q) => `q${q}`)
+    if (operation.type === "measure" && operation.classicalBit) wires.push(formatBit(operation.classicalBit))
+    if (operation.condition) {
+      const register = this.getClassicalRegister(operation.condition.register)
+      for (let i = 0; i < (register?.size ?? 0); i++) {
+        const wire = formatBit({ register: operation.condition.register, index: i })
+        if (!wires.includes(wire)) wires.push(wire)
+      }
+    }
+    return wires
+  }
+
+  // Dependency graph: an edge joins consecutive operations on each qubit or classical bit
+  dag(): CircuitDag {
+    const nodes: CircuitDag["nodes"] = []
+    const edges: CircuitDagEdge[] = []
+    const inputs: Record<string, number> = {}
+    const outputs: Record<string, number> = {}
+
+    this.operations.forEach((operation, index) => {
+      const wires = this.wiresOf(operation)
+      for (const wire of wires) {
+        if (wire in outputs) edges.push({ from: outputs[wire], to: index, wire })
+        else inputs[wire] = index
+        outputs[wire] = index
+      }
+      nodes.push({ index, operation, wires })
+    })
+
+    return { nodes, edges, inputs, outputs }
+  }
+
+  // Operations grouped into moments: each runs in the earliest layer after everything it depends on
+  moments(): GateOperation[][] {
+    const moments: GateOperation[][] = []
+    const wireLayer: Record<string, number> = {}
+
+    for (const operation of this.operations) {
+      const wires = this.wiresOf(operation)
+      const layer = Math.max(0, ...wires.map((wire) => (wire in wireLayer ? wireLayer[wire] + 1 : 0)))
+      for (const wire of wires) wireLayer[wire] = layer
+      if (!moments[layer]) moments[layer] = []
+      moments[layer].push(operation)
+    }
+
+    return moments
+  }
+
+  depth(): number {
+    return this.moments().length
+  }
+
+  // Operation counts by name, e.g. { H: 2, CNOT: 1, measure: 2 }
+  gateCounts(): Record<string, number> {
+    const counts: Record<string, number> = {}
+    for (const operation of this.operations) {
+      const name = operationName(operation)
+      counts[name] = (counts[name] ?? 0) + 1
+    }
+    return counts
+  }
+
+  // One operation per line, for display and for the chat's context
+  toText(): string {
+    return this.operations.map(formatOperation).join("\n")
+  }
+
+  private validateOperation(operation: GateOperation, index: number): void {
+    const fail = (message: string): never => {
+      throw new Error(`Operation ${index}: ${message}`)
+    }
+
+    if (!operationTypes.has(operation.type)) fail(`unknown type "${operation.type}"`)
+    for (const key of ["controls", "targets", "params"] as const) {
+      if (operation[key] !== undefined && !Array.isArray(operation[key])) fail(`${key} must be an array`)
+    }
+    if (operation.params && !operation.params.every((p) => typeof p === "number" && Number.isFinite(p))) {
+      fail("params must be finite numbers")
+    }
+
+    const qubits = operationQubits(operation)
+    for (const qubit of qubits) {
+      if (!isIndex(qubit) || qubit >= this.numQubits) fail(`qubit ${qubit} out of range for ${this.numQubits} qubits`)
+    }
+    if (new Set(qubits).size !== qubits.length) fail(`qubits must be distinct, got ${qubits.join(", ")}`)
+
+    if (operation.type === "measure" || operation.type === "reset") {
+      if (operation.result !== undefined && operation.result !== 0 && operation.result !== 1) {
+        fail(`result must be 0 or 1, got ${operation.result}`)
+      }
+    } else {
+      const resolved = resolveOperation(operation)
+      if (!resolved) fail(`unknown gate "${operation.gate}" or wrong number of parameters`)
+      else if (resolved.gate.length !== 1 << resolved.targets.length) {
+        fail(`${operation.gate} acts on ${Math.log2(resolved.gate.length)} qubits, got ${resolved.targets.length}`)
+      }
+    }
+
+    if (operation.classicalBit) {
+      if (operation.type !== "measure") fail("only measurements write classical bits")
+      const { register, index: bit } = operation.classicalBit
+      const size = this.getClassicalRegister(register)?.size ?? 0
+      if (!isIndex(bit) || bit >= size) fail(`unknown classical bit ${register}[${bit}]`)
+    }
+
+    if (operation.condition) {
+      const { register, value } = operation.condition
+      const size = this.getClassicalRegister(register)?.size
+      if (size === undefined) fail(`unknown classical register "${register}"`)
+      else if (!isIndex(value) || value >= 2 ** size) fail(`condition value ${value} does not fit ${register}`)
+    }
+  }
+}
@@ -0,0 +1,312 @@
+// Classical minimizers for variational algorithms. Each works on a black-box objective of real parameters;
+// the gradient-based ones estimate gradients from extra evaluations, so nothing needs to be differentiable.
+import { SeededRandom, randomSeed } from "@/lib/random"
+
+export type ClassicalOptimizerName = "cobyla" | "nelder-mead" | "spsa" | "adam"
+
+export type Objective = (x: number[]) => number
+
+export interface MinimizeOptions {
+  maxIterations?: number // default 200
+  tolerance?: number // convergence threshold, see each optimizer's description (default 1e-6)
+  stepSize?: number // initial simplex size, trust radius or learning rate; each optimizer has a default
+  seed?: number // SPSA perturbations; a fresh seed is drawn (and reported) when omitted
+}
+
+export interface MinimizeResult {
+  x: number[] // best parameters found
+  value: number
+  history: number[] // objective at the current point after each iteration
+  iterations: number
+  evaluations: number
+  converged: boolean // false when stopped by maxIterations
+  seed: number
+}
+
+interface OptimizerRun {
+  f: Objective
+  x0: number[]
+  maxIterations: number
+  tolerance: number
+  stepSize: number
+  seed: number
+}
+
+const add = (x: number[], y: number[], scale = 1) => x.map((value, i) => value + scale * y[i])
+const norm = (x: number[]) => Math.sqrt(x.reduce((total, value) => total + value * value, 0))
+const unit = (i: number, n: number, scale: number) => Array.from({ length: n }, (_, j) => (i === j ? scale : 0))
+
+// Counts evaluations and remembers the best point seen
+function tracked(f: Objective) {
+  const state = { evaluations: 0, best: [] as number[], bestValue: Infinity }
+  const evaluate = (x: number[]) => {
+    const value = f(x)
+    if (!Number.isFinite(value)) throw new Error(`Objective returned ${value}`)
+    state.evaluations++
+    if (value < state.bestValue) {
+      state.bestValue = value
+      state.best = x.slice()
+    }
+    return value
+  }
+  return { evaluate, state }
+}
+
+// Solve A x = b by Gaussian elimination with partial pivoting; null when A is (nearly) singular
+function solveLinear(a: number[][], b: number[]): number[] | null {
+  const n = b.length
+  const m = a.map((row, i) => [...row, b[i]])
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row
+    if (Math.abs(m[pivot][col]) < 1e-14) return null
+    ;[m[col], m[pivot]] = [m[pivot], m[col]]
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col]
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k]
+    }
+  }
+  const x = new Array<number>(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let total = m[row][n]
+    for (let k = row + 1; k < n; k++) total -= m[row][k] * x[k]
+    x[row] = total / m[row][row]
+  }
+  return x
+}
+
+function nelderMead({ f, x0, maxIterations, tolerance, stepSize, seed }: OptimizerRun): MinimizeResult {
+  const { evaluate, state } = tracked(f)
+  const n = x0.length
+  let simplex = [x0, ...x0.map((_, i) => add(x0, unit(i, n, stepSize)))].map((x) => ({ x, value: evaluate(x) }))
+  const history: number[] = []
+  let converged = false
+
+  let iterations = 0
+  while (iterations < maxIterations) {
+    simplex.sort((a, b) => a.value - b.value)
+    const [best, worst] = [simplex[0], simplex[n]]
+    const diameter = Math.max(...simplex.map(({ x }) => norm(add(x, best.x, -1))))
+    if (worst.value - best.value <= tolerance && diameter <= Math.sqrt(tolerance)) {
+      converged = true
+      break
+    }
+    iterations++
+
+    const centroid = x0.map((_, i) => simplex.slice(0, n).reduce((total, { x }) => total + x[i], 0) / n)
+    const toward = (scale: number) => add(centroid, add(worst.x, centroid, -1), scale)
+    const reflected = toward(-1)
+    const reflectedValue = evaluate(reflected)
+    if (reflectedValue < best.value) {
+      const expanded = toward(-2)
+      const expandedValue = evaluate(expanded)
+      simplex[n] =
+        expandedValue < reflectedValue ? { x: expanded, value: expandedValue } : { x: reflected, value: reflectedValue }
+    } else if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { x: reflected, value: reflectedValue }
+    } else {
+      // Contract outside when the reflection beat the worst point, inside otherwise
+      const outside = reflectedValue < worst.value
+      const contracted = toward(outside ? -0.5 : 0.5)
+      const contractedValue = evaluate(contracted)
+      if (contractedValue < Math.min(reflectedValue, worst.value)) {
+        simplex[n] = { x: contracted, value: contractedValue }
+      } else {
+        simplex = simplex.map((vertex, i) => {
+          if (i === 0) return vertex
+          const x = add(best.x, add(vertex.x, best.x, -1), 0.5)
+          return { x, value: evaluate(x) }
+        })
+      }
+    }
+    history.push(Math.min(...simplex.map(({ value }) => value)))
+  }
+
+  return { x: state.best, value: state.bestValue, history, iterations, evaluations: state.evaluations, converged, seed }
+}
+
+// COBYLA without constraints: a linear model interpolated through n + 1 points, stepped along its downhill
+// direction within a trust radius that doubles (up to stepSize) after a successful step and halves after a
+// failed one
+function cobyla({ f, x0, maxIterations, tolerance, stepSize, seed }: OptimizerRun): MinimizeResult {
+  const { evaluate, state } = tracked(f)
+  const n = x0.length
+  let radius = stepSize
+  const around = (center: { x: number[]; value: number }) => [
+    center,
+    ...center.x.map((_, i) => {
+      const x = add(center.x, unit(i, n, radius))
+      return { x, value: evaluate(x) }
+    }),
+  ]
+  let points = around({ x: x0, value: evaluate(x0) })
+  const history: number[] = []
+
+  let iterations = 0
+  while (iterations < maxIterations && radius > tolerance) {
+    iterations++
+    const best = points.reduce((a, b) => (b.value < a.value ? b : a))
+    const others = points.filter((point) => point !== best)
+    const gradient = solveLinear(
+      others.map(({ x }) => add(x, best.x, -1)),
+      others.map(({ value }) => value - best.value),
+    )
+
+    const length = gradient ? norm(gradient) : 0
+    const trial = gradient && length > 0 ? add(best.x, gradient, -radius / length) : null
+    const trialValue = trial ? evaluate(trial) : Infinity
+    if (trial && trialValue < best.value) {
+      // Keep the interpolation set at n + 1 points, local to the new best, by dropping the farthest
+      const distance = (x: number[]) => norm(add(x, trial, -1))
+      const farthest = points.reduce((a, b) => (distance(b.x) > distance(a.x) ? b : a))
+      points = [...points.filter((point) => point !== farthest), { x: trial, value: trialValue }]
+      radius = Math.min(2 * radius, stepSize)
+    } else {
+      radius /= 2
+      points = around(best)
+    }
+    history.push(state.bestValue)
+  }
+
+  return {
+    x: state.best,
+    value: state.bestValue,
+    history,
+    iterations,
+    evaluations: state.evaluations,
+    converged: radius <= tolerance,
+    seed,
+  }
+}
+
+// Simultaneous perturbation: two evaluations per iteration estimate the gradient along a random ±1 direction.
+// Gains follow Spall's schedule, with the step calibrated so the first update has length stepSize; converged
+// once the last SPSA_WINDOW values differ by less than tolerance.
+const SPSA_WINDOW = 10
+
+function spsa({ f, x0, maxIterations, tolerance, stepSize, seed }: OptimizerRun): MinimizeResult {
+  const { evaluate, state } = tracked(f)
+  const rng = new SeededRandom(seed)
+  const n = x0.length
+  const [alpha, gamma, c] = [0.602, 0.101, 0.1]
+  const stability = 0.1 * maxIterations
+  const perturbation = () => Array.from({ length: n }, () => (rng.next() < 0.5 ? -1 : 1))
+  const slope = (x: number[], delta: number[], size: number) =>
+    (evaluate(add(x, delta, size)) - evaluate(add(x, delta, -size))) / (2 * size)
+
+  const samples = Array.from({ length: 5 }, () => Math.abs(slope(x0, perturbation(), c)))
+  const meanSlope = samples.reduce((total, value) => total + value, 0) / samples.length
+  const a = meanSlope > 0 ? (stepSize * (1 + stability) ** alpha) / (meanSlope * Math.sqrt(n)) : stepSize
+
+  let x = x0
+  const history: number[] = []
+  let converged = false
+  let iterations = 0
+  while (iterations < maxIterations) {
+    iterations++
+    const ak = a / (iterations + stability) ** alpha
+    const ck = c / iterations ** gamma
+    const delta = perturbation()
+    // ±1 entries are their own inverses, so the gradient estimate is slope · delta
+    const g = slope(x, delta, ck)
+    const update = delta.map((d) => ak * g * d)
+    x = add(x, update, -1)
+    history.push(evaluate(x))
+    const recent = history.slice(-SPSA_WINDOW)
+    if (recent.length === SPSA_WINDOW && Math.max(...recent) - Math.min(...recent) < tolerance) {
+      converged = true
+      break
+    }
+  }
+
+  return { x: state.best, value: state.bestValue, history, iterations, evaluations: state.evaluations, converged, seed }
+}
+
+// Adam on central-difference gradients; converged once the gradient norm is below tolerance
+function adam({ f, x0, maxIterations, tolerance, stepSize, seed }: OptimizerRun): MinimizeResult {
+  const { evaluate, state } = tracked(f)
+  const n = x0.length
+  const [beta1, beta2, epsilon, h] = [0.9, 0.999, 1e-8, 1e-5]
+  const m = new Array<number>(n).fill(0)
+  const v = new Array<number>(n).fill(0)
+
+  let x = x0
+  evaluate(x)
+  const history: number[] = []
+  let converged = false
+  let iterations = 0
+  while (iterations < maxIterations) {
+    const gradient = x.map((_, i) => (evaluate(add(x, unit(i, n, h))) - evaluate(add(x, unit(i, n, -h)))) / (2 * h))
+    if (norm(gradient) < tolerance) {
+      converged = true
+      break
+    }
+    iterations++
+    x = x.map((value, i) => {
+      m[i] = beta1 * m[i] + (1 - beta1) * gradient[i]
+      v[i] = beta2 * v[i] + (1 - beta2) * gradient[i] ** 2
+      const mHat = m[i] / (1 - beta1 ** iterations)
+      const vHat = v[i] / (1 - beta2 ** iterations)
+      return value - (stepSize * mHat) / (Math.sqrt(vHat) + epsilon)
+    })
+    history.push(evaluate(x))
+  }
+
+  return { x: state.best, value: state.bestValue, history, iterations, evaluations: state.evaluations, converged, seed }
+}
+
+export const classicalOptimizers: Record<
+  ClassicalOptimizerName,
+  { label: string; description: string; defaultStepSize: number; run: (options: OptimizerRun) => MinimizeResult }
+> = {
+  cobyla: {
+    label: "COBYLA",
+    description:
+      "Linear interpolation models in a shrinking trust region; converged once the radius is below tolerance",
+    defaultStepSize: 0.5,
+    run: cobyla,
+  },
+  "nelder-mead": {
+    label: "Nelder–Mead",
+    description: "Downhill simplex; converged once the simplex's values differ by less than tolerance",
+    defaultStepSize: 0.5,
+    run: nelderMead,
+  },
+  spsa: {
+    label: "SPSA",
+    description: "Two evaluations per step along random directions, robust to shot noise",
+    defaultStepSize: 0.2,
+    run: spsa,
+  },
+  adam: {
+    label: "Adam",
+    description: "Adaptive-moment gradient descent on finite-difference gradients",
+    defaultStepSize: 0.05,
+    run: adam,
+  },
+}
+
+export const classicalOptimizerNames = Object.keys(classicalOptimizers) as ClassicalOptimizerName[]
+
+export function minimize(
+  name: ClassicalOptimizerName,
+  f: Objective,
+  x0: number[],
+  options: MinimizeOptions = {},
+): MinimizeResult {
+  const optimizer = classicalOptimizers[name]
+  if (!optimizer) throw new Error(`Unknown optimizer "${name}"`)
+  if (x0.length === 0) throw new Error("Expected at least one parameter to optimize")
+  const maxIterations = options.maxIterations ?? 200
+  if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+    throw new Error(`maxIterations must be a positive integer, got ${maxIterations}`)
+  }
+  return optimizer.run({
+    f,
+    x0: x0.slice(),
+    maxIterations,
+    tolerance: options.tolerance ?? 1e-6,
+    stepSize: options.stepSize ?? optimizer.defaultStepSize,
+    seed: options.seed ?? randomSeed(),
+  })
+}
@@ -0,0 +1,400 @@
+// Circuit export as source code for quantum SDKs: runnable Python for Qiskit and Cirq, and Quil
+// programs for Rigetti's toolchain. OpenQASM lives in qasm.ts and qasm3.ts.
+import type { Circuit } from "@/lib/circuit"
+import type { GateOperation } from "@/lib/quantum-simulator"
+import { formatQasmAngle, toQasm } from "@/lib/qasm"
+import { toQasm3 } from "@/lib/qasm3"
+import { toQuirkUrl } from "@/lib/quirk"
+
+export interface CodeExportOptions {
+  shots?: number
+  seed?: number // seeds the SDK's simulator when given
+}
+
+export type CodeFormat = "qiskit" | "cirq" | "quil" | "qasm2" | "qasm3" | "quirk"
+
+// Formats offered by the "Copy as…" menus; the OpenQASM ones round-trip through parseQasm/parseQasm3
+export const codeExportFormats: Record<
+  CodeFormat,
+  { label: string; extension: string; generate: (circuit: Circuit, options?: CodeExportOptions) => string }
+> = {
+  qiskit: { label: "Qiskit (Python)", extension: "py", generate: toQiskit },
+  cirq: { label: "Cirq (Python)", extension: "py", generate: toCirq },
+  quil: { label: "Quil", extension: "quil", generate: toQuil },
+  qasm2: { label: "OpenQASM 2.0", extension: "qasm", generate: toQasm },
+  qasm3: { label: "OpenQASM 3", extension: "qasm", generate: toQasm3 },
+  quirk: { label: "Quirk link", extension: "txt", generate: toQuirkUrl },
+}
+
+const pythonReserved = new Set(
+  [
+    ...["False", "None", "True", "and", "as", "assert", "async", "await", "break", "class", "continue", "def"],
+    ...["del", "elif", "else", "except", "finally", "for", "from", "global", "if", "import", "in", "is", "lambda"],
+    ...["nonlocal", "not", "or", "pass", "raise", "return", "try", "while", "with", "yield"],
+    // Names the generated scripts define themselves
+    ...["qc", "q", "pi", "np", "cirq", "sympy", "circuit", "simulator", "result", "counts", "u3"],
+    ...["QuantumCircuit", "QuantumRegister", "ClassicalRegister", "transpile", "AerSimulator"],
+  ].map((name) => name.toLowerCase()),
+)
+
+// Python variable for a classical register, kept clear of keywords and the script's own names
+function pythonName(name: string): string {
+  return pythonReserved.has(name.toLowerCase()) ? `${name}_` : name
+}
+
+// Consecutive operations under the same condition are emitted as one block
+function groupByCondition(
+  operations: GateOperation[],
+): Array<{ condition?: GateOperation["condition"]; operations: GateOperation[] }> {
+  const groups: Array<{ condition?: GateOperation["condition"]; operations: GateOperation[] }> = []
+  for (const operation of operations) {
+    const last = groups[groups.length - 1]
+    const condition = operation.condition
+    const same = last && last.condition?.register === condition?.register && last.condition?.value === condition?.value
+    if (same) last.operations.push(operation)
+    else groups.push({ condition, operations: [operation] })
+  }
+  return groups
+}
+
+// Readout register for measurements that don't name a classical bit, as in toQasm
+function measureRegisterName(circuit: Circuit, base: string): string | null {
+  if (!circuit.operations.some((op) => op.type === "measure" && !op.classicalBit)) return null
+  let name = base
+  for (let k = 0; circuit.getClassicalRegister(name); k++) name = `${base}${k}`
+  return name
+}
+
+const qiskitGates: Record<string, { method: string; gateClass: string }> = {
+  X: { method: "x", gateClass: "XGate" },
+  Y: { method: "y", gateClass: "YGate" },
+  Z: { method: "z", gateClass: "ZGate" },
+  H: { method: "h", gateClass: "HGate" },
+  I: { method: "id", gateClass: "IGate" },
+  S: { method: "s", gateClass: "SGate" },
+  Sdg: { method: "sdg", gateClass: "SdgGate" },
+  T: { method: "t", gateClass: "TGate" },
+  Tdg: { method: "tdg", gateClass: "TdgGate" },
+  RX: { method: "rx", gateClass: "RXGate" },
+  RY: { method: "ry", gateClass: "RYGate" },
+  RZ: { method: "rz", gateClass: "RZGate" },
+  P: { method: "p", gateClass: "PhaseGate" },
+  U3: { method: "u", gateClass: "UGate" },
+  SWAP: { method: "swap", gateClass: "SwapGate" },
+  iSWAP: { method: "iswap", gateClass: "iSwapGate" },
+}
+
+// QuantumCircuit methods for gates with one control
+const qiskitControlledMethods: Record<string, string> = {
+  X: "cx",
+  Y: "cy",
+  Z: "cz",
+  H: "ch",
+  S: "cs",
+  Sdg: "csdg",
+  RX: "crx",
+  RY: "cry",
+  RZ: "crz",
+  P: "cp",
+  SWAP: "cswap",
+}
+
+// Qiskit script building the circuit with registers named as in the Lab and running it on Aer.
+// Registers are added in reverse, so Qiskit's counts list them in the Lab's order.
+export function toQiskit(circuit: Circuit, options: CodeExportOptions = {}): string {
+  const registers = circuit.classicalRegisters.map((register) => ({ ...register, variable: pythonName(register.name) }))
+  const measureRegister = measureRegisterName(circuit, "meas")
+  if (measureRegister) registers.push({ name: measureRegister, size: circuit.numQubits, variable: measureRegister })
+  const variables = Object.fromEntries(registers.map((register) => [register.name, register.variable]))
+  const gateClasses = new Set<string>()
+
+  const angles = (params: number[] = []) => params.map(formatQasmAngle)
+  const qubits = (indices: number[]) => indices.map((i) => `q[${i}]`)
+
+  const statement = (operation: GateOperation): string => {
+    const controls = operation.controls ?? []
+    switch (operation.type) {
+      case "single":
+        return `qc.${qiskitGates[operation.gate!].method}(${[...angles(operation.params), ...qubits([operation.target])].join(", ")})`
+      case "cnot":
+        return `qc.cx(q[${operation.control}], q[${operation.target}])`
+      case "controlled":
+      case "multi": {
+        const gate = operation.gate!
+        const targets = operation.type === "multi" ? (operation.targets ?? [operation.target]) : [operation.target]
+        const args = qubits([...controls, ...targets])
+        if (controls.length === 0) {
+          return `qc.${qiskitGates[gate].method}(${[...angles(operation.params), ...args].join(", ")})`
+        }
+        if (controls.length === 1 && gate === "U3") {
+          return `qc.cu(${[...angles(operation.params), "0", ...args].join(", ")})`
+        }
+        if (controls.length === 1 && qiskitControlledMethods[gate]) {
+          return `qc.${qiskitControlledMethods[gate]}(${[...angles(operation.params), ...args].join(", ")})`
+        }
+        if (gate === "X" && controls.length === 2) return `qc.ccx(${args.join(", ")})`
+        if (gate === "X") return `qc.mcx([${qubits(controls).join(", ")}], q[${operation.target}])`
+        const { gateClass } = qiskitGates[gate]
+        gateClasses.add(gateClass)
+        return `qc.append(${gateClass}(${angles(operation.params).join(", ")}).control(${controls.length}), [${args.join(", ")}])`
+      }
+      case "measure": {
+        const bit = operation.classicalBit ?? { register: measureRegister!, index: operation.target }
+        return `qc.measure(q[${operation.target}], ${variables[bit.register]}[${bit.index}])`
+      }
+      case "reset":
+        return `qc.reset(q[${operation.target}])`
+    }
+  }
+
+  const body = groupByCondition(circuit.operations).flatMap(({ condition, operations }) =>
+    condition
+      ? [
+          `with qc.if_test((${variables[condition.register]}, ${condition.value})):`,
+          ...operations.map((op) => `    ${statement(op)}`),
+        ]
+      : operations.map(statement),
+  )
+  const hasMeasurements = circuit.operations.some((op) => op.type === "measure")
+  const seed = options.seed !== undefined ? `, seed_simulator=${options.seed}` : ""
+
+  return [
+    "from math import pi",
+    "",
+    "from qiskit import ClassicalRegister, QuantumCircuit, QuantumRegister, transpile",
+    ...(gateClasses.size > 0 ? [`from qiskit.circuit.library import ${[...gateClasses].sort().join(", ")}`] : []),
+    "from qiskit_aer import AerSimulator",
+    "",
+    `q = QuantumRegister(${circuit.numQubits}, "q")`,
+    ...registers.map((register) => `${register.variable} = ClassicalRegister(${register.size}, "${register.name}")`),
+    `qc = QuantumCircuit(${["q", ...registers.map((register) => register.variable).reverse()].join(", ")})`,
+    "",
+    ...body,
+    ...(hasMeasurements ? [] : ["qc.measure_all()  # no measurements: read out every qubit, as the Lab does"]),
+    "",
+    "simulator = AerSimulator()",
+    `result = simulator.run(transpile(qc, simulator), shots=${options.shots ?? 1024}${seed}).result()`,
+    "print(result.get_counts())",
+    "",
+  ].join("\n")
+}
+
+const cirqGates: Record<string, (params: string[]) => string> = {
+  X: () => "cirq.X",
+  Y: () => "cirq.Y",
+  Z: () => "cirq.Z",
+  H: () => "cirq.H",
+  I: () => "cirq.I",
+  S: () => "cirq.S",
+  Sdg: () => "cirq.S**-1",
+  T: () => "cirq.T",
+  Tdg: () => "cirq.T**-1",
+  RX: ([theta]) => `cirq.rx(${theta})`,
+  RY: ([theta]) => `cirq.ry(${theta})`,
+  RZ: ([theta]) => `cirq.rz(${theta})`,
+  P: ([lambda]) => `cirq.ZPowGate(exponent=(${lambda}) / pi)`,
+  U3: (params) => `u3(${params.join(", ")})`,
+  SWAP: () => "cirq.SWAP",
+  iSWAP: () => "cirq.ISWAP",
+}
+
+// Cirq has no U3, so scripts that need it define one with the Lab's matrix
+const cirqU3Definition = [
+  "def u3(theta, phi, lam):",
+  "    return cirq.MatrixGate(",
+  "        np.array(",
+  "            [",
+  "                [np.cos(theta / 2), -np.exp(1j * lam) * np.sin(theta / 2)],",
+  "                [np.exp(1j * phi) * np.sin(theta / 2), np.exp(1j * (phi + lam)) * np.cos(theta / 2)],",
+  "            ]",
+  "        )",
+  "    )",
+]
+
+// Cirq script on LineQubits. Each classical bit becomes a measurement key "register_index", and
+// conditions compare the register's value built from those keys.
+export function toCirq(circuit: Circuit, options: CodeExportOptions = {}): string {
+  const measureRegister = measureRegisterName(circuit, "meas")
+  const key = (register: string, index: number) => `${register}_${index}`
+  const measured = new Set<string>()
+  let usesU3 = false
+  let usesSympy = false
+
+  const qubits = (indices: number[]) => indices.map((i) => `q[${i}]`).join(", ")
+
+  const gateExpression = (operation: GateOperation): string => {
+    const controls = operation.controls ?? []
+    const gate = operation.type === "cnot" ? "X" : operation.gate!
+    const count = operation.type === "cnot" ? 1 : controls.length
+    if (gate === "U3") usesU3 = true
+    if (count === 1 && gate === "X") return "cirq.CNOT"
+    if (count === 1 && gate === "Z") return "cirq.CZ"
+    if (count === 1 && gate === "SWAP") return "cirq.CSWAP"
+    if (count === 2 && gate === "X") return "cirq.CCX"
+    const base = cirqGates[gate]((operation.params ?? []).map(formatQasmAngle))
+    const wrapped = base.includes("**") ? `(${base})` : base
+    return count > 0 ? `${wrapped}.controlled(${count})` : wrapped
+  }
+
+  // Condition on the register value; bits never measured so far read 0 and are left out. Null when
+  // the condition can't hold, empty when it always does.
+  const classicalControl = (condition: NonNullable<GateOperation["condition"]>): string | null => {
+    const size = circuit.getClassicalRegister(condition.register)?.size ?? 0
+    const terms: string[] = []
+    for (let i = 0; i < size; i++) {
+      const bitKey = key(condition.register, i)
+      if (measured.has(bitKey))
+        terms.push(i === 0 ? `sympy.Symbol("${bitKey}")` : `${2 ** i} * sympy.Symbol("${bitKey}")`)
+      else if ((condition.value >> i) & 1) return null
+    }
+    if (terms.length === 0) return ""
+    if (terms.length === 1 && size === 1 && condition.value === 1) return `"${key(condition.register, 0)}"`
+    usesSympy = true
+    return `cirq.SympyCondition(sympy.Eq(${terms.length ? terms.join(" + ") : "0"}, ${condition.value}))`
+  }
+
+  const statement = (operation: GateOperation): string => {
+    switch (operation.type) {
+      case "measure": {
+        const bit = operation.classicalBit ?? { register: measureRegister!, index: operation.target }
+        measured.add(key(bit.register, bit.index))
+        return `cirq.measure(q[${operation.target}], key="${key(bit.register, bit.index)}")`
+      }
+      case "reset":
+        return `cirq.reset(q[${operation.target}])`
+      case "cnot":
+        return `${gateExpression(operation)}(${qubits([operation.control!, operation.target])})`
+      case "multi":
+        return `${gateExpression(operation)}(${qubits([...(operation.controls ?? []), ...(operation.targets ?? [operation.target])])})`
+      default:
+        return `${gateExpression(operation)}(${qubits([...(operation.controls ?? []), operation.target])})`
+    }
+  }
+
+  const body = circuit.operations.map((operation) => {
+    const condition = operation.condition ? classicalControl(operation.condition) : ""
+    const op = statement(operation)
+    if (condition === null) {
+      return `# skipped, ${operation.condition!.register} == ${operation.condition!.value} never holds here: ${op}`
+    }
+    return `circuit.append(${op}${condition ? `.with_classical_controls(${condition})` : ""})`
+  })
+
+  // Readout keys in register order, highest bit first, as the Lab shows registers
+  const registers = [
+    ...circuit.classicalRegisters,
+    ...(measureRegister ? [{ name: measureRegister, size: circuit.numQubits }] : []),
+  ]
+  const keys = registers
+    .flatMap((register) => Array.from({ length: register.size }, (_, i) => key(register.name, register.size - 1 - i)))
+    .filter((bitKey) => measured.has(bitKey))
+  const hasMeasurements = keys.length > 0
+
+  return [
+    "from math import pi",
+    "",
+    "import cirq",
+    ...(usesU3 ? ["import numpy as np"] : []),
+    ...(usesSympy ? ["import sympy"] : []),
+    "",
+    ...(usesU3 ? [...cirqU3Definition, "", ""] : []),
+    `q = cirq.LineQubit.range(${circuit.numQubits})`,
+    "circuit = cirq.Circuit()",
+    ...body,
+    ...(hasMeasurements ? [] : ['circuit.append(cirq.measure(*q, key="q"))  # no measurements: read out every qubit']),
+    "",
+    `simulator = cirq.Simulator(${options.seed !== undefined ? `seed=${options.seed}` : ""})`,
+    `result = simulator.run(circuit, repetitions=${options.shots ?? 1024})`,
+    `print(result.multi_measurement_histogram(keys=[${(hasMeasurements ? keys : ["q"]).map((k) => `"${k}"`).join(", ")}]))`,
+    "",
+  ].join("\n")
+}
+
+const quilGates: Record<string, string> = {
+  X: "X",
+  Y: "Y",
+  Z: "Z",
+  H: "H",
+  I: "I",
+  S: "S",
+  Sdg: "DAGGER S",
+  T: "T",
+  Tdg: "DAGGER T",
+  RX: "RX",
+  RY: "RY",
+  RZ: "RZ",
+  P: "PHASE",
+  U3: "U3",
+  SWAP: "SWAP",
+  iSWAP: "ISWAP",
+}
+
+// Quil's standard gates with one or two controls built in
+const quilControlledGates: Record<string, string> = {
+  "1X": "CNOT",
+  "1Z": "CZ",
+  "1P": "CPHASE",
+  "1SWAP": "CSWAP",
+  "2X": "CCNOT",
+}
+
+const quilU3Definition = [
+  "DEFGATE U3(%theta, %phi, %lambda):",
+  "    cos(%theta/2), -cis(%lambda)*sin(%theta/2)",
+  "    cis(%phi)*sin(%theta/2), cis(%phi+%lambda)*cos(%theta/2)",
+]
+
+// Quil program: classical registers become BIT memory, and conditioned operations are skipped with
+// JUMP-WHEN/JUMP-UNLESS on each bit that doesn't match the condition's value
+export function toQuil(circuit: Circuit): string {
+  const measureRegister = measureRegisterName(circuit, "ro")
+  const registers = [
+    ...circuit.classicalRegisters,
+    ...(measureRegister ? [{ name: measureRegister, size: circuit.numQubits }] : []),
+  ]
+
+  const instruction = (operation: GateOperation): string => {
+    const controls = operation.type === "cnot" ? [operation.control!] : (operation.controls ?? [])
+    const targets = operation.type === "multi" ? (operation.targets ?? [operation.target]) : [operation.target]
+    switch (operation.type) {
+      case "measure": {
+        const bit = operation.classicalBit ?? { register: measureRegister!, index: operation.target }
+        return `MEASURE ${operation.target} ${bit.register}[${bit.index}]`
+      }
+      case "reset":
+        return `RESET ${operation.target}`
+    }
+    const gate = operation.type === "cnot" ? "X" : operation.gate!
+    const params = operation.params?.length ? `(${operation.params.map(formatQasmAngle).join(", ")})` : ""
+    const qubits = [...controls, ...targets].join(" ")
+    const builtIn = quilControlledGates[`${controls.length}${gate}`]
+    if (builtIn) return `${builtIn}${params} ${qubits}`
+    return `${"CONTROLLED ".repeat(controls.length)}${quilGates[gate]}${params} ${qubits}`
+  }
+
+  let labels = 0
+  const body = groupByCondition(circuit.operations).flatMap(({ condition, operations }) => {
+    if (!condition) return operations.map(instruction)
+    const label = `@endif${labels++}`
+    const size = circuit.getClassicalRegister(condition.register)?.size ?? 0
+    const jumps = Array.from({ length: size }, (_, i) =>
+      (condition.value >> i) & 1
+        ? `JUMP-UNLESS ${label} ${condition.register}[${i}]`
+        : `JUMP-WHEN ${label} ${condition.register}[${i}]`,
+    )
+    return [
+      `# if ${condition.register} == ${condition.value}`,
+      ...jumps,
+      ...operations.map(instruction),
+      `LABEL ${label}`,
+    ]
+  })
+  const usesU3 = circuit.operations.some((op) => op.gate === "U3")
+
+  return [
+    ...(usesU3 ? [...quilU3Definition, ""] : []),
+    ...registers.map((register) => `DECLARE ${register.name} BIT[${register.size}]`),
+    ...body,
+    "",
+  ].join("\n")
+}
@@ -1,5 +1,11 @@
 "use client"
 
+import { Circuit, type CircuitData } from "@/lib/circuit"
+import { groverCircuit, markedOracle } from "@/lib/grover"
+import { parseQasm } from "@/lib/qasm"
+import { parseQasm3, qasmVersion } from "@/lib/qasm3"
+import { SeededRandom, hashSeed } from "@/lib/random"
+
 export interface QuantumExperiment {
   id: string
   title: string
@@ -11,14 +17,8 @@ export interface QuantumExperiment {
   category: "algorithm" | "tutorial" | "research" | "challenge" | "demo"
   difficulty: "beginner" | "intermediate" | "advanced" | "expert"
   tags: string[]
-  circuit: {
-    numQubits: number
-    operations: Array<{
-      type: "single" | "cnot" | "measure"
-      gate?: string
-      target: number
-      control?: number
-    }>
+  circuit: CircuitData & {
+    seed?: number // seed of the recorded run, so measurements replay identically
   }
   expectedResults?: {
     probabilities: number[]
@@ -58,10 +58,17 @@ export interface ExperimentChallenge {
     experimentId: string
     author: string
     score: number
+    seed?: number
     timestamp: number
   }>
 }
 
+// Validate a circuit against the shared circuit model, keeping its recorded seed
+function normalizeCircuit(circuit: QuantumExperiment["circuit"]): QuantumExperiment["circuit"] {
+  const data = Circuit.fromJSON(circuit).toJSON()
+  return circuit.seed === undefined ? data : { ...data, seed: circuit.seed }
+}
+
 class CollaborativeExperimentSystem {
   private experiments: Map<string, QuantumExperiment> = new Map()
   private challenges: Map<string, ExperimentChallenge> = new Map()
@@ -81,6 +88,7 @@ class CollaborativeExperimentSystem {
     const id = `exp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     const newExperiment: QuantumExperiment = {
       ...experiment,
+      circuit: normalizeCircuit(experiment.circuit),
       id,
       createdAt: Date.now(),
       updatedAt: Date.now(),
@@ -95,6 +103,18 @@ class CollaborativeExperimentSystem {
     return id
   }
 
+  // Create an experiment from an OpenQASM 2.0 or 3 program; throws a QasmParseError for invalid source
+  createExperimentFromQasm(
+    qasm: string,
+    experiment: Omit<
+      QuantumExperiment,
+      "id" | "createdAt" | "updatedAt" | "likes" | "views" | "comments" | "version" | "circuit"
+    >,
+  ): string {
+    const circuit = qasmVersion(qasm) === 2 ? parseQasm(qasm) : parseQasm3(qasm)
+    return this.createExperiment({ ...experiment, circuit: circuit.toJSON() })
+  }
+
   getExperiment(id: string): QuantumExperiment | undefined {
     const experiment = this.experiments.get(id)
     if (experiment) {
@@ -113,6 +133,7 @@ class CollaborativeExperimentSystem {
     const updatedExperiment: QuantumExperiment = {
       ...experiment,
       ...updates,
+      circuit: updates.circuit ? normalizeCircuit(updates.circuit) : experiment.circuit,
       updatedAt: Date.now(),
       version: experiment.version + 1,
     }
@@ -232,13 +253,15 @@ class CollaborativeExperimentSystem {
     if (!challenge || !experiment) return false
 
     challenge.submissions++
-    // Simulate scoring
-    const score = Math.random() * 100
+    // Simulate scoring, seeded so the same submission always scores the same
+    const seed = experiment.circuit.seed ?? hashSeed(`${challengeId}:${experimentId}`)
+    const score = new SeededRandom(seed).next() * 100
 
     challenge.topSubmissions.push({
       experimentId,
       author: experiment.author,
       score,
+      seed,
       timestamp: Date.now(),
     })
 
@@ -264,8 +287,18 @@ class CollaborativeExperimentSystem {
     try {
       const experimentsData = localStorage.getItem(this.STORAGE_KEY)
       if (experimentsData) {
-        const entries = JSON.parse(experimentsData)
-        this.experiments = new Map(entries)
+        const entries: Array<[string, QuantumExperiment]> = JSON.parse(experimentsData)
+        this.experiments = new Map(
+          entries.filter(([id, experiment]) => {
+            try {
+              experiment.circuit = normalizeCircuit(experiment.circuit)
+              return true
+            } catch (error) {
+              console.warn(`Skipping stored experiment ${id} with an invalid circuit:`, error)
+              return false
+            }
+          }),
+        )
       }
 
       const challengesData = localStorage.getItem(this.CHALLENGES_KEY)
@@ -326,29 +359,50 @@ class CollaborativeExperimentSystem {
       },
       {
         title: "Grover's Algorithm (2-qubit)",
-        description: "Implementation of Grover's search algorithm for 2 qubits",
+        description: "Grover search for |11⟩ among four states, built by the Grover oracle builder",
         author: "Quantum Researcher",
         authorId: "researcher1",
         category: "algorithm" as const,
         difficulty: "advanced" as const,
         tags: ["grover", "search", "algorithm"],
+        circuit: groverCircuit(markedOracle(["11"])).toJSON(),
+        expectedResults: {
+          probabilities: [0, 0, 0, 1],
+          description: "One Grover iteration finds the marked state |11⟩ with certainty",
+        },
+        isPublic: true,
+        collaborators: [],
+      },
+      {
+        title: "Quantum Teleportation",
+        description:
+          "Teleport RY(1.1)|0⟩ from q0 to q2 with a Bell pair, two mid-circuit measurements and classically conditioned corrections",
+        author: "Or4cl3 Team",
+        authorId: "or4cl3",
+        category: "algorithm" as const,
+        difficulty: "intermediate" as const,
+        tags: ["teleportation", "entanglement", "mid-circuit-measurement"],
         circuit: {
-          numQubits: 2,
+          numQubits: 3,
           operations: [
-            { type: "single" as const, gate: "H", target: 0 },
-            { type: "single" as const, gate: "H", target: 1 },
-            { type: "single" as const, gate: "Z", target: 1 },
-            { type: "cnot" as const, target: 1, control: 0 },
-            { type: "single" as const, gate: "Z", target: 1 },
-            { type: "single" as const, gate: "H", target: 0 },
+            { type: "single" as const, gate: "RY", target: 0, params: [1.1] },
             { type: "single" as const, gate: "H", target: 1 },
-            { type: "single" as const, gate: "Z", target: 0 },
-            { type: "single" as const, gate: "Z", target: 1 },
+            { type: "cnot" as const, target: 2, control: 1 },
             { type: "cnot" as const, target: 1, control: 0 },
-            { type: "single" as const, gate: "Z", target: 1 },
             { type: "single" as const, gate: "H", target: 0 },
-            { type: "single" as const, gate: "H", target: 1 },
+            { type: "measure" as const, target: 0, classicalBit: { register: "c0", index: 0 } },
+            { type: "measure" as const, target: 1, classicalBit: { register: "c1", index: 0 } },
+            { type: "single" as const, gate: "X", target: 2, condition: { register: "c1", value: 1 } },
+            { type: "single" as const, gate: "Z", target: 2, condition: { register: "c0", value: 1 } },
           ],
+          classicalRegisters: [
+            { name: "c0", size: 1 },
+            { name: "c1", size: 1 },
+          ],
+        },
+        expectedResults: {
+          probabilities: [0.1817, 0.0683, 0.1817, 0.0683, 0.1817, 0.0683, 0.1817, 0.0683],
+          description: "q2 ends in RY(1.1)|0⟩ (P(1) ≈ 0.273) whatever the uniformly random outcomes on q0 and q1",
         },
         isPublic: true,
         collaborators: [],
@@ -372,6 +426,7 @@ class CollaborativeExperimentSystem {
         constraints: [
           "Must use exactly 3 qubits",
           "Must include Bell state preparation",
+          "Must measure mid-circuit and apply X/Z corrections conditioned on the classical bits",
           "Must demonstrate successful state transfer",
         ],
         difficulty: "expert",
@@ -387,8 +442,8 @@ class CollaborativeExperimentSystem {
         objective: "Implement a 3-qubit bit-flip error correction code",
         constraints: [
           "Must protect against single bit-flip errors",
-          "Must use syndrome measurement",
-          "Must demonstrate error recovery",
+          "Must use syndrome measurement into a classical register",
+          "Must demonstrate error recovery with corrections conditioned on the syndrome",
         ],
         difficulty: "advanced",
         category: "research",
@@ -0,0 +1,215 @@
+// Exact gate decomposition into single-qubit gates and CNOTs: ZYZ Euler angles, the ABC construction
+// for controlled gates, the T-count-7 Toffoli and Barenco et al.'s recursion for more controls.
+import { Circuit } from "@/lib/circuit"
+import {
+  complex,
+  gates,
+  resolveOperation,
+  type Complex,
+  type GateOperation,
+  type QuantumGate,
+} from "@/lib/quantum-simulator"
+
+const EPSILON = 1e-9
+
+// Single-qubit gate as e^{iα}·U3(θ, φ, λ)
+export interface EulerAngles {
+  theta: number
+  phi: number
+  lambda: number
+  phase: number
+}
+
+const conjugate = (c: Complex): Complex => ({ real: c.real, imag: -c.imag })
+const scale = (c: Complex, s: number): Complex => ({ real: c.real * s, imag: c.imag * s })
+
+export function adjoint(gate: QuantumGate): QuantumGate {
+  return gate[0].map((_, c) => gate.map((row) => conjugate(row[c])))
+}
+
+// Equal up to numerical noise, optionally up to a global phase
+export function sameGate(a: QuantumGate, b: QuantumGate, upToPhase = false): boolean {
+  let phase: Complex = { real: 1, imag: 0 }
+  if (upToPhase) {
+    // Phase of the largest entry of a relative to b
+    let best = 0
+    for (let r = 0; r < a.length; r++) {
+      for (let c = 0; c < a.length; c++) {
+        const magnitude = complex.magnitude(b[r][c])
+        if (magnitude > best) {
+          best = magnitude
+          phase = complex.fromPolar(1, complex.phase(a[r][c]) - complex.phase(b[r][c]))
+        }
+      }
+    }
+  }
+  return a.every((row, r) =>
+    row.every((entry, c) => {
+      const expected = complex.multiply(phase, b[r][c])
+      return Math.abs(entry.real - expected.real) < 1e-7 && Math.abs(entry.imag - expected.imag) < 1e-7
+    }),
+  )
+}
+
+export function eulerAngles(gate: QuantumGate): EulerAngles {
+  const [[u00, u01], [u10, u11]] = gate
+  const cos = complex.magnitude(u00)
+  const sin = complex.magnitude(u10)
+  const theta = 2 * Math.atan2(sin, cos)
+  if (sin < EPSILON) {
+    const phase = complex.phase(u00)
+    return { theta, phi: 0, lambda: complex.phase(u11) - phase, phase }
+  }
+  if (cos < EPSILON) {
+    const phase = complex.phase(u10)
+    return { theta, phi: 0, lambda: complex.phase(scale(u01, -1)) - phase, phase }
+  }
+  const phase = complex.phase(u00)
+  return { theta, phi: complex.phase(u10) - phase, lambda: complex.phase(scale(u01, -1)) - phase, phase }
+}
+
+// Principal square root of a 2x2 unitary: (U + s·I) / t with s = ±√det U and t = √(tr U + 2s)
+export function sqrtGate(gate: QuantumGate): QuantumGate {
+  const det = complex.add(complex.multiply(gate[0][0], gate[1][1]), scale(complex.multiply(gate[0][1], gate[1][0]), -1))
+  const trace = complex.add(gate[0][0], gate[1][1])
+  for (const sign of [1, -1]) {
+    const s = complex.fromPolar(sign * Math.sqrt(complex.magnitude(det)), complex.phase(det) / 2)
+    const sum = complex.add(trace, scale(s, 2))
+    if (complex.magnitude(sum) < EPSILON) continue
+    const t = complex.fromPolar(Math.sqrt(complex.magnitude(sum)), complex.phase(sum) / 2)
+    const inverse = scale(conjugate(t), 1 / complex.magnitude(t) ** 2)
+    return gate.map((row, r) =>
+      row.map((entry, c) => complex.multiply(r === c ? complex.add(entry, s) : entry, inverse)),
+    )
+  }
+  throw new Error("Gate has no square root") // unreachable for unitaries
+}
+
+type Condition = GateOperation["condition"]
+
+const withCondition = (operation: GateOperation, condition: Condition): GateOperation =>
+  condition ? { ...operation, condition } : operation
+
+const single = (gate: string, target: number, params?: number[]): GateOperation => ({
+  type: "single",
+  gate,
+  target,
+  ...(params ? { params } : {}),
+})
+const cnot = (control: number, target: number): GateOperation => ({ type: "cnot", control, target })
+
+// Uncontrolled gate up to a global phase: P(λ) when diagonal, U3 otherwise, nothing for the identity
+function singleFromMatrix(gate: QuantumGate, target: number): GateOperation[] {
+  if (sameGate(gate, gates.I, true)) return []
+  const { theta, phi, lambda } = eulerAngles(gate)
+  return Math.abs(theta) < EPSILON
+    ? [single("P", target, [phi + lambda])]
+    : [single("U3", target, [theta, phi, lambda])]
+}
+
+const rz = (angle: number, target: number) => (Math.abs(angle) < EPSILON ? [] : [single("RZ", target, [angle])])
+const ry = (angle: number, target: number) => (Math.abs(angle) < EPSILON ? [] : [single("RY", target, [angle])])
+
+// Toffoli with 6 CNOTs and 7 T gates (Nielsen & Chuang, fig. 4.9)
+function toffoli(a: number, b: number, target: number): GateOperation[] {
+  return [
+    single("H", target),
+    cnot(b, target),
+    single("Tdg", target),
+    cnot(a, target),
+    single("T", target),
+    cnot(b, target),
+    single("Tdg", target),
+    cnot(a, target),
+    single("T", b),
+    single("T", target),
+    cnot(a, b),
+    single("H", target),
+    single("T", a),
+    single("Tdg", b),
+    cnot(a, b),
+  ]
+}
+
+// A 2x2 unitary (global phase included) controlled on every qubit in controls
+export function controlledUnitary(gate: QuantumGate, controls: number[], target: number): GateOperation[] {
+  if (controls.length === 0) return singleFromMatrix(gate, target)
+  if (sameGate(gate, gates.I)) return []
+
+  if (controls.length === 1) {
+    const [control] = controls
+    if (sameGate(gate, gates.X)) return [cnot(control, target)]
+    if (sameGate(gate, gates.Z)) return [single("H", target), cnot(control, target), single("H", target)]
+
+    // U = e^{iα}·RZ(β)·RY(γ)·RZ(δ) = e^{iα}·A·X·B·X·C with A·B·C = I (Nielsen & Chuang, cor. 4.2)
+    const { theta: gamma, phi: beta, lambda: delta, phase } = eulerAngles(gate)
+    const alpha = phase + (beta + delta) / 2
+    const phaseGate =
+      Math.abs(Math.atan2(Math.sin(alpha), Math.cos(alpha))) < EPSILON ? [] : [single("P", control, [alpha])]
+    return [
+      ...rz((delta - beta) / 2, target),
+      cnot(control, target),
+      ...rz(-(delta + beta) / 2, target),
+      ...ry(-gamma / 2, target),
+      cnot(control, target),
+      ...ry(gamma / 2, target),
+      ...rz(beta, target),
+      ...phaseGate,
+    ]
+  }
+
+  if (controls.length === 2 && sameGate(gate, gates.X)) return toffoli(controls[0], controls[1], target)
+
+  // C^k(U) from C(V), C(V†) and C^(k-1)(V) with V² = U (Barenco et al. 1995, lemma 7.5)
+  const rest = controls.slice(0, -1)
+  const last = controls[controls.length - 1]
+  const root = sqrtGate(gate)
+  return [
+    ...controlledUnitary(root, [last], target),
+    ...controlledUnitary(gates.X, rest, last),
+    ...controlledUnitary(adjoint(root), [last], target),
+    ...controlledUnitary(gates.X, rest, last),
+    ...controlledUnitary(root, rest, target),
+  ]
+}
+
+// The uncontrolled two-qubit gates as CNOTs and single-qubit gates, exactly
+const twoQubitDecompositions: Record<string, (a: number, b: number) => GateOperation[]> = {
+  SWAP: (a, b) => [cnot(a, b), cnot(b, a), cnot(a, b)],
+  iSWAP: (a, b) => [single("S", a), single("S", b), single("H", a), cnot(a, b), cnot(b, a), single("H", b)],
+}
+
+// An operation as single-qubit gates and CNOTs, keeping its condition. Uncontrolled single-qubit
+// gates, CNOTs, measurements and resets are returned unchanged.
+export function decomposeOperation(operation: GateOperation): GateOperation[] {
+  if (operation.type !== "controlled" && operation.type !== "multi") return [operation]
+
+  const resolved = resolveOperation(operation)
+  if (!resolved) throw new Error(`Unknown gate "${operation.gate}"`)
+  const { gate, targets, controls } = resolved
+
+  let pieces: GateOperation[]
+  if (targets.length === 1) {
+    pieces = controlledUnitary(gate, controls, targets[0])
+  } else {
+    const decomposition = twoQubitDecompositions[operation.gate ?? ""]
+    if (!decomposition || targets.length !== 2) throw new Error(`Cannot decompose ${operation.gate}`)
+    const [a, b] = targets
+    // A controlled SWAP only needs the middle CNOT controlled
+    pieces =
+      controls.length === 0
+        ? decomposition(a, b)
+        : operation.gate === "SWAP"
+          ? [cnot(b, a), ...controlledUnitary(gates.X, [...controls, a], b), cnot(b, a)]
+          : decomposition(a, b).flatMap((piece) => {
+              const part = resolveOperation(piece)!
+              return controlledUnitary(part.gate, [...controls, ...part.controls], part.targets[0])
+            })
+  }
+
+  return pieces.map((piece) => withCondition(piece, operation.condition))
+}
+
+export function decomposeCircuit(circuit: Circuit): Circuit {
+  return new Circuit(circuit.numQubits, circuit.operations.flatMap(decomposeOperation), circuit.classicalRegisters)
+}
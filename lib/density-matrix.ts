@@ -0,0 +1,322 @@
+// Density-matrix simulation with Kraus noise channels, for small registers (up to 6 qubits).
+// ρ is stored row-major as interleaved [re, im] values; viewed as a 2n-qubit vector, UρU† is U on the
+// row qubits and U* on the column qubits, so the state-vector kernels do the work.
+import { StateVector } from "@/lib/state-vector"
+import {
+  complex,
+  conditionHolds,
+  gates,
+  initializeClassicalBits,
+  resolveOperation,
+  storeMeasurement,
+  type ClassicalRegister,
+  type GateOperation,
+  type QuantumGate,
+  type QuantumState,
+} from "@/lib/quantum-simulator"
+
+export const MAX_DENSITY_MATRIX_QUBITS = 6
+
+// A single-qubit channel as its Kraus operators (Σ K†K = I)
+export type KrausChannel = QuantumGate[]
+
+export interface NoiseModel {
+  depolarizing: number // probability of replacing the qubit with the maximally mixed state
+  bitFlip: number
+  phaseFlip: number
+  amplitudeDamping: number // γ, decay probability towards |0⟩
+  phaseDamping: number // λ, loss of phase coherence without energy loss
+  readoutError: number // probability of reading the opposite bit
+}
+
+export const idealNoiseModel: NoiseModel = {
+  depolarizing: 0,
+  bitFlip: 0,
+  phaseFlip: 0,
+  amplitudeDamping: 0,
+  phaseDamping: 0,
+  readoutError: 0,
+}
+
+const scale = (gate: QuantumGate, factor: number): QuantumGate =>
+  gate.map((row) => row.map((c) => ({ real: c.real * factor, imag: c.imag * factor })))
+
+const conjugate = (gate: QuantumGate): QuantumGate =>
+  gate.map((row) => row.map((c) => ({ real: c.real, imag: -c.imag })))
+
+// Kraus channel factories
+export const noiseChannels = {
+  depolarizing: (p: number): KrausChannel => [
+    scale(gates.I, Math.sqrt(1 - (3 * p) / 4)),
+    scale(gates.X, Math.sqrt(p / 4)),
+    scale(gates.Y, Math.sqrt(p / 4)),
+    scale(gates.Z, Math.sqrt(p / 4)),
+  ],
+  bitFlip: (p: number): KrausChannel => [scale(gates.I, Math.sqrt(1 - p)), scale(gates.X, Math.sqrt(p))],
+  phaseFlip: (p: number): KrausChannel => [scale(gates.I, Math.sqrt(1 - p)), scale(gates.Z, Math.sqrt(p))],
+  amplitudeDamping: (gamma: number): KrausChannel => [
+    [
+      [
+        { real: 1, imag: 0 },
+        { real: 0, imag: 0 },
+      ],
+      [
+        { real: 0, imag: 0 },
+        { real: Math.sqrt(1 - gamma), imag: 0 },
+      ],
+    ],
+    [
+      [
+        { real: 0, imag: 0 },
+        { real: Math.sqrt(gamma), imag: 0 },
+      ],
+      [
+        { real: 0, imag: 0 },
+        { real: 0, imag: 0 },
+      ],
+    ],
+  ],
+  phaseDamping: (lambda: number): KrausChannel => [
+    [
+      [
+        { real: 1, imag: 0 },
+        { real: 0, imag: 0 },
+      ],
+      [
+        { real: 0, imag: 0 },
+        { real: Math.sqrt(1 - lambda), imag: 0 },
+      ],
+    ],
+    [
+      [
+        { real: 0, imag: 0 },
+        { real: 0, imag: 0 },
+      ],
+      [
+        { real: 0, imag: 0 },
+        { real: Math.sqrt(lambda), imag: 0 },
+      ],
+    ],
+  ],
+  // Reset to |0⟩: K0 = |0⟩⟨0|, K1 = |0⟩⟨1|
+  reset: (): KrausChannel => [
+    [
+      [
+        { real: 1, imag: 0 },
+        { real: 0, imag: 0 },
+      ],
+      [
+        { real: 0, imag: 0 },
+        { real: 0, imag: 0 },
+      ],
+    ],
+    [
+      [
+        { real: 0, imag: 0 },
+        { real: 1, imag: 0 },
+      ],
+      [
+        { real: 0, imag: 0 },
+        { real: 0, imag: 0 },
+      ],
+    ],
+  ],
+}
+
+export class DensityMatrix {
+  readonly numQubits: number
+  readonly data: Float64Array
+
+  constructor(numQubits: number, data?: Float64Array) {
+    if (numQubits < 1 || numQubits > MAX_DENSITY_MATRIX_QUBITS) {
+      throw new Error(`Density matrix supports 1-${MAX_DENSITY_MATRIX_QUBITS} qubits, got ${numQubits}`)
+    }
+    this.numQubits = numQubits
+
+    const dimension = 1 << numQubits
+    if (data) {
+      this.data = data
+    } else {
+      // |00...0⟩⟨00...0|
+      this.data = new Float64Array(dimension * dimension * 2)
+      this.data[0] = 1
+    }
+  }
+
+  // ρ = |ψ⟩⟨ψ| for a pure state
+  static fromPureState(state: QuantumState | StateVector): DensityMatrix {
+    const amplitudes = state instanceof StateVector ? state.toComplexArray() : state
+    const numQubits = Math.round(Math.log2(amplitudes.length))
+    const dimension = amplitudes.length
+    const data = new Float64Array(dimension * dimension * 2)
+
+    for (let row = 0; row < dimension; row++) {
+      for (let col = 0; col < dimension; col++) {
+        const { real, imag } = complex.multiply(amplitudes[row], {
+          real: amplitudes[col].real,
+          imag: -amplitudes[col].imag,
+        })
+        data[2 * (row * dimension + col)] = real
+        data[2 * (row * dimension + col) + 1] = imag
+      }
+    }
+
+    return new DensityMatrix(numQubits, data)
+  }
+
+  get dimension(): number {
+    return 1 << this.numQubits
+  }
+
+  clone(): DensityMatrix {
+    return new DensityMatrix(this.numQubits, this.data.slice())
+  }
+
+  entry(row: number, col: number): { real: number; imag: number } {
+    const index = 2 * (row * this.dimension + col)
+    return { real: this.data[index], imag: this.data[index + 1] }
+  }
+
+  // ρ → UρU† for a gate on the given targets and controls
+  applyGate(gate: QuantumGate, targets: number[], controls: number[] = []): this {
+    const vectorized = new StateVector(2 * this.numQubits, this.data)
+    vectorized.applyMultiQubitGate(gate, targets, controls)
+    vectorized.applyMultiQubitGate(
+      conjugate(gate),
+      targets.map((q) => q + this.numQubits),
+      controls.map((q) => q + this.numQubits),
+    )
+    return this
+  }
+
+  // ρ → Σ KρK† for a single-qubit channel
+  applyChannel(channel: KrausChannel, qubit: number): this {
+    const result = new Float64Array(this.data.length)
+
+    for (const kraus of channel) {
+      const term = new StateVector(2 * this.numQubits, this.data.slice())
+      term.applySingleQubitGate(kraus, qubit)
+      term.applySingleQubitGate(conjugate(kraus), qubit + this.numQubits)
+      for (let i = 0; i < result.length; i++) result[i] += term.amplitudes[i]
+    }
+
+    this.data.set(result)
+    return this
+  }
+
+  // Apply every non-zero channel of the noise model to a qubit
+  applyNoise(noiseModel: NoiseModel, qubit: number): this {
+    if (noiseModel.depolarizing > 0) this.applyChannel(noiseChannels.depolarizing(noiseModel.depolarizing), qubit)
+    if (noiseModel.bitFlip > 0) this.applyChannel(noiseChannels.bitFlip(noiseModel.bitFlip), qubit)
+    if (noiseModel.phaseFlip > 0) this.applyChannel(noiseChannels.phaseFlip(noiseModel.phaseFlip), qubit)
+    if (noiseModel.amplitudeDamping > 0) {
+      this.applyChannel(noiseChannels.amplitudeDamping(noiseModel.amplitudeDamping), qubit)
+    }
+    if (noiseModel.phaseDamping > 0) this.applyChannel(noiseChannels.phaseDamping(noiseModel.phaseDamping), qubit)
+    return this
+  }
+
+  // Measure a qubit; with an outcome, project onto it and renormalize, otherwise dephase
+  // (the ensemble over both outcomes)
+  measure(qubit: number, outcome?: 0 | 1): this {
+    const dimension = this.dimension
+    const bit = 1 << (this.numQubits - 1 - qubit)
+    let norm = 1
+
+    if (outcome !== undefined) {
+      norm = 0
+      for (let i = 0; i < dimension; i++) {
+        if (((i & bit) !== 0 ? 1 : 0) === outcome) norm += this.data[2 * (i * dimension + i)]
+      }
+      if (norm < 1e-12) return this
+    }
+
+    for (let row = 0; row < dimension; row++) {
+      for (let col = 0; col < dimension; col++) {
+        const rowBit = (row & bit) !== 0 ? 1 : 0
+        const colBit = (col & bit) !== 0 ? 1 : 0
+        const keep = outcome === undefined ? rowBit === colBit : rowBit === outcome && colBit === outcome
+        const index = 2 * (row * dimension + col)
+        this.data[index] = keep ? this.data[index] / norm : 0
+        this.data[index + 1] = keep ? this.data[index + 1] / norm : 0
+      }
+    }
+
+    return this
+  }
+
+  // Diagonal of ρ
+  probabilities(): number[] {
+    return Array.from({ length: this.dimension }, (_, i) => this.data[2 * (i * this.dimension + i)])
+  }
+
+  // Tr(ρ²): 1 for pure states, 1/2^n for the maximally mixed state
+  purity(): number {
+    let purity = 0
+    for (let i = 0; i < this.data.length; i++) purity += this.data[i] * this.data[i]
+    return purity
+  }
+}
+
+// Apply a symmetric per-qubit readout error to a measured probability distribution
+export function applyReadoutError(probabilities: number[], numQubits: number, errorRate: number): number[] {
+  let result = probabilities.slice()
+  if (errorRate <= 0) return result
+
+  for (let qubit = 0; qubit < numQubits; qubit++) {
+    const bit = 1 << (numQubits - 1 - qubit)
+    const next = new Array<number>(result.length).fill(0)
+    for (let i = 0; i < result.length; i++) {
+      next[i] += (1 - errorRate) * result[i]
+      next[i ^ bit] += errorRate * result[i]
+    }
+    result = next
+  }
+
+  return result
+}
+
+// Evolve |0...0⟩ through the operations, applying the noise model after every gate to each qubit
+// it touches. Measurements and resets with a recorded result are post-selected on it; measurement
+// outcomes are stored in their classical bits so conditions follow them (unrecorded outcomes read as 0).
+export function simulateDensityMatrix(
+  numQubits: number,
+  operations: GateOperation[],
+  noiseModel: NoiseModel = idealNoiseModel,
+  classicalRegisters: ClassicalRegister[] = [],
+): DensityMatrix {
+  const rho = new DensityMatrix(numQubits)
+  const classicalBits = initializeClassicalBits(classicalRegisters)
+
+  for (const operation of operations) {
+    if (!conditionHolds(operation, classicalBits)) continue
+
+    if (operation.type === "measure") {
+      rho.measure(operation.target, operation.result)
+      storeMeasurement(operation, operation.result ?? 0, classicalBits)
+      continue
+    }
+    if (operation.type === "reset") {
+      if (operation.result !== undefined) rho.measure(operation.target, operation.result)
+      rho.applyChannel(noiseChannels.reset(), operation.target)
+      continue
+    }
+
+    const resolved = resolveOperation(operation)
+    if (!resolved) continue
+    rho.applyGate(resolved.gate, resolved.targets, resolved.controls)
+    for (const qubit of [...resolved.controls, ...resolved.targets]) rho.applyNoise(noiseModel, qubit)
+  }
+
+  return rho
+}
+
+// Final measurement distribution under the noise model, including readout error
+export function getNoisyProbabilities(
+  numQubits: number,
+  operations: GateOperation[],
+  noiseModel: NoiseModel,
+): number[] {
+  const rho = simulateDensityMatrix(numQubits, operations, noiseModel)
+  return applyReadoutError(rho.probabilities(), numQubits, noiseModel.readoutError)
+}
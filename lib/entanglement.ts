@@ -0,0 +1,240 @@
+// Entanglement measures: partial trace, von Neumann entropy, concurrence and mutual information.
+// Entropies are in bits, so a Bell pair has one bit of entanglement entropy and two of mutual information.
+import { DensityMatrix, MAX_DENSITY_MATRIX_QUBITS } from "@/lib/density-matrix"
+import type { QuantumState } from "@/lib/quantum-simulator"
+import { StateVector } from "@/lib/state-vector"
+
+export interface PairCorrelation {
+  qubits: [number, number]
+  concurrence: number // 0 for separable pairs, 1 for a Bell pair
+  mutualInformation: number // bits, 0 to 2
+}
+
+export interface EntanglementSummary {
+  entropies: number[] // entanglement entropy of each qubit with the rest, in bits
+  purities: number[] // Tr(ρ²) of each single-qubit reduced state
+  pairs: PairCorrelation[]
+}
+
+const EIGEN_TOLERANCE = 1e-12
+
+const toStateVector = (state: QuantumState | StateVector) =>
+  state instanceof StateVector ? state : StateVector.fromComplexArray(state)
+
+// Trace out every qubit not in `keep`; the reduced register lists the kept qubits in the given order
+export function partialTrace(state: QuantumState | StateVector | DensityMatrix, keep: number[]): DensityMatrix {
+  const numQubits = state instanceof DensityMatrix ? state.numQubits : toStateVector(state).numQubits
+  if (keep.length === 0 || keep.length > MAX_DENSITY_MATRIX_QUBITS) {
+    throw new Error(`A reduced state keeps 1-${MAX_DENSITY_MATRIX_QUBITS} qubits, got ${keep.length}`)
+  }
+  if (new Set(keep).size !== keep.length || keep.some((q) => q < 0 || q >= numQubits)) {
+    throw new Error("Kept qubits must be distinct and within range")
+  }
+
+  // Full-register index bits of each reduced basis state
+  const bits = keep.map((q) => 1 << (numQubits - 1 - q))
+  const keepMask = bits.reduce((mask, bit) => mask | bit, 0)
+  const dimension = 1 << keep.length
+  const offsets = Array.from({ length: dimension }, (_, a) =>
+    bits.reduce((offset, bit, k) => ((a >> (keep.length - 1 - k)) & 1 ? offset | bit : offset), 0),
+  )
+  const data = new Float64Array(dimension * dimension * 2)
+  const size = 1 << numQubits
+  const amplitudes = state instanceof DensityMatrix ? null : toStateVector(state).amplitudes
+
+  for (let rest = 0; rest < size; rest++) {
+    if (rest & keepMask) continue
+    for (let row = 0; row < dimension; row++) {
+      for (let col = 0; col < dimension; col++) {
+        const [i, j] = [offsets[row] | rest, offsets[col] | rest]
+        const index = 2 * (row * dimension + col)
+        if (!amplitudes) {
+          const { real, imag } = (state as DensityMatrix).entry(i, j)
+          data[index] += real
+          data[index + 1] += imag
+        } else {
+          // ψ_i · conj(ψ_j)
+          const [ar, ai, br, bi] = [amplitudes[2 * i], amplitudes[2 * i + 1], amplitudes[2 * j], amplitudes[2 * j + 1]]
+          data[index] += ar * br + ai * bi
+          data[index + 1] += ai * br - ar * bi
+        }
+      }
+    }
+  }
+  return new DensityMatrix(keep.length, data)
+}
+
+// Eigenvalues and eigenvectors of a Hermitian matrix (interleaved, row-major) by complex Jacobi rotations.
+// Vector k is column k of `vectors`.
+export function hermitianEigen(matrix: Float64Array, dimension: number): { values: number[]; vectors: Float64Array } {
+  const a = matrix.slice()
+  const v = new Float64Array(dimension * dimension * 2)
+  for (let i = 0; i < dimension; i++) v[2 * (i * dimension + i)] = 1
+  const at = (row: number, col: number) => 2 * (row * dimension + col)
+
+  // Multiply column j of m by (cr + i·ci)
+  const scaleColumn = (m: Float64Array, j: number, cr: number, ci: number) => {
+    for (let i = 0; i < dimension; i++) {
+      const [re, im] = [m[at(i, j)], m[at(i, j) + 1]]
+      m[at(i, j)] = re * cr - im * ci
+      m[at(i, j) + 1] = re * ci + im * cr
+    }
+  }
+  // Columns p, q of m → c·p - s·q, s·p + c·q
+  const rotateColumns = (m: Float64Array, p: number, q: number, c: number, s: number) => {
+    for (let i = 0; i < dimension; i++) {
+      for (let part = 0; part < 2; part++) {
+        const [mp, mq] = [m[at(i, p) + part], m[at(i, q) + part]]
+        m[at(i, p) + part] = c * mp - s * mq
+        m[at(i, q) + part] = s * mp + c * mq
+      }
+    }
+  }
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0
+    for (let p = 0; p < dimension; p++) {
+      for (let q = p + 1; q < dimension; q++) off += a[at(p, q)] ** 2 + a[at(p, q) + 1] ** 2
+    }
+    if (off < EIGEN_TOLERANCE ** 2) break
+
+    for (let p = 0; p < dimension; p++) {
+      for (let q = p + 1; q < dimension; q++) {
+        const magnitude = Math.hypot(a[at(p, q)], a[at(p, q) + 1])
+        if (magnitude < EIGEN_TOLERANCE / dimension) continue
+        // Rephase basis vector q so A[p][q] becomes real, then apply a real Jacobi rotation
+        const [cr, ci] = [a[at(p, q)] / magnitude, -a[at(p, q) + 1] / magnitude]
+        scaleColumn(a, q, cr, ci)
+        for (let j = 0; j < dimension; j++) {
+          const [re, im] = [a[at(q, j)], a[at(q, j) + 1]]
+          a[at(q, j)] = re * cr + im * ci
+          a[at(q, j) + 1] = im * cr - re * ci
+        }
+        scaleColumn(v, q, cr, ci)
+
+        const theta = 0.5 * Math.atan2(2 * a[at(p, q)], a[at(q, q)] - a[at(p, p)])
+        const [c, s] = [Math.cos(theta), Math.sin(theta)]
+        rotateColumns(a, p, q, c, s)
+        for (let j = 0; j < dimension; j++) {
+          for (let part = 0; part < 2; part++) {
+            const [mp, mq] = [a[at(p, j) + part], a[at(q, j) + part]]
+            a[at(p, j) + part] = c * mp - s * mq
+            a[at(q, j) + part] = s * mp + c * mq
+          }
+        }
+        rotateColumns(v, p, q, c, s)
+      }
+    }
+  }
+
+  return { values: Array.from({ length: dimension }, (_, i) => a[at(i, i)]), vectors: v }
+}
+
+// Bloch vector (⟨X⟩, ⟨Y⟩, ⟨Z⟩) of one qubit from its reduced state; its length is 1 for a pure qubit
+// and shrinks towards 0 as the qubit becomes mixed, e.g. by entanglement with the rest
+export function blochVector(
+  state: QuantumState | StateVector | DensityMatrix,
+  qubit: number,
+): { x: number; y: number; z: number; length: number } {
+  const rho = partialTrace(state, [qubit])
+  const offDiagonal = rho.entry(1, 0)
+  const x = 2 * offDiagonal.real
+  const y = 2 * offDiagonal.imag
+  const z = rho.entry(0, 0).real - rho.entry(1, 1).real
+  return { x, y, z, length: Math.sqrt(x * x + y * y + z * z) }
+}
+
+// S(ρ) = -Σ λ log₂ λ
+export function vonNeumannEntropy(rho: DensityMatrix): number {
+  return hermitianEigen(rho.data, rho.dimension).values.reduce(
+    (entropy, value) => (value > EIGEN_TOLERANCE ? entropy - value * Math.log2(value) : entropy),
+    0,
+  )
+}
+
+// Entropy of a subsystem of a pure state: how entangled it is with the rest
+export function entanglementEntropy(state: QuantumState | StateVector, subsystem: number[]): number {
+  return vonNeumannEntropy(partialTrace(state, subsystem))
+}
+
+// I(A:B) = S(A) + S(B) - S(AB)
+export function mutualInformation(state: QuantumState | StateVector | DensityMatrix, a: number[], b: number[]): number {
+  const joint = vonNeumannEntropy(partialTrace(state, [...a, ...b]))
+  return Math.max(0, vonNeumannEntropy(partialTrace(state, a)) + vonNeumannEntropy(partialTrace(state, b)) - joint)
+}
+
+// Complex matrix product of two interleaved square matrices
+export function multiplyMatrices(x: Float64Array, y: Float64Array, dimension: number): Float64Array {
+  const result = new Float64Array(dimension * dimension * 2)
+  for (let i = 0; i < dimension; i++) {
+    for (let k = 0; k < dimension; k++) {
+      const [xr, xi] = [x[2 * (i * dimension + k)], x[2 * (i * dimension + k) + 1]]
+      if (xr === 0 && xi === 0) continue
+      for (let j = 0; j < dimension; j++) {
+        const [yr, yi] = [y[2 * (k * dimension + j)], y[2 * (k * dimension + j) + 1]]
+        result[2 * (i * dimension + j)] += xr * yr - xi * yi
+        result[2 * (i * dimension + j) + 1] += xr * yi + xi * yr
+      }
+    }
+  }
+  return result
+}
+
+// Square root of a positive semidefinite Hermitian matrix, V·diag(√λ)·V†
+export function hermitianSqrt(matrix: Float64Array, dimension: number): Float64Array {
+  const { values, vectors } = hermitianEigen(matrix, dimension)
+  const root = new Float64Array(dimension * dimension * 2)
+  for (let k = 0; k < dimension; k++) {
+    if (values[k] <= EIGEN_TOLERANCE) continue
+    const weight = Math.sqrt(values[k])
+    for (let i = 0; i < dimension; i++) {
+      const [ar, ai] = [vectors[2 * (i * dimension + k)], vectors[2 * (i * dimension + k) + 1]]
+      for (let j = 0; j < dimension; j++) {
+        const [br, bi] = [vectors[2 * (j * dimension + k)], vectors[2 * (j * dimension + k) + 1]]
+        root[2 * (i * dimension + j)] += weight * (ar * br + ai * bi)
+        root[2 * (i * dimension + j) + 1] += weight * (ai * br - ar * bi)
+      }
+    }
+  }
+  return root
+}
+
+// Wootters concurrence of a two-qubit state: max(0, λ1 - λ2 - λ3 - λ4) for the decreasing square roots
+// of the eigenvalues of √ρ ρ̃ √ρ, with ρ̃ = (Y⊗Y) ρ* (Y⊗Y)
+export function concurrence(rho: DensityMatrix): number {
+  if (rho.numQubits !== 2) throw new Error(`Concurrence is defined for two qubits, got ${rho.numQubits}`)
+  const root = hermitianSqrt(rho.data, 4)
+  // Y⊗Y is anti-diagonal with -1 at |00⟩, |11⟩ and +1 at |01⟩, |10⟩, so ρ̃_ij = s_i s_j ρ*_(3-i)(3-j)
+  const flipped = new Float64Array(32)
+  for (let i = 0; i < 4; i++) {
+    for (let j = 0; j < 4; j++) {
+      const sign = (i === 0 || i === 3) === (j === 0 || j === 3) ? 1 : -1
+      flipped[2 * (i * 4 + j)] = sign * rho.data[2 * ((3 - i) * 4 + (3 - j))]
+      flipped[2 * (i * 4 + j) + 1] = -sign * rho.data[2 * ((3 - i) * 4 + (3 - j)) + 1]
+    }
+  }
+  const product = multiplyMatrices(multiplyMatrices(root, flipped, 4), root, 4)
+  const lambdas = hermitianEigen(product, 4)
+    .values.map((value) => (value > EIGEN_TOLERANCE ? Math.sqrt(value) : 0))
+    .sort((x, y) => y - x)
+  return Math.max(0, lambdas[0] - lambdas[1] - lambdas[2] - lambdas[3])
+}
+
+// Single-qubit entropies and purities with every pair's concurrence and mutual information
+export function entanglementSummary(state: QuantumState | StateVector): EntanglementSummary {
+  const vector = toStateVector(state)
+  const singles = Array.from({ length: vector.numQubits }, (_, q) => partialTrace(vector, [q]))
+  const entropies = singles.map(vonNeumannEntropy)
+  const pairs: PairCorrelation[] = []
+  for (let a = 0; a < vector.numQubits; a++) {
+    for (let b = a + 1; b < vector.numQubits; b++) {
+      const pair = partialTrace(vector, [a, b])
+      pairs.push({
+        qubits: [a, b],
+        concurrence: concurrence(pair),
+        mutualInformation: Math.max(0, entropies[a] + entropies[b] - vonNeumannEntropy(pair)),
+      })
+    }
+  }
+  return { entropies, purities: singles.map((rho) => rho.purity()), pairs }
+}
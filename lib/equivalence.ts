@@ -0,0 +1,175 @@
+// Circuit equivalence: two circuits are equivalent when they apply the same unitary, optionally up to
+// a global phase. Small circuits are compared column by column; larger ones on seeded random states,
+// where different unitaries disagree with probability 1.
+import type { Circuit } from "@/lib/circuit"
+import { isDynamic } from "@/lib/circuit-runner"
+import { resolveOperation } from "@/lib/quantum-simulator"
+import { SeededRandom } from "@/lib/random"
+import { StateVector } from "@/lib/state-vector"
+
+export interface EquivalenceOptions {
+  upToGlobalPhase?: boolean // default true
+  tolerance?: number // allowed infidelity, default 1e-8
+  maxUnitaryQubits?: number // compare full unitaries up to this many qubits (default 8)
+  samples?: number // random input states for larger circuits (default 12)
+  seed?: number // seed for the random states (default 1)
+}
+
+// An input on which the circuits disagree, with what each makes of it
+export interface Counterexample {
+  description: string // e.g. "|01⟩", "(|00⟩ + |11⟩)/√2" or "random state #3 (seed 1)"
+  input: StateVector
+  outputA: StateVector
+  outputB: StateVector
+  fidelity: number // |⟨outputA|outputB⟩|²
+  phase: number // arg⟨outputA|outputB⟩
+}
+
+export interface EquivalenceResult {
+  equivalent: boolean
+  method: "unitary" | "random-states" | "structure"
+  checkedStates: number
+  globalPhase?: number // phase of B relative to A, when they agree up to it
+  counterexample?: Counterexample
+  reason?: string // why structurally different circuits were not compared state by state
+}
+
+// ⟨a|b⟩ of two interleaved amplitude arrays
+function innerProduct(a: Float64Array, b: Float64Array): { real: number; imag: number } {
+  let real = 0
+  let imag = 0
+  for (let i = 0; i < a.length; i += 2) {
+    real += a[i] * b[i] + a[i + 1] * b[i + 1]
+    imag += a[i] * b[i + 1] - a[i + 1] * b[i]
+  }
+  return { real, imag }
+}
+
+function applyCircuit(circuit: Circuit, input: StateVector): StateVector {
+  const state = input.clone()
+  for (const operation of circuit.operations) {
+    const resolved = resolveOperation(operation)
+    if (resolved) state.applyMultiQubitGate(resolved.gate, resolved.targets, resolved.controls)
+  }
+  return state
+}
+
+const basisLabel = (index: number, numQubits: number) => `|${index.toString(2).padStart(numQubits, "0")}⟩`
+
+// Phase difference wrapped to (-π, π]
+function phaseGap(a: number, b: number): number {
+  const gap = a - b
+  return Math.atan2(Math.sin(gap), Math.cos(gap))
+}
+
+// Haar-like random state from normally distributed amplitudes (Box–Muller)
+function randomState(numQubits: number, rng: SeededRandom): StateVector {
+  const amplitudes = new Float64Array(2 << numQubits)
+  let norm = 0
+  for (let i = 0; i < amplitudes.length; i += 2) {
+    const radius = Math.sqrt(-2 * Math.log(1 - rng.next()))
+    const angle = 2 * Math.PI * rng.next()
+    amplitudes[i] = radius * Math.cos(angle)
+    amplitudes[i + 1] = radius * Math.sin(angle)
+    norm += amplitudes[i] ** 2 + amplitudes[i + 1] ** 2
+  }
+  const scale = 1 / Math.sqrt(norm)
+  for (let i = 0; i < amplitudes.length; i++) amplitudes[i] *= scale
+  return new StateVector(numQubits, amplitudes)
+}
+
+// Measurements in a static circuit all come last, so they must match as a set
+const measurementKey = (circuit: Circuit) =>
+  circuit.operations
+    .filter((operation) => operation.type === "measure")
+    .map((operation) => {
+      const bit = operation.classicalBit
+      return `${operation.target}>${bit ? `${bit.register}[${bit.index}]` : ""}`
+    })
+    .sort()
+    .join(",")
+
+// Compare what two circuits do to every input. Measurements, which must come last, are compared
+// as qubit-to-bit assignments; mid-circuit measurements, resets and conditions are not supported.
+export function areEquivalent(a: Circuit, b: Circuit, options: EquivalenceOptions = {}): EquivalenceResult {
+  const upToGlobalPhase = options.upToGlobalPhase ?? true
+  const tolerance = options.tolerance ?? 1e-8
+  const numQubits = a.numQubits
+  const structural = (reason: string): EquivalenceResult => ({
+    equivalent: false,
+    method: "structure",
+    checkedStates: 0,
+    reason,
+  })
+
+  if (a.numQubits !== b.numQubits) return structural(`Qubit counts differ: ${a.numQubits} and ${b.numQubits}`)
+  if (isDynamic(a) || isDynamic(b)) {
+    throw new Error("Equivalence needs static circuits: no mid-circuit measurements, resets or conditions")
+  }
+  if (measurementKey(a) !== measurementKey(b)) return structural("The circuits measure different qubits or bits")
+
+  const useUnitary = numQubits <= (options.maxUnitaryQubits ?? 8)
+  const seed = options.seed ?? 1
+  const rng = new SeededRandom(seed)
+  const inputs: Array<() => { input: StateVector; description: string }> = useUnitary
+    ? Array.from({ length: 1 << numQubits }, (_, index) => () => {
+        const amplitudes = new Float64Array(2 << numQubits)
+        amplitudes[2 * index] = 1
+        return { input: new StateVector(numQubits, amplitudes), description: basisLabel(index, numQubits) }
+      })
+    : Array.from({ length: options.samples ?? 12 }, (_, sample) => () => ({
+        input: randomState(numQubits, rng),
+        description: `random state #${sample + 1} (seed ${seed})`,
+      }))
+
+  const counterexample = (input: StateVector, description: string): Counterexample => {
+    const outputA = applyCircuit(a, input)
+    const outputB = applyCircuit(b, input)
+    const overlap = innerProduct(outputA.amplitudes, outputB.amplitudes)
+    return {
+      description,
+      input,
+      outputA,
+      outputB,
+      fidelity: overlap.real ** 2 + overlap.imag ** 2,
+      phase: Math.atan2(overlap.imag, overlap.real),
+    }
+  }
+
+  let reference: { phase: number; input: StateVector; description: string } | null = null
+  for (let i = 0; i < inputs.length; i++) {
+    const { input, description } = inputs[i]()
+    const found = counterexample(input, description)
+    const result = (equivalent: boolean, example?: Counterexample): EquivalenceResult => ({
+      equivalent,
+      method: useUnitary ? "unitary" : "random-states",
+      checkedStates: i + 1,
+      ...(example ? { counterexample: example } : {}),
+    })
+
+    if (found.fidelity < 1 - tolerance) return result(false, found)
+    if (!upToGlobalPhase && Math.abs(found.phase) > Math.sqrt(tolerance)) return result(false, found)
+
+    if (!reference) {
+      reference = { phase: found.phase, input, description }
+    } else if (Math.abs(phaseGap(found.phase, reference.phase)) > Math.sqrt(tolerance)) {
+      // Each input only picks up a phase, but not the same one: their superposition tells them apart
+      if (!useUnitary) return result(false, found)
+      const amplitudes = new Float64Array(2 << numQubits)
+      for (let k = 0; k < amplitudes.length; k++) {
+        amplitudes[k] = (reference.input.amplitudes[k] + input.amplitudes[k]) / Math.SQRT2
+      }
+      return result(
+        false,
+        counterexample(new StateVector(numQubits, amplitudes), `(${reference.description} + ${description})/√2`),
+      )
+    }
+  }
+
+  return {
+    equivalent: true,
+    method: useUnitary ? "unitary" : "random-states",
+    checkedStates: inputs.length,
+    globalPhase: reference ? phaseGap(reference.phase, 0) : 0,
+  }
+}
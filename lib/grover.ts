@@ -0,0 +1,222 @@
+// Grover search: phase oracles marking bitstrings (listed, or the satisfying assignments of a boolean formula),
+// the diffusion operator, and the iteration count that maximizes the chance of reading a marked state.
+// Bitstrings are written q0 first; formula variable xi is qubit i.
+import { Circuit } from "@/lib/circuit"
+import { resolveOperation, type GateOperation } from "@/lib/quantum-simulator"
+import { StateVector } from "@/lib/state-vector"
+
+export const MIN_GROVER_QUBITS = 2
+export const MAX_GROVER_QUBITS = 8
+
+export interface GroverOracle {
+  numQubits: number
+  marked: number[] // basis-state indices the oracle flips the phase of
+  description: string
+}
+
+export interface GroverOptions {
+  iterations?: number // the optimal count by default
+  measure?: boolean // measure every qubit at the end (default true)
+}
+
+function checkQubits(numQubits: number): void {
+  if (!Number.isInteger(numQubits) || numQubits < MIN_GROVER_QUBITS || numQubits > MAX_GROVER_QUBITS) {
+    throw new Error(`Grover search supports ${MIN_GROVER_QUBITS}-${MAX_GROVER_QUBITS} qubits, got ${numQubits}`)
+  }
+}
+
+// Oracle marking the given bitstrings, e.g. ["101", "011"]
+export function markedOracle(bitstrings: string[], numQubits = bitstrings[0]?.length ?? 0): GroverOracle {
+  checkQubits(numQubits)
+  const marked = new Set<number>()
+  for (const bitstring of bitstrings) {
+    if (bitstring.length !== numQubits || !/^[01]+$/.test(bitstring)) {
+      throw new Error(`"${bitstring}" is not a ${numQubits}-bit string of 0s and 1s`)
+    }
+    marked.add(parseInt(bitstring, 2))
+  }
+  if (marked.size === 0) throw new Error("Mark at least one bitstring")
+  return {
+    numQubits,
+    marked: Array.from(marked).sort((a, b) => a - b),
+    description: `marks ${Array.from(new Set(bitstrings)).join(", ")}`,
+  }
+}
+
+type Formula = (bits: number[]) => boolean
+
+// Recursive-descent parser; precedence from loosest: or (|, +), xor (^), and (&, *, juxtaposition), not (!, ~, ')
+function parseFormula(text: string, numQubits: number): Formula {
+  const tokens = text.match(/x\d+|[()!~&|^*+']|\b(?:and|or|xor|not)\b|[01]|\S/gi) ?? []
+  let position = 0
+  const peek = () => tokens[position]?.toLowerCase()
+  const take = () => tokens[position++]
+
+  const primary = (): Formula => {
+    const token = take()
+    if (token === undefined) throw new Error("The formula ends unexpectedly")
+    const lower = token.toLowerCase()
+    let result: Formula
+    if (lower === "!" || lower === "~" || lower === "not") {
+      const inner = primary()
+      result = (bits) => !inner(bits)
+    } else if (token === "(") {
+      result = or()
+      if (take() !== ")") throw new Error("Missing closing parenthesis in the formula")
+    } else if (token === "0" || token === "1") {
+      const value = token === "1"
+      result = () => value
+    } else if (/^x\d+$/i.test(token)) {
+      const qubit = Number(token.slice(1))
+      if (qubit >= numQubits) throw new Error(`Variable ${token} is out of range for ${numQubits} qubits`)
+      result = (bits) => bits[qubit] === 1
+    } else {
+      throw new Error(`Unexpected "${token}" in the formula; use x0…x${numQubits - 1}, &, |, ^, ! and parentheses`)
+    }
+    // Postfix prime negates, as in x0'
+    while (peek() === "'") {
+      take()
+      const inner = result
+      result = (bits) => !inner(bits)
+    }
+    return result
+  }
+  const and = (): Formula => {
+    let left = primary()
+    while (peek() !== undefined && !["|", "+", "^", ")", "or", "xor"].includes(peek())) {
+      if (["&", "*", "and"].includes(peek())) take()
+      const [a, b] = [left, primary()]
+      left = (bits) => a(bits) && b(bits)
+    }
+    return left
+  }
+  const xor = (): Formula => {
+    let left = and()
+    while (peek() === "^" || peek() === "xor") {
+      take()
+      const [a, b] = [left, and()]
+      left = (bits) => a(bits) !== b(bits)
+    }
+    return left
+  }
+  const or = (): Formula => {
+    let left = xor()
+    while (peek() === "|" || peek() === "+" || peek() === "or") {
+      take()
+      const [a, b] = [left, xor()]
+      left = (bits) => a(bits) || b(bits)
+    }
+    return left
+  }
+
+  const formula = or()
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}" in the formula`)
+  return formula
+}
+
+// Oracle marking the satisfying assignments of a boolean formula, e.g. "(x0 | x1) & !x2"
+export function formulaOracle(formula: string, numQubits: number): GroverOracle {
+  checkQubits(numQubits)
+  if (!formula.trim()) throw new Error("Enter a boolean formula, e.g. (x0 | x1) & !x2")
+  const evaluate = parseFormula(formula, numQubits)
+  const marked: number[] = []
+  for (let index = 0; index < 1 << numQubits; index++) {
+    const bits = Array.from({ length: numQubits }, (_, q) => (index >> (numQubits - 1 - q)) & 1)
+    if (evaluate(bits)) marked.push(index)
+  }
+  if (marked.length === 0) throw new Error("The formula is unsatisfiable, so there is nothing to search for")
+  return { numQubits, marked, description: `marks solutions of ${formula.trim()}` }
+}
+
+// Z on |1…1⟩, controlled on every other qubit
+const allOnesPhase = (numQubits: number): GateOperation => ({
+  type: "controlled",
+  gate: "Z",
+  controls: Array.from({ length: numQubits - 1 }, (_, q) => q),
+  target: numQubits - 1,
+})
+
+const layer = (gate: string, qubits: number[]): GateOperation[] =>
+  qubits.map((target) => ({ type: "single", gate, target }))
+
+// Flip the phase of each marked state: X the qubits that are 0 in it, apply a multi-controlled Z, undo
+export function oracleOperations(oracle: GroverOracle): GateOperation[] {
+  const { numQubits } = oracle
+  return oracle.marked.flatMap((index) => {
+    const zeros = Array.from({ length: numQubits }, (_, q) => q).filter((q) => !((index >> (numQubits - 1 - q)) & 1))
+    return [...layer("X", zeros), allOnesPhase(numQubits), ...layer("X", zeros)]
+  })
+}
+
+// Inversion about the mean, 2|s⟩⟨s| - I up to a global phase
+export function diffusionOperations(numQubits: number): GateOperation[] {
+  const qubits = Array.from({ length: numQubits }, (_, q) => q)
+  return [
+    ...layer("H", qubits),
+    ...layer("X", qubits),
+    allOnesPhase(numQubits),
+    ...layer("X", qubits),
+    ...layer("H", qubits),
+  ]
+}
+
+// Rotation angle per iteration: sin θ = √(M / N)
+const groverAngle = (numQubits: number, markedCount: number) => Math.asin(Math.sqrt(markedCount / (1 << numQubits)))
+
+// sin²((2k + 1) θ), the chance of reading a marked state after k iterations
+export function successProbability(numQubits: number, markedCount: number, iterations: number): number {
+  return Math.sin((2 * iterations + 1) * groverAngle(numQubits, markedCount)) ** 2
+}
+
+// The k closest to π / 4θ - 1/2 that maximizes the success probability
+export function optimalIterations(numQubits: number, markedCount: number): number {
+  const ideal = Math.PI / (4 * groverAngle(numQubits, markedCount)) - 0.5
+  const candidates = [Math.max(0, Math.floor(ideal)), Math.max(0, Math.ceil(ideal))]
+  return candidates.reduce((best, k) =>
+    successProbability(numQubits, markedCount, k) > successProbability(numQubits, markedCount, best) + 1e-12 ? k : best,
+  )
+}
+
+export function groverCircuit(oracle: GroverOracle, options: GroverOptions = {}): Circuit {
+  const { numQubits } = oracle
+  const iterations = options.iterations ?? optimalIterations(numQubits, oracle.marked.length)
+  if (!Number.isInteger(iterations) || iterations < 0) {
+    throw new Error(`Iterations must be a non-negative integer, got ${iterations}`)
+  }
+  const qubits = Array.from({ length: numQubits }, (_, q) => q)
+  const iteration = [...oracleOperations(oracle), ...diffusionOperations(numQubits)]
+  const operations: GateOperation[] = [...layer("H", qubits)]
+  for (let k = 0; k < iterations; k++) operations.push(...iteration)
+  if (options.measure ?? true) operations.push(...qubits.map((target): GateOperation => ({ type: "measure", target })))
+  return new Circuit(numQubits, operations)
+}
+
+// Simulated probability of reading a marked state after 0…maxIterations iterations
+export function successCurve(oracle: GroverOracle, maxIterations: number): number[] {
+  const { numQubits } = oracle
+  const state = new StateVector(numQubits)
+  const apply = (operations: GateOperation[]) => {
+    for (const operation of operations) {
+      const resolved = resolveOperation(operation)
+      if (resolved) state.applyMultiQubitGate(resolved.gate, resolved.targets, resolved.controls)
+    }
+  }
+  const markedProbability = () => {
+    const probabilities = state.probabilities()
+    return oracle.marked.reduce((total, index) => total + probabilities[index], 0)
+  }
+
+  apply(
+    layer(
+      "H",
+      Array.from({ length: numQubits }, (_, q) => q),
+    ),
+  )
+  const iteration = [...oracleOperations(oracle), ...diffusionOperations(numQubits)]
+  const curve = [markedProbability()]
+  for (let k = 1; k <= maxIterations; k++) {
+    apply(iteration)
+    curve.push(markedProbability())
+  }
+  return curve
+}
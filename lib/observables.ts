@@ -0,0 +1,301 @@
+// Observables written as weighted sums of Pauli strings, e.g. "0.5*ZZ - 0.3*XI" or "0.5*Z0*Z1 - 0.3*X0".
+// Pauli strings list one operator per qubit, q0 first, matching the bitstring convention.
+import { sampleIndex } from "@/lib/circuit-runner"
+import { gates, type QuantumState } from "@/lib/quantum-simulator"
+import { SeededRandom, randomSeed } from "@/lib/random"
+import { StateVector } from "@/lib/state-vector"
+
+export type PauliOperator = "I" | "X" | "Y" | "Z"
+
+export interface PauliTerm {
+  coefficient: number
+  paulis: string // one of I, X, Y, Z per qubit, q0 first
+}
+
+export interface PauliSum {
+  numQubits: number
+  terms: PauliTerm[]
+}
+
+// A set of qubit-wise commuting terms, read out together in one measurement basis
+export interface MeasurementGroup {
+  basis: string // X, Y or Z per measured qubit, I where no term in the group acts
+  terms: number[] // indices into PauliSum.terms
+}
+
+export interface EstimateOptions {
+  shots?: number // per measurement group (default 1000)
+  seed?: number // a fresh seed is drawn (and reported) when omitted
+}
+
+export interface ExpectationEstimate {
+  value: number
+  standardError: number
+  shots: number // total over all groups
+  seed: number
+  groups: Array<MeasurementGroup & { value: number; standardError: number }>
+}
+
+const DENSE_TERM = /^[IXYZ]+$/
+const INDEXED_TERM = /^[IXYZ]\d+(\s*\*?\s*[IXYZ]\d+)*$/
+const NUMBER = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i
+
+// Parse a weighted Pauli sum. Terms are dense strings ("XZI") or indexed factors ("X0 Z1", "X0*Z1"), each
+// with an optional coefficient; a bare number is a multiple of the identity. Like terms are combined.
+export function parsePauliSum(text: string, numQubits?: number): PauliSum {
+  const pieces = text
+    .trim()
+    .split(/(?<![eE])(?=[+-])/)
+    .filter((piece) => piece.trim())
+  if (pieces.length === 0) throw new Error("Expected at least one Pauli term, e.g. 0.5*ZZ - 0.3*XI")
+
+  const parsed: Array<{ coefficient: number; factors: Map<number, PauliOperator> | string }> = []
+  for (const piece of pieces) {
+    let rest = piece.trim()
+    let coefficient = 1
+    if (rest[0] === "+" || rest[0] === "-") {
+      if (rest[0] === "-") coefficient = -1
+      rest = rest.slice(1).trim()
+    }
+    const number = rest.match(NUMBER)
+    if (number) {
+      coefficient *= Number(number[0])
+      rest = rest
+        .slice(number[0].length)
+        .trim()
+        .replace(/^\*\s*/, "")
+    }
+    const term = rest.toUpperCase()
+
+    if (!term) {
+      if (!number) throw new Error(`Expected a term after "${piece.trim()}"`)
+      parsed.push({ coefficient, factors: new Map() })
+    } else if (DENSE_TERM.test(term)) {
+      parsed.push({ coefficient, factors: term })
+    } else if (INDEXED_TERM.test(term)) {
+      const factors = new Map<number, PauliOperator>()
+      for (const [, operator, index] of term.matchAll(/([IXYZ])(\d+)/g)) {
+        if (factors.has(Number(index))) throw new Error(`Qubit ${index} appears twice in "${rest}"`)
+        factors.set(Number(index), operator as PauliOperator)
+      }
+      parsed.push({ coefficient, factors })
+    } else {
+      throw new Error(`Cannot read Pauli term "${piece.trim()}": use a string like XZI or factors like X0 Z1`)
+    }
+  }
+
+  const widths = parsed.flatMap(({ factors }) =>
+    typeof factors === "string" ? [factors.length] : [Math.max(0, ...Array.from(factors.keys()).map((q) => q + 1))],
+  )
+  const denseWidths = new Set(parsed.flatMap(({ factors }) => (typeof factors === "string" ? [factors.length] : [])))
+  if (denseWidths.size > 1) throw new Error("Pauli strings must all have the same length")
+  const width = numQubits ?? (denseWidths.size ? [...denseWidths][0] : Math.max(1, ...widths))
+  if (denseWidths.size && !denseWidths.has(width)) {
+    throw new Error(`Pauli strings have ${[...denseWidths][0]} letters but the register has ${width} qubits`)
+  }
+  if (Math.max(...widths) > width) throw new Error(`A term acts on a qubit beyond the ${width}-qubit register`)
+
+  const combined = new Map<string, number>()
+  for (const { coefficient, factors } of parsed) {
+    const paulis =
+      typeof factors === "string" ? factors : Array.from({ length: width }, (_, q) => factors.get(q) ?? "I").join("")
+    combined.set(paulis, (combined.get(paulis) ?? 0) + coefficient)
+  }
+  return { numQubits: width, terms: Array.from(combined, ([paulis, coefficient]) => ({ coefficient, paulis })) }
+}
+
+const formatCoefficient = (value: number) => String(Number(value.toPrecision(6)))
+
+export function formatPauliSum(sum: PauliSum): string {
+  return sum.terms
+    .map(({ coefficient, paulis }, i) => {
+      const sign = coefficient < 0 ? (i === 0 ? "-" : " - ") : i === 0 ? "" : " + "
+      return `${sign}${formatCoefficient(Math.abs(coefficient))}*${paulis}`
+    })
+    .join("")
+}
+
+// Interleaved amplitudes of either state representation
+function amplitudesOf(state: QuantumState | StateVector): Float64Array {
+  return state instanceof StateVector ? state.amplitudes : StateVector.fromComplexArray(state).amplitudes
+}
+
+function checkWidth(amplitudes: Float64Array, sum: PauliSum): number {
+  const numQubits = Math.round(Math.log2(amplitudes.length / 2))
+  if (numQubits !== sum.numQubits) {
+    throw new Error(`The observable acts on ${sum.numQubits} qubits but the state has ${numQubits}`)
+  }
+  return numQubits
+}
+
+// P|i⟩ = i^(#Y) · (-1)^popcount(i & signMask) |i ^ flipMask⟩
+function pauliMasks(paulis: string) {
+  let flipMask = 0
+  let signMask = 0
+  let yCount = 0
+  for (let q = 0; q < paulis.length; q++) {
+    const bit = 1 << (paulis.length - 1 - q)
+    if (paulis[q] === "X" || paulis[q] === "Y") flipMask |= bit
+    if (paulis[q] === "Z" || paulis[q] === "Y") signMask |= bit
+    if (paulis[q] === "Y") yCount++
+  }
+  return { flipMask, signMask, yCount }
+}
+
+const parity = (value: number) => {
+  let bits = value
+  let result = 0
+  while (bits) {
+    result ^= 1
+    bits &= bits - 1
+  }
+  return result
+}
+
+// ⟨ψ|P|ψ⟩ for each term, without building any matrices
+export function termExpectations(state: QuantumState | StateVector, sum: PauliSum): number[] {
+  const amplitudes = amplitudesOf(state)
+  checkWidth(amplitudes, sum)
+  return sum.terms.map(({ paulis }) => {
+    const { flipMask, signMask, yCount } = pauliMasks(paulis)
+    // Re(i^yCount · z) for z = Σ conj(ψ_{i^flip}) (-1)^… ψ_i
+    let real = 0
+    let imag = 0
+    for (let i = 0; i < amplitudes.length / 2; i++) {
+      const j = i ^ flipMask
+      const sign = parity(i & signMask) ? -1 : 1
+      const [ar, ai, br, bi] = [amplitudes[2 * j], amplitudes[2 * j + 1], amplitudes[2 * i], amplitudes[2 * i + 1]]
+      real += sign * (ar * br + ai * bi)
+      imag += sign * (ar * bi - ai * br)
+    }
+    return [real, -imag, -real, imag][yCount % 4]
+  })
+}
+
+// ⟨ψ|H|ψ⟩
+export function expectationValue(state: QuantumState | StateVector, sum: PauliSum): number {
+  return termExpectations(state, sum).reduce((total, value, i) => total + sum.terms[i].coefficient * value, 0)
+}
+
+// ⟨H²⟩ - ⟨H⟩², with ⟨H²⟩ = ‖H|ψ⟩‖² since H is Hermitian
+export function pauliVariance(state: QuantumState | StateVector, sum: PauliSum): number {
+  const amplitudes = amplitudesOf(state)
+  checkWidth(amplitudes, sum)
+  const result = new Float64Array(amplitudes.length)
+  for (const { coefficient, paulis } of sum.terms) {
+    const { flipMask, signMask, yCount } = pauliMasks(paulis)
+    // i^yCount as (re, im)
+    const [pr, pi] = [
+      [1, 0],
+      [0, 1],
+      [-1, 0],
+      [0, -1],
+    ][yCount % 4]
+    for (let i = 0; i < amplitudes.length / 2; i++) {
+      const j = i ^ flipMask
+      const factor = parity(i & signMask) ? -coefficient : coefficient
+      const [re, im] = [amplitudes[2 * i], amplitudes[2 * i + 1]]
+      result[2 * j] += factor * (pr * re - pi * im)
+      result[2 * j + 1] += factor * (pr * im + pi * re)
+    }
+  }
+  const squared = result.reduce((total, value) => total + value * value, 0)
+  return Math.max(0, squared - expectationValue(state, sum) ** 2)
+}
+
+// Dense matrix of the sum (interleaved, row-major), for exact diagonalization of small observables
+export function pauliSumMatrix(sum: PauliSum): Float64Array {
+  const dimension = 1 << sum.numQubits
+  const matrix = new Float64Array(2 * dimension * dimension)
+  for (const { coefficient, paulis } of sum.terms) {
+    const { flipMask, signMask, yCount } = pauliMasks(paulis)
+    const [pr, pi] = [
+      [1, 0],
+      [0, 1],
+      [-1, 0],
+      [0, -1],
+    ][yCount % 4]
+    for (let col = 0; col < dimension; col++) {
+      const entry = 2 * ((col ^ flipMask) * dimension + col)
+      const factor = parity(col & signMask) ? -coefficient : coefficient
+      matrix[entry] += factor * pr
+      matrix[entry + 1] += factor * pi
+    }
+  }
+  return matrix
+}
+
+// Greedy qubit-wise commuting grouping, largest coefficients first. Identity terms need no measurement.
+export function groupMeasurements(sum: PauliSum): MeasurementGroup[] {
+  const groups: MeasurementGroup[] = []
+  const order = sum.terms
+    .map((term, index) => ({ term, index }))
+    .filter(({ term }) => /[XYZ]/.test(term.paulis))
+    .sort((a, b) => Math.abs(b.term.coefficient) - Math.abs(a.term.coefficient))
+
+  for (const { term, index } of order) {
+    const compatible = (basis: string) =>
+      [...term.paulis].every((pauli, q) => pauli === "I" || basis[q] === "I" || basis[q] === pauli)
+    const group = groups.find(({ basis }) => compatible(basis))
+    if (group) {
+      group.basis = [...group.basis].map((pauli, q) => (pauli === "I" ? term.paulis[q] : pauli)).join("")
+      group.terms.push(index)
+    } else {
+      groups.push({ basis: term.paulis, terms: [index] })
+    }
+  }
+  return groups
+}
+
+// Estimate ⟨H⟩ as a device would: rotate each group's basis to Z, sample bitstrings and average the
+// eigenvalues of its terms. The standard error combines the per-group sample variances.
+export function estimateExpectation(
+  state: QuantumState | StateVector,
+  sum: PauliSum,
+  options: EstimateOptions = {},
+): ExpectationEstimate {
+  const shots = options.shots ?? 1000
+  if (!Number.isInteger(shots) || shots < 1) throw new Error(`Shots must be a positive integer, got ${shots}`)
+  const amplitudes = amplitudesOf(state)
+  const numQubits = checkWidth(amplitudes, sum)
+  const seed = options.seed ?? randomSeed()
+  const rng = new SeededRandom(seed)
+
+  const constant = sum.terms.reduce((total, term) => (/[XYZ]/.test(term.paulis) ? total : total + term.coefficient), 0)
+  const groups = groupMeasurements(sum).map((group) => {
+    const rotated = new StateVector(numQubits, amplitudes.slice())
+    for (let q = 0; q < numQubits; q++) {
+      if (group.basis[q] === "Y") rotated.applySingleQubitGate(gates.Sdg, q)
+      if (group.basis[q] === "X" || group.basis[q] === "Y") rotated.applySingleQubitGate(gates.H, q)
+    }
+    const cumulative = rotated.probabilities()
+    for (let i = 1; i < cumulative.length; i++) cumulative[i] += cumulative[i - 1]
+
+    const terms = group.terms.map((index) => ({
+      coefficient: sum.terms[index].coefficient,
+      mask: pauliMasks(sum.terms[index].paulis.replace(/[XY]/g, "Z")).signMask,
+    }))
+    let total = 0
+    let totalSquares = 0
+    for (let shot = 0; shot < shots; shot++) {
+      const outcome = sampleIndex(cumulative, rng.next())
+      const value = terms.reduce(
+        (acc, { coefficient, mask }) => acc + (parity(outcome & mask) ? -1 : 1) * coefficient,
+        0,
+      )
+      total += value
+      totalSquares += value * value
+    }
+    const mean = total / shots
+    const sampleVariance = shots > 1 ? Math.max(0, (totalSquares - shots * mean * mean) / (shots - 1)) : 0
+    return { ...group, value: mean, standardError: Math.sqrt(sampleVariance / shots) }
+  })
+
+  return {
+    value: constant + groups.reduce((total, group) => total + group.value, 0),
+    standardError: Math.sqrt(groups.reduce((total, group) => total + group.standardError ** 2, 0)),
+    shots: shots * groups.length,
+    seed,
+    groups,
+  }
+}
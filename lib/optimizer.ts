@@ -0,0 +1,343 @@
+// Circuit optimization: peephole passes that shrink click-built circuits without changing what they
+// compute. Cancellation and merging look past gates that commute with the one being simplified, but
+// never past measurements, resets or the measurements feeding a condition.
+import { Circuit, invertOperation, operationQubits } from "@/lib/circuit"
+import { isDynamic } from "@/lib/circuit-runner"
+import { resolveOperation, type Complex, type GateOperation, type QuantumGate } from "@/lib/quantum-simulator"
+import { StateVector } from "@/lib/state-vector"
+
+export type OptimizationPassName = "identities" | "cancellation" | "rotations" | "initialState"
+
+export interface OptimizerOptions {
+  passes?: OptimizationPassName[] // every pass by default, run in registry order
+  commutation?: boolean // look past commuting gates for a partner (default true)
+  maxIterations?: number // rounds of all passes; stops early once nothing changes
+}
+
+export interface CircuitMetrics {
+  operations: number
+  gates: number // operations other than measurements and resets
+  twoQubitGates: number // gates on two or more qubits, controls included
+  depth: number
+  counts: Record<string, number>
+}
+
+export interface EquivalenceCheck {
+  checked: boolean
+  equivalent: boolean
+  fidelity?: number // |⟨original|optimized⟩|² of the final states from |0…0⟩
+  reason?: string // why the check was skipped
+}
+
+export interface OptimizationResult {
+  circuit: Circuit
+  before: CircuitMetrics
+  after: CircuitMetrics
+  removed: Record<OptimizationPassName, number> // operations removed by each pass
+  iterations: number
+  equivalence: EquivalenceCheck
+}
+
+type OperationPass = (operations: GateOperation[], circuit: Circuit, commutation: boolean) => GateOperation[]
+
+// Replacement for two operations that meet on the same wires: [] when they cancel, one operation
+// when they merge, null when the rule doesn't apply
+type Rewrite = (earlier: GateOperation, later: GateOperation) => GateOperation[] | null
+
+const EPSILON = 1e-9
+
+const near = (a: number, b: number) => Math.abs(a - b) < EPSILON
+const nearComplex = (a: Complex, b: Complex) => near(a.real, b.real) && near(a.imag, b.imag)
+const isGate = (operation: GateOperation) => operation.type !== "measure" && operation.type !== "reset"
+
+// Angle in (-period/2, period/2]
+function wrapAngle(angle: number, period: number): number {
+  const wrapped = angle - period * Math.round(angle / period)
+  return near(wrapped, -period / 2) ? period / 2 : wrapped
+}
+
+// Gates whose qubits can be listed in any order
+const symmetricGates = new Set(["SWAP", "iSWAP"])
+
+// Gate, controls, targets and condition of an operation, with CNOT written as a controlled X;
+// operations with the same shape differ at most in their parameters
+function shape(operation: GateOperation, gate = operation.type === "cnot" ? "X" : (operation.gate ?? "")): string {
+  const resolved = resolveOperation(operation)
+  const controls = [...(resolved?.controls ?? [])].sort((a, b) => a - b)
+  const targets = resolved?.targets ?? [operation.target]
+  const orderedTargets = symmetricGates.has(gate) ? [...targets].sort((a, b) => a - b) : targets
+  return `${gate}|${controls.join(",")}|${orderedTargets.join(",")}|${JSON.stringify(operation.condition ?? null)}`
+}
+
+const sameParams = (a?: number[], b?: number[]) =>
+  (a?.length ?? 0) === (b?.length ?? 0) && (a ?? []).every((p, i) => near(p, b![i]))
+
+// How a single-qubit gate acts: as a function of Z (diagonal), of X or of Y. Gates on the same
+// qubit commute when they share an axis; controls act along Z.
+type Axis = "Z" | "X" | "Y"
+
+function gateAxis(gate: QuantumGate): Axis | null {
+  if (gate.length !== 2) return null
+  const [[a, b], [c, d]] = gate
+  const zero = { real: 0, imag: 0 }
+  if (nearComplex(b, zero) && nearComplex(c, zero)) return "Z"
+  if (!nearComplex(a, d)) return null
+  if (nearComplex(b, c)) return "X"
+  if (nearComplex(b, { real: -c.real, imag: -c.imag })) return "Y"
+  return null
+}
+
+function axisOn(operation: GateOperation, qubit: number): Axis | null {
+  const resolved = resolveOperation(operation)
+  if (!resolved) return null
+  if (resolved.controls.includes(qubit)) return "Z"
+  return resolved.targets.length === 1 ? gateAxis(resolved.gate) : null
+}
+
+// Sufficient test for two gates commuting: on every shared qubit both act along the same axis.
+// Conditions only read classical bits, so two gates never conflict on those.
+function commutes(a: GateOperation, b: GateOperation): boolean {
+  if (!isGate(a) || !isGate(b)) return false
+  const shared = operationQubits(a).filter((q) => operationQubits(b).includes(q))
+  return shared.every((q) => {
+    const axis = axisOn(a, q)
+    return axis !== null && axis === axisOn(b, q)
+  })
+}
+
+// Apply a rewrite between each gate and the latest earlier operation it meets, looking past
+// operations that commute with it. A merged gate takes the earlier one's place.
+function peephole(operations: GateOperation[], circuit: Circuit, commutation: boolean, rewrite: Rewrite) {
+  const kept: Array<{ operation: GateOperation; wires: string[] } | null> = []
+
+  for (const operation of operations) {
+    const wires = circuit.wiresOf(operation)
+    let merged = false
+
+    if (isGate(operation)) {
+      for (let j = kept.length - 1; j >= 0; j--) {
+        const earlier = kept[j]
+        if (!earlier || !earlier.wires.some((wire) => wires.includes(wire))) continue
+        const replacement = isGate(earlier.operation) ? rewrite(earlier.operation, operation) : null
+        if (replacement) {
+          kept[j] = replacement.length > 0 ? { operation: replacement[0], wires: earlier.wires } : null
+          merged = true
+          break
+        }
+        if (!commutation || !commutes(earlier.operation, operation)) break
+      }
+    }
+
+    if (!merged) kept.push({ operation, wires })
+  }
+
+  return kept.flatMap((entry) => (entry ? [entry.operation] : []))
+}
+
+// U·U† = I, e.g. H·H, CNOT·CNOT, S·S†, RX(θ)·RX(-θ)
+const cancelInverse: Rewrite = (earlier, later) => {
+  let inverse: GateOperation
+  try {
+    inverse = invertOperation(earlier)
+  } catch {
+    return null
+  }
+  return shape(inverse) === shape(later) && sameParams(inverse.params, later.params) ? [] : null
+}
+
+// Phase gates are P(λ) with a name for the common angles
+const phaseAngles: Record<string, number> = {
+  Z: Math.PI,
+  S: Math.PI / 2,
+  Sdg: -Math.PI / 2,
+  T: Math.PI / 4,
+  Tdg: -Math.PI / 4,
+}
+
+function phaseAngle(operation: GateOperation): number | null {
+  const gate = operation.gate ?? ""
+  if (operation.type === "cnot" || operation.type === "multi") return null
+  if (gate in phaseAngles) return phaseAngles[gate]
+  return gate === "P" && operation.params ? operation.params[0] : null
+}
+
+function phaseOperation(operation: GateOperation, lambda: number): GateOperation[] {
+  const angle = wrapAngle(lambda, 2 * Math.PI)
+  if (near(angle, 0)) return []
+  const name = Object.keys(phaseAngles).find((gate) => near(phaseAngles[gate], angle))
+  const { params: _params, ...rest } = operation
+  return [name ? { ...rest, gate: name } : { ...rest, gate: "P", params: [angle] }]
+}
+
+// RX(a)·RX(b) = RX(a+b) on the same qubits, likewise RY and RZ; T·T = S, S·S = Z, P(a)·P(b) = P(a+b)
+const mergeRotations: Rewrite = (earlier, later) => {
+  const earlierPhase = phaseAngle(earlier)
+  const laterPhase = phaseAngle(later)
+  if (earlierPhase !== null && laterPhase !== null) {
+    return shape(earlier, "P") === shape(later, "P") ? phaseOperation(earlier, earlierPhase + laterPhase) : null
+  }
+
+  const gate = earlier.gate ?? ""
+  if (!["RX", "RY", "RZ"].includes(gate) || earlier.type === "cnot" || shape(earlier) !== shape(later)) return null
+  const theta = wrapAngle(earlier.params![0] + later.params![0], 4 * Math.PI)
+  return near(theta, 0) ? [] : [{ ...earlier, params: [theta] }]
+}
+
+// The gate's matrix is c·I; uncontrolled gates may be a global phase, controlled ones must be exactly I
+function isIdentity(operation: GateOperation): boolean {
+  const resolved = isGate(operation) ? resolveOperation(operation) : null
+  if (!resolved) return false
+  const { gate, controls } = resolved
+  const diagonal = gate[0][0]
+  if (!near(Math.hypot(diagonal.real, diagonal.imag), 1)) return false
+  if (controls.length > 0 && !nearComplex(diagonal, { real: 1, imag: 0 })) return false
+  return gate.every((row, r) => row.every((entry, c) => nearComplex(entry, r === c ? diagonal : { real: 0, imag: 0 })))
+}
+
+// The gate leaves its targets' |0…0⟩ alone: up to a phase when uncontrolled, exactly when controlled
+function fixesZeroState(operation: GateOperation): boolean {
+  const resolved = resolveOperation(operation)
+  if (!resolved) return false
+  const { gate, controls } = resolved
+  const first = gate[0][0]
+  if (!near(Math.hypot(first.real, first.imag), 1)) return false
+  return controls.length === 0 || nearComplex(first, { real: 1, imag: 0 })
+}
+
+// Drops gates that do nothing to qubits still in their initial |0⟩: anything controlled on such a
+// qubit, diagonal gates, SWAPs of two fresh qubits, and resets. Assumes the circuit starts in |0…0⟩,
+// as the Lab and the runners do.
+const removeInitialStateNoOps: OperationPass = (operations, circuit) => {
+  const fresh = new Set(Array.from({ length: circuit.numQubits }, (_, q) => q))
+  const kept: GateOperation[] = []
+
+  for (const operation of operations) {
+    if (operation.type === "measure") {
+      kept.push(operation) // measuring |0⟩ leaves it in |0⟩
+      continue
+    }
+    if (operation.type === "reset") {
+      if (fresh.has(operation.target)) continue
+      if (!operation.condition) fresh.add(operation.target)
+      kept.push(operation)
+      continue
+    }
+
+    const resolved = resolveOperation(operation)
+    if (resolved?.controls.some((q) => fresh.has(q))) continue
+    if (resolved?.targets.every((q) => fresh.has(q)) && fixesZeroState(operation)) continue
+    for (const q of operationQubits(operation)) fresh.delete(q)
+    kept.push(operation)
+  }
+
+  return kept
+}
+
+// Passes in the order the optimizer runs them
+export const optimizationPasses: Record<
+  OptimizationPassName,
+  { label: string; description: string; run: OperationPass }
+> = {
+  identities: {
+    label: "Identities",
+    description: "Remove identity gates and zero-angle rotations",
+    run: (operations) => operations.filter((operation) => !isIdentity(operation)),
+  },
+  cancellation: {
+    label: "Cancellation",
+    description: "Cancel gates followed by their inverse (H·H, X·X, CNOT·CNOT, S·S†)",
+    run: (operations, circuit, commutation) => peephole(operations, circuit, commutation, cancelInverse),
+  },
+  rotations: {
+    label: "Rotation merging",
+    description: "Merge adjacent rotations and phase gates about the same axis",
+    run: (operations, circuit, commutation) => peephole(operations, circuit, commutation, mergeRotations),
+  },
+  initialState: {
+    label: "No-ops on |0⟩",
+    description: "Remove gates that act trivially on qubits still in |0⟩",
+    run: removeInitialStateNoOps,
+  },
+}
+
+export const optimizationPassNames = Object.keys(optimizationPasses) as OptimizationPassName[]
+
+export function circuitMetrics(circuit: Circuit): CircuitMetrics {
+  const gateOperations = circuit.operations.filter(isGate)
+  return {
+    operations: circuit.operations.length,
+    gates: gateOperations.length,
+    twoQubitGates: gateOperations.filter((operation) => operationQubits(operation).length > 1).length,
+    depth: circuit.depth(),
+    counts: circuit.gateCounts(),
+  }
+}
+
+// Compare the states two circuits prepare from |0…0⟩, up to a global phase. Only static circuits
+// are checked: measurements are skipped, so they must come last.
+export function checkStateEquivalence(a: Circuit, b: Circuit, tolerance = 1e-9): EquivalenceCheck {
+  if (a.numQubits !== b.numQubits) {
+    return { checked: true, equivalent: false, fidelity: 0, reason: "Different numbers of qubits" }
+  }
+  if (isDynamic(a) || isDynamic(b)) {
+    return {
+      checked: false,
+      equivalent: false,
+      reason: "Mid-circuit measurements, resets and conditions need a static circuit for the state check",
+    }
+  }
+
+  const finalState = (circuit: Circuit) => {
+    const state = new StateVector(circuit.numQubits)
+    for (const operation of circuit.operations) {
+      const resolved = resolveOperation(operation)
+      if (resolved) state.applyMultiQubitGate(resolved.gate, resolved.targets, resolved.controls)
+    }
+    return state.amplitudes
+  }
+
+  const left = finalState(a)
+  const right = finalState(b)
+  let real = 0
+  let imag = 0
+  for (let i = 0; i < left.length; i += 2) {
+    real += left[i] * right[i] + left[i + 1] * right[i + 1]
+    imag += left[i] * right[i + 1] - left[i + 1] * right[i]
+  }
+  const fidelity = real * real + imag * imag
+  return { checked: true, equivalent: fidelity >= 1 - tolerance, fidelity }
+}
+
+// Run the passes until nothing changes (or maxIterations rounds) and check the result against the original
+export function optimizeCircuit(circuit: Circuit, options: OptimizerOptions = {}): OptimizationResult {
+  const passes = optimizationPassNames.filter((name) => (options.passes ?? optimizationPassNames).includes(name))
+  const commutation = options.commutation ?? true
+  const maxIterations = options.maxIterations ?? 10
+  const removed = Object.fromEntries(optimizationPassNames.map((name) => [name, 0])) as Record<
+    OptimizationPassName,
+    number
+  >
+
+  let operations = circuit.operations
+  let iterations = 0
+  while (iterations < maxIterations) {
+    iterations++
+    const count = operations.length
+    for (const name of passes) {
+      const next = optimizationPasses[name].run(operations, circuit, commutation)
+      removed[name] += operations.length - next.length
+      operations = next
+    }
+    if (operations.length === count) break
+  }
+
+  const optimized = new Circuit(circuit.numQubits, operations, circuit.classicalRegisters)
+  return {
+    circuit: optimized,
+    before: circuitMetrics(circuit),
+    after: circuitMetrics(optimized),
+    removed,
+    iterations,
+    equivalence: checkStateEquivalence(circuit, optimized),
+  }
+}
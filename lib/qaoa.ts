@@ -0,0 +1,336 @@
+// QAOA for MaxCut and QUBO: the problem becomes a diagonal Ising Hamiltonian, p layers of cost and mixer
+// evolution are simulated exactly, and a classical optimizer tunes the angles. Node i is qubit i, so
+// assignments read as bitstrings with node 0 leftmost.
+import { Circuit } from "@/lib/circuit"
+import { minimize, type ClassicalOptimizerName, type MinimizeOptions } from "@/lib/classical-optimizers"
+import type { PauliSum, PauliTerm } from "@/lib/observables"
+import { resolveOperation, type GateOperation } from "@/lib/quantum-simulator"
+import { StateVector } from "@/lib/state-vector"
+import { pauliRotation } from "@/lib/vqe"
+
+export const MAX_QAOA_QUBITS = 12
+
+export interface WeightedGraph {
+  numNodes: number
+  edges: Array<[number, number, number]> // node, node, weight
+}
+
+// MaxCut maximizes the total weight of edges between the two sides; QUBO minimizes xᵀ Q x over x ∈ {0, 1}ⁿ
+export type QaoaProblem = { kind: "maxcut"; graph: WeightedGraph } | { kind: "qubo"; matrix: number[][] }
+
+export interface QaoaOptions extends MinimizeOptions {
+  layers?: number // p, the number of cost and mixer layers (default 1)
+  optimizer: ClassicalOptimizerName
+  initialParameters?: number[] // γ₁…γₚ then β₁…βₚ; a linear ramp by default
+}
+
+export interface Assignment {
+  index: number // basis state
+  bitstring: string // node 0 leftmost
+  value: number // cut weight for MaxCut, xᵀ Q x for QUBO
+  probability: number
+}
+
+export interface QaoaResult {
+  gammas: number[]
+  betas: number[]
+  expectedValue: number // problem value averaged over the final state
+  history: number[] // expected problem value after each optimizer iteration
+  iterations: number
+  evaluations: number
+  converged: boolean
+  seed: number
+  circuit: Circuit
+  top: Assignment[] // most likely assignments, most probable first
+  best: Assignment // best value among the most likely assignments
+  optimum: { value: number; solutions: number[] } // brute force over every assignment
+  optimalProbability: number // chance of sampling an optimal assignment
+  approximationRatio: number // ⟨value⟩ rescaled so the worst assignment is 0 and the optimum is 1
+}
+
+// Assignments examined for the best answer: the ones a few hundred shots would realistically show
+const TOP_ASSIGNMENTS = 8
+
+export function problemSize(problem: QaoaProblem): number {
+  return problem.kind === "maxcut" ? problem.graph.numNodes : problem.matrix.length
+}
+
+function checkProblem(problem: QaoaProblem): void {
+  const size = problemSize(problem)
+  if (!Number.isInteger(size) || size < 1 || size > MAX_QAOA_QUBITS) {
+    throw new Error(`QAOA supports 1-${MAX_QAOA_QUBITS} variables, got ${size}`)
+  }
+  if (problem.kind === "maxcut") {
+    for (const [a, b, weight] of problem.graph.edges) {
+      if (![a, b].every((node) => Number.isInteger(node) && node >= 0 && node < size) || a === b) {
+        throw new Error(`Invalid edge ${a}-${b} in a graph with ${size} nodes`)
+      }
+      if (!Number.isFinite(weight)) throw new Error(`Edge ${a}-${b} has weight ${weight}`)
+    }
+    if (problem.graph.edges.length === 0) throw new Error("The graph has no edges to cut")
+  } else if (problem.matrix.some((row) => row.length !== size || row.some((value) => !Number.isFinite(value)))) {
+    throw new Error(`The QUBO matrix must be ${size}×${size} with finite entries`)
+  }
+}
+
+const bit = (index: number, node: number, size: number) => (index >> (size - 1 - node)) & 1
+
+// Value of one assignment
+export function assignmentValue(problem: QaoaProblem, index: number): number {
+  const size = problemSize(problem)
+  if (problem.kind === "maxcut") {
+    return problem.graph.edges.reduce(
+      (total, [a, b, weight]) => total + (bit(index, a, size) !== bit(index, b, size) ? weight : 0),
+      0,
+    )
+  }
+  let total = 0
+  for (let i = 0; i < size; i++) {
+    if (!bit(index, i, size)) continue
+    for (let j = 0; j < size; j++) if (bit(index, j, size)) total += problem.matrix[i][j]
+  }
+  return total
+}
+
+// Ising Hamiltonian whose energy is minimized: -cut for MaxCut, xᵀ Q x (x = (1 - Z) / 2) for QUBO
+export function problemHamiltonian(problem: QaoaProblem): PauliSum {
+  checkProblem(problem)
+  const size = problemSize(problem)
+  const terms = new Map<string, number>()
+  const addTerm = (qubits: number[], coefficient: number) => {
+    const paulis = Array.from({ length: size }, (_, q) => (qubits.includes(q) ? "Z" : "I")).join("")
+    terms.set(paulis, (terms.get(paulis) ?? 0) + coefficient)
+  }
+
+  if (problem.kind === "maxcut") {
+    // An edge is cut when Z_a Z_b = -1: -w (1 - Z_a Z_b) / 2
+    for (const [a, b, weight] of problem.graph.edges) {
+      addTerm([], -weight / 2)
+      addTerm([a, b], weight / 2)
+    }
+  } else {
+    // x_i x_j = (1 - Z_i - Z_j + Z_i Z_j) / 4, and x_i² = x_i = (1 - Z_i) / 2
+    problem.matrix.forEach((row, i) =>
+      row.forEach((q, j) => {
+        if (q === 0) return
+        if (i === j) {
+          addTerm([], q / 2)
+          addTerm([i], -q / 2)
+        } else {
+          addTerm([], q / 4)
+          addTerm([i], -q / 4)
+          addTerm([j], -q / 4)
+          addTerm([i, j], q / 4)
+        }
+      }),
+    )
+  }
+
+  const combined: PauliTerm[] = Array.from(terms, ([paulis, coefficient]) => ({ coefficient, paulis })).filter(
+    ({ coefficient }) => Math.abs(coefficient) > 1e-12,
+  )
+  return { numQubits: size, terms: combined }
+}
+
+// Best value by checking every assignment; MaxCut maximizes, QUBO minimizes
+export function bruteForce(problem: QaoaProblem): { value: number; solutions: number[]; worst: number } {
+  checkProblem(problem)
+  const sign = problem.kind === "maxcut" ? 1 : -1
+  let value = -Infinity
+  let worst = Infinity
+  let solutions: number[] = []
+  for (let index = 0; index < 1 << problemSize(problem); index++) {
+    const score = sign * assignmentValue(problem, index)
+    worst = Math.min(worst, score)
+    if (score > value + 1e-9) {
+      value = score
+      solutions = [index]
+    } else if (Math.abs(score - value) <= 1e-9) {
+      solutions.push(index)
+    }
+  }
+  return { value: sign * value, solutions, worst: sign * worst }
+}
+
+// |+⟩ⁿ, then per layer exp(-iγ H_C) and exp(-iβ Σ X)
+export function qaoaOperations(hamiltonian: PauliSum, gammas: number[], betas: number[]): GateOperation[] {
+  if (gammas.length !== betas.length)
+    throw new Error(`Expected as many β as γ, got ${betas.length} and ${gammas.length}`)
+  const qubits = Array.from({ length: hamiltonian.numQubits }, (_, q) => q)
+  const operations: GateOperation[] = qubits.map((target) => ({ type: "single", gate: "H", target }))
+  gammas.forEach((gamma, layer) => {
+    for (const { coefficient, paulis } of hamiltonian.terms) {
+      operations.push(...pauliRotation(paulis, 2 * gamma * coefficient))
+    }
+    for (const target of qubits) operations.push({ type: "single", gate: "RX", target, params: [2 * betas[layer]] })
+  })
+  return operations
+}
+
+export function qaoaCircuit(hamiltonian: PauliSum, gammas: number[], betas: number[]): Circuit {
+  return new Circuit(hamiltonian.numQubits, qaoaOperations(hamiltonian, gammas, betas))
+}
+
+function finalProbabilities(hamiltonian: PauliSum, gammas: number[], betas: number[]): Float64Array {
+  const state = new StateVector(hamiltonian.numQubits)
+  for (const operation of qaoaOperations(hamiltonian, gammas, betas)) {
+    const resolved = resolveOperation(operation)
+    if (resolved) state.applyMultiQubitGate(resolved.gate, resolved.targets, resolved.controls)
+  }
+  return state.probabilities()
+}
+
+export function runQaoa(problem: QaoaProblem, options: QaoaOptions): QaoaResult {
+  const hamiltonian = problemHamiltonian(problem)
+  const size = hamiltonian.numQubits
+  const layers = options.layers ?? 1
+  if (!Number.isInteger(layers) || layers < 1) throw new Error(`Layers must be a positive integer, got ${layers}`)
+
+  const values = Float64Array.from({ length: 1 << size }, (_, index) => assignmentValue(problem, index))
+  const sign = problem.kind === "maxcut" ? -1 : 1 // the optimizer minimizes
+  const split = (parameters: number[]): [number[], number[]] => [parameters.slice(0, layers), parameters.slice(layers)]
+  const expected = (probabilities: Float64Array) => probabilities.reduce((total, p, i) => total + p * values[i], 0)
+
+  const initial = options.initialParameters ?? [
+    ...Array.from({ length: layers }, (_, k) => (0.8 * (k + 0.5)) / layers),
+    ...Array.from({ length: layers }, (_, k) => 0.8 * (1 - (k + 0.5) / layers)),
+  ]
+  if (initial.length !== 2 * layers) {
+    throw new Error(`${layers} layers take ${2 * layers} angles, got ${initial.length}`)
+  }
+
+  const result = minimize(
+    options.optimizer,
+    (parameters) => sign * expected(finalProbabilities(hamiltonian, ...split(parameters))),
+    initial,
+    options,
+  )
+  const [gammas, betas] = split(result.x)
+  const probabilities = finalProbabilities(hamiltonian, gammas, betas)
+  const optimum = bruteForce(problem)
+
+  const top = Array.from(probabilities.keys())
+    .sort((a, b) => probabilities[b] - probabilities[a])
+    .slice(0, TOP_ASSIGNMENTS)
+    .map((index) => ({
+      index,
+      bitstring: index.toString(2).padStart(size, "0"),
+      value: values[index],
+      probability: probabilities[index],
+    }))
+  const best = top.reduce((a, b) => (sign * b.value < sign * a.value ? b : a))
+  const expectedValue = expected(probabilities)
+  const range = optimum.value - optimum.worst
+
+  return {
+    gammas,
+    betas,
+    expectedValue,
+    history: result.history.map((value) => sign * value),
+    iterations: result.iterations,
+    evaluations: result.evaluations,
+    converged: result.converged,
+    seed: result.seed,
+    circuit: qaoaCircuit(hamiltonian, gammas, betas),
+    top,
+    best,
+    optimum: { value: optimum.value, solutions: optimum.solutions },
+    optimalProbability: optimum.solutions.reduce((total, index) => total + probabilities[index], 0),
+    approximationRatio: range === 0 ? 1 : (expectedValue - optimum.worst) / range,
+  }
+}
+
+// QUBO matrix from rows separated by ";" or new lines, entries by spaces or commas, e.g. "-1 2; 0 -1"
+export function parseQubo(text: string): number[][] {
+  const rows = text
+    .split(/[;\n]+/)
+    .map((row) => row.trim())
+    .filter((row) => row !== "")
+    .map((row) =>
+      row.split(/[\s,]+/).map((entry) => {
+        const value = Number(entry)
+        if (!Number.isFinite(value)) throw new Error(`Invalid QUBO entry "${entry}"`)
+        return value
+      }),
+    )
+  if (rows.length === 0) throw new Error("The QUBO matrix is empty")
+  if (rows.some((row) => row.length !== rows.length)) {
+    throw new Error(`The QUBO matrix must be square; it has ${rows.length} rows`)
+  }
+  return rows
+}
+
+export type GraphPreset = "triangle" | "square" | "house" | "k4" | "prism"
+
+export const graphPresets: Record<GraphPreset, { label: string; graph: WeightedGraph }> = {
+  triangle: {
+    label: "Triangle",
+    graph: {
+      numNodes: 3,
+      edges: [
+        [0, 1, 1],
+        [1, 2, 1],
+        [2, 0, 1],
+      ],
+    },
+  },
+  square: {
+    label: "Square",
+    graph: {
+      numNodes: 4,
+      edges: [
+        [0, 1, 1],
+        [1, 2, 1],
+        [2, 3, 1],
+        [3, 0, 1],
+      ],
+    },
+  },
+  house: {
+    label: "House (weighted)",
+    graph: {
+      numNodes: 5,
+      edges: [
+        [0, 1, 1],
+        [1, 2, 1],
+        [2, 3, 1],
+        [3, 4, 1],
+        [4, 0, 1],
+        [0, 2, 2],
+      ],
+    },
+  },
+  k4: {
+    label: "K₄",
+    graph: {
+      numNodes: 4,
+      edges: [
+        [0, 1, 1],
+        [0, 2, 1],
+        [0, 3, 1],
+        [1, 2, 1],
+        [1, 3, 1],
+        [2, 3, 1],
+      ],
+    },
+  },
+  prism: {
+    label: "Triangular prism",
+    graph: {
+      numNodes: 6,
+      edges: [
+        [0, 1, 1],
+        [1, 2, 1],
+        [2, 0, 1],
+        [3, 4, 1],
+        [4, 5, 1],
+        [5, 3, 1],
+        [0, 3, 1],
+        [1, 4, 1],
+        [2, 5, 1],
+      ],
+    },
+  },
+}
+
+export const graphPresetNames = Object.keys(graphPresets) as GraphPreset[]
@@ -0,0 +1,764 @@
+// OpenQASM 2.0 import and export for the circuit model, covering the qelib1.inc standard gates,
+// qreg/creg registers, measure, reset, barrier, if and user gate definitions (expanded inline)
+import { Circuit } from "@/lib/circuit"
+import { MAX_STATE_VECTOR_QUBITS } from "@/lib/state-vector"
+import type { ClassicalRegister, GateOperation } from "@/lib/quantum-simulator"
+
+export class QasmParseError extends Error {
+  readonly line: number
+  readonly column: number
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (line ${line}, column ${column})`)
+    this.name = "QasmParseError"
+    this.line = line
+    this.column = column
+  }
+}
+
+export interface QasmToken {
+  type: "identifier" | "number" | "string" | "symbol" | "eof"
+  value: string
+  line: number
+  column: number
+}
+
+// Longest symbols first so "->" is not read as "-"
+const symbols = [
+  ...["->", "==", "!=", "<=", ">=", "++", "**"],
+  ...[";", ",", "(", ")", "[", "]", "{", "}", "+", "-", "*", "/", "^", "@", ":", "=", "<", ">", "!"],
+]
+
+export function tokenizeQasm(source: string): QasmToken[] {
+  const tokens: QasmToken[] = []
+  let line = 1
+  let column = 1
+  let i = 0
+
+  const advance = (count: number) => {
+    for (let k = 0; k < count; k++) {
+      if (source[i] === "\n") {
+        line++
+        column = 1
+      } else {
+        column++
+      }
+      i++
+    }
+  }
+
+  while (i < source.length) {
+    const char = source[i]
+    if (/\s/.test(char)) {
+      advance(1)
+    } else if (source.startsWith("//", i)) {
+      while (i < source.length && source[i] !== "\n") advance(1)
+    } else if (source.startsWith("/*", i)) {
+      const start = { line, column }
+      const end = source.indexOf("*/", i + 2)
+      if (end < 0) throw new QasmParseError("Unterminated comment", start.line, start.column)
+      advance(end + 2 - i)
+    } else if (/[\p{L}_]/u.test(char)) {
+      const value = /^[\p{L}_][\p{L}\p{N}_]*/u.exec(source.slice(i))![0]
+      tokens.push({ type: "identifier", value, line, column })
+      advance(value.length)
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))
+      if (!match) throw new QasmParseError(`Unexpected character "${char}"`, line, column)
+      tokens.push({ type: "number", value: match[0], line, column })
+      advance(match[0].length)
+    } else if (char === '"') {
+      const end = source.indexOf('"', i + 1)
+      if (end < 0) throw new QasmParseError("Unterminated string", line, column)
+      tokens.push({ type: "string", value: source.slice(i + 1, end), line, column })
+      advance(end + 1 - i)
+    } else {
+      const symbol = symbols.find((s) => source.startsWith(s, i))
+      if (!symbol) throw new QasmParseError(`Unexpected character "${char}"`, line, column)
+      tokens.push({ type: "symbol", value: symbol, line, column })
+      advance(symbol.length)
+    }
+  }
+
+  tokens.push({ type: "eof", value: "", line, column })
+  return tokens
+}
+
+// A compiled parameter expression, evaluated against the gate parameters in scope
+export type QasmExpression = (scope: Record<string, number>) => number
+
+const functions: Record<string, (x: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  exp: Math.exp,
+  ln: Math.log,
+  sqrt: Math.sqrt,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+}
+
+// Token cursor with the expression grammar shared by the QASM 2 and QASM 3 parsers
+export class QasmTokenStream {
+  private position = 0
+
+  constructor(private readonly tokens: QasmToken[]) {}
+
+  peek(offset = 0): QasmToken {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)]
+  }
+
+  next(): QasmToken {
+    const token = this.peek()
+    if (token.type !== "eof") this.position++
+    return token
+  }
+
+  // Saved positions let a parser re-read a block, e.g. once per loop iteration
+  mark(): number {
+    return this.position
+  }
+
+  seek(position: number): void {
+    this.position = position
+  }
+
+  at(value: string): boolean {
+    const token = this.peek()
+    return (token.type === "symbol" || token.type === "identifier") && token.value === value
+  }
+
+  accept(value: string): boolean {
+    if (!this.at(value)) return false
+    this.next()
+    return true
+  }
+
+  error(message: string, token = this.peek()): QasmParseError {
+    return new QasmParseError(message, token.line, token.column)
+  }
+
+  expect(value: string): QasmToken {
+    if (!this.at(value)) throw this.error(`Expected "${value}" but found ${describeToken(this.peek())}`)
+    return this.next()
+  }
+
+  expectIdentifier(): QasmToken {
+    if (this.peek().type !== "identifier")
+      throw this.error(`Expected an identifier but found ${describeToken(this.peek())}`)
+    return this.next()
+  }
+
+  expectInteger(): number {
+    const token = this.peek()
+    if (token.type !== "number" || !/^\d+$/.test(token.value)) {
+      throw this.error(`Expected an integer but found ${describeToken(token)}`)
+    }
+    this.next()
+    return Number(token.value)
+  }
+
+  // expression := term (("+" | "-") term)*
+  parseExpression(): QasmExpression {
+    let left = this.parseTerm()
+    while (this.at("+") || this.at("-")) {
+      const operator = this.next().value
+      const lhs = left
+      const rhs = this.parseTerm()
+      left = operator === "+" ? (scope) => lhs(scope) + rhs(scope) : (scope) => lhs(scope) - rhs(scope)
+    }
+    return left
+  }
+
+  // term := unary (("*" | "/") unary)*
+  private parseTerm(): QasmExpression {
+    let left = this.parseUnary()
+    while (this.at("*") || this.at("/")) {
+      const operator = this.next().value
+      const lhs = left
+      const rhs = this.parseUnary()
+      left = operator === "*" ? (scope) => lhs(scope) * rhs(scope) : (scope) => lhs(scope) / rhs(scope)
+    }
+    return left
+  }
+
+  // unary := "-" unary | primary (("^" | "**") unary)?
+  private parseUnary(): QasmExpression {
+    if (this.accept("-")) {
+      const operand = this.parseUnary()
+      return (scope) => -operand(scope)
+    }
+    if (this.accept("+")) return this.parseUnary()
+
+    const base = this.parsePrimary()
+    if (this.accept("^") || this.accept("**")) {
+      const exponent = this.parseUnary()
+      return (scope) => base(scope) ** exponent(scope)
+    }
+    return base
+  }
+
+  private parsePrimary(): QasmExpression {
+    const token = this.next()
+
+    if (token.type === "number") {
+      const value = Number(token.value)
+      return () => value
+    }
+    if (token.type === "symbol" && token.value === "(") {
+      const inner = this.parseExpression()
+      this.expect(")")
+      return inner
+    }
+    if (token.type === "identifier") {
+      if (token.value === "pi" || token.value === "π") return () => Math.PI
+      if (token.value === "tau") return () => 2 * Math.PI
+      if (token.value === "euler") return () => Math.E
+      if (token.value in functions && this.at("(")) {
+        this.expect("(")
+        const argument = this.parseExpression()
+        this.expect(")")
+        const fn = functions[token.value]
+        return (scope) => fn(argument(scope))
+      }
+      return (scope) => {
+        if (!(token.value in scope)) throw this.error(`Unknown parameter "${token.value}"`, token)
+        return scope[token.value]
+      }
+    }
+
+    throw this.error(`Expected an expression but found ${describeToken(token)}`, token)
+  }
+}
+
+export function describeToken(token: QasmToken): string {
+  return token.type === "eof" ? "end of input" : `"${token.value}"`
+}
+
+// Standard gates as circuit-model operations on the given qubits
+interface NativeGate {
+  params: number
+  qubits: number
+  build: (params: number[], qubits: number[]) => GateOperation[]
+}
+
+const single =
+  (gate: string, fixedParams?: (params: number[]) => number[]): NativeGate["build"] =>
+  (params, [target]) => [
+    { type: "single", gate, target, params: fixedParams ? fixedParams(params) : params.length ? params : undefined },
+  ]
+
+const controlled =
+  (gate: string, controlCount: number, fixedParams?: (params: number[]) => number[]): NativeGate["build"] =>
+  (params, qubits) => {
+    const controls = qubits.slice(0, controlCount)
+    const target = qubits[controlCount]
+    const gateParams = fixedParams ? fixedParams(params) : params.length ? params : undefined
+    return gate === "X" && controlCount === 1
+      ? [{ type: "cnot", control: controls[0], target }]
+      : [{ type: "controlled", gate, controls, target, params: gateParams }]
+  }
+
+export const qelib1Gates: Record<string, NativeGate> = {
+  U: { params: 3, qubits: 1, build: single("U3") },
+  CX: { params: 0, qubits: 2, build: controlled("X", 1) },
+  u3: { params: 3, qubits: 1, build: single("U3") },
+  u: { params: 3, qubits: 1, build: single("U3") },
+  u2: { params: 2, qubits: 1, build: single("U3", ([phi, lambda]) => [Math.PI / 2, phi, lambda]) },
+  u1: { params: 1, qubits: 1, build: single("P") },
+  p: { params: 1, qubits: 1, build: single("P") },
+  u0: { params: 1, qubits: 1, build: single("I", () => []) },
+  id: { params: 0, qubits: 1, build: single("I") },
+  x: { params: 0, qubits: 1, build: single("X") },
+  y: { params: 0, qubits: 1, build: single("Y") },
+  z: { params: 0, qubits: 1, build: single("Z") },
+  h: { params: 0, qubits: 1, build: single("H") },
+  s: { params: 0, qubits: 1, build: single("S") },
+  sdg: { params: 0, qubits: 1, build: single("Sdg") },
+  t: { params: 0, qubits: 1, build: single("T") },
+  tdg: { params: 0, qubits: 1, build: single("Tdg") },
+  rx: { params: 1, qubits: 1, build: single("RX") },
+  ry: { params: 1, qubits: 1, build: single("RY") },
+  rz: { params: 1, qubits: 1, build: single("RZ") },
+  cx: { params: 0, qubits: 2, build: controlled("X", 1) },
+  cy: { params: 0, qubits: 2, build: controlled("Y", 1) },
+  cz: { params: 0, qubits: 2, build: controlled("Z", 1) },
+  ch: { params: 0, qubits: 2, build: controlled("H", 1) },
+  crx: { params: 1, qubits: 2, build: controlled("RX", 1) },
+  cry: { params: 1, qubits: 2, build: controlled("RY", 1) },
+  crz: { params: 1, qubits: 2, build: controlled("RZ", 1) },
+  cu1: { params: 1, qubits: 2, build: controlled("P", 1) },
+  cp: { params: 1, qubits: 2, build: controlled("P", 1) },
+  cu3: { params: 3, qubits: 2, build: controlled("U3", 1) },
+  ccx: { params: 0, qubits: 3, build: controlled("X", 2) },
+  c3x: { params: 0, qubits: 4, build: controlled("X", 3) },
+  c4x: { params: 0, qubits: 5, build: controlled("X", 4) },
+  swap: { params: 0, qubits: 2, build: (_, [a, b]) => [{ type: "multi", gate: "SWAP", target: a, targets: [a, b] }] },
+  cswap: {
+    params: 0,
+    qubits: 3,
+    build: (_, [c, a, b]) => [{ type: "multi", gate: "SWAP", target: a, targets: [a, b], controls: [c] }],
+  },
+}
+
+// qelib1.inc gates without a direct counterpart, defined in terms of the native ones
+export const qelib1Definitions = `
+gate sx a { h a; s a; h a; }
+gate sxdg a { h a; sdg a; h a; }
+gate csx a,b { h b; cu1(pi/2) a,b; h b; }
+gate rzz(theta) a,b { cx a,b; rz(theta) b; cx a,b; }
+gate rxx(theta) a,b { h a; h b; cx a,b; rz(theta) b; cx a,b; h a; h b; }
+gate cu(theta,phi,lambda,gamma) c,t { p(gamma) c; cu3(theta,phi,lambda) c,t; }
+gate rccx a,b,c { u2(0,pi) c; u1(pi/4) c; cx b,c; u1(-pi/4) c; cx a,c; u1(pi/4) c; cx b,c; u1(-pi/4) c; u2(0,pi) c; }
+gate rc3x a,b,c,d {
+  u2(0,pi) d; u1(pi/4) d; cx c,d; u1(-pi/4) d; u2(0,pi) d; cx a,d; u1(pi/4) d; cx b,d; u1(-pi/4) d; cx a,d;
+  u1(pi/4) d; cx b,d; u1(-pi/4) d; u2(0,pi) d; u1(pi/4) d; cx c,d; u1(-pi/4) d; u2(0,pi) d;
+}
+gate c3sqrtx a,b,c,d {
+  h d; cu1(pi/8) a,d; h d; cx a,b; h d; cu1(-pi/8) b,d; h d; cx a,b; h d; cu1(pi/8) b,d; h d; cx b,c; h d;
+  cu1(-pi/8) c,d; h d; cx a,c; h d; cu1(pi/8) c,d; h d; cx b,c; h d; cu1(-pi/8) c,d; h d; cx a,c; h d;
+  cu1(pi/8) c,d; h d;
+}
+`
+
+// A gate defined with "gate name(params) qubits { body }"
+interface GateDefinition {
+  params: string[]
+  qubits: string[]
+  body: Array<{ name: QasmToken; params: QasmExpression[]; qubits: QasmToken[] }>
+}
+
+interface QuantumRegister {
+  offset: number
+  size: number
+}
+
+// Qubit or whole register as written in an argument list
+type QasmArgument = { token: QasmToken; register: string; index?: number }
+
+class Qasm2Parser {
+  private readonly stream: QasmTokenStream
+  private readonly definitions: Record<string, GateDefinition> = {}
+  private readonly qregs: Record<string, QuantumRegister> = {}
+  private readonly cregs: ClassicalRegister[] = []
+  private readonly operations: GateOperation[] = []
+  // Source position of each operation, for errors found when building the circuit
+  private readonly positions: QasmToken[] = []
+  private numQubits = 0
+
+  constructor(source: string) {
+    this.stream = new QasmTokenStream(tokenizeQasm(source))
+    const library = new QasmTokenStream(tokenizeQasm(qelib1Definitions))
+    while (library.peek().type !== "eof") this.parseGateDefinition(library)
+  }
+
+  parse(): Circuit {
+    const stream = this.stream
+    stream.expect("OPENQASM")
+    const version = stream.next()
+    if (version.type !== "number" || !version.value.startsWith("2")) {
+      throw stream.error(`Unsupported OpenQASM version ${describeToken(version)}, expected 2.0`, version)
+    }
+    stream.expect(";")
+
+    while (stream.peek().type !== "eof") this.parseStatement()
+
+    if (this.numQubits === 0) throw stream.error("Circuit declares no qubits (qreg)")
+    try {
+      return new Circuit(this.numQubits, this.operations, this.cregs)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const match = /^Operation (\d+): (.*)$/.exec(message)
+      const token = match ? this.positions[Number(match[1])] : stream.peek()
+      throw stream.error(match ? match[2] : message, token)
+    }
+  }
+
+  private parseStatement(): void {
+    const stream = this.stream
+    const token = stream.peek()
+
+    if (stream.accept("include")) {
+      const file = stream.next()
+      if (file.type !== "string") throw stream.error("Expected a file name string", file)
+      if (file.value !== "qelib1.inc")
+        throw stream.error(`Only "qelib1.inc" can be included, not "${file.value}"`, file)
+      stream.expect(";")
+    } else if (stream.at("qreg") || stream.at("creg")) {
+      this.parseRegister()
+    } else if (stream.at("gate")) {
+      this.parseGateDefinition(stream)
+    } else if (stream.at("opaque")) {
+      throw stream.error("Opaque gates are not supported")
+    } else if (stream.accept("barrier")) {
+      this.parseArguments()
+      stream.expect(";")
+    } else if (stream.accept("if")) {
+      stream.expect("(")
+      const register = stream.expectIdentifier()
+      stream.expect("==")
+      const value = stream.expectInteger()
+      stream.expect(")")
+      if (!this.cregs.some((creg) => creg.name === register.value)) {
+        throw stream.error(`Unknown classical register "${register.value}"`, register)
+      }
+      this.parseQuantumOperation({ register: register.value, value })
+    } else if (token.type === "identifier") {
+      this.parseQuantumOperation()
+    } else {
+      throw stream.error(`Unexpected ${describeToken(token)}`)
+    }
+  }
+
+  private parseRegister(): void {
+    const stream = this.stream
+    const kind = stream.next().value
+    const name = stream.expectIdentifier()
+    stream.expect("[")
+    const size = stream.expectInteger()
+    stream.expect("]")
+    stream.expect(";")
+
+    if (this.qregs[name.value] || this.cregs.some((creg) => creg.name === name.value)) {
+      throw stream.error(`Register "${name.value}" is already declared`, name)
+    }
+    if (size < 1) throw stream.error("Register size must be at least 1", name)
+
+    if (kind === "qreg") {
+      if (this.numQubits + size > MAX_STATE_VECTOR_QUBITS) {
+        throw stream.error(`Circuit exceeds the ${MAX_STATE_VECTOR_QUBITS}-qubit simulator limit`, name)
+      }
+      this.qregs[name.value] = { offset: this.numQubits, size }
+      this.numQubits += size
+    } else {
+      this.cregs.push({ name: name.value, size })
+    }
+  }
+
+  private parseGateDefinition(stream: QasmTokenStream): void {
+    stream.expect("gate")
+    const name = stream.expectIdentifier()
+    if (qelib1Gates[name.value] || this.definitions[name.value]) {
+      throw stream.error(`Gate "${name.value}" is already defined`, name)
+    }
+
+    const params: string[] = []
+    if (stream.accept("(") && !stream.accept(")")) {
+      do {
+        params.push(stream.expectIdentifier().value)
+      } while (stream.accept(","))
+      stream.expect(")")
+    }
+    const qubits: string[] = []
+    do {
+      qubits.push(stream.expectIdentifier().value)
+    } while (stream.accept(","))
+
+    const body: GateDefinition["body"] = []
+    stream.expect("{")
+    while (!stream.accept("}")) {
+      if (stream.accept("barrier")) {
+        while (!stream.accept(";")) stream.next()
+        continue
+      }
+      const call = stream.expectIdentifier()
+      const callParams: QasmExpression[] = []
+      if (stream.accept("(") && !stream.accept(")")) {
+        do {
+          callParams.push(stream.parseExpression())
+        } while (stream.accept(","))
+        stream.expect(")")
+      }
+      const callQubits: QasmToken[] = []
+      do {
+        const qubit = stream.expectIdentifier()
+        if (!qubits.includes(qubit.value)) throw stream.error(`Unknown gate argument "${qubit.value}"`, qubit)
+        callQubits.push(qubit)
+      } while (stream.accept(","))
+      stream.expect(";")
+
+      this.checkGateCall(stream, call, callParams.length, callQubits.length)
+      body.push({ name: call, params: callParams, qubits: callQubits })
+    }
+
+    this.definitions[name.value] = { params, qubits, body }
+  }
+
+  private checkGateCall(stream: QasmTokenStream, name: QasmToken, params: number, qubits: number): void {
+    const native = qelib1Gates[name.value]
+    const definition = this.definitions[name.value]
+    if (!native && !definition) throw stream.error(`Unknown gate "${name.value}"`, name)
+    const expectedParams = native ? native.params : definition.params.length
+    const expectedQubits = native ? native.qubits : definition.qubits.length
+    if (params !== expectedParams) {
+      throw stream.error(`Gate "${name.value}" takes ${expectedParams} parameter(s), got ${params}`, name)
+    }
+    if (qubits !== expectedQubits) {
+      throw stream.error(`Gate "${name.value}" acts on ${expectedQubits} qubit(s), got ${qubits}`, name)
+    }
+  }
+
+  // "name" or "name[index]"
+  private parseArgument(): QasmArgument {
+    const stream = this.stream
+    const token = stream.expectIdentifier()
+    let index: number | undefined
+    if (stream.accept("[")) {
+      index = stream.expectInteger()
+      stream.expect("]")
+    }
+    return { token, register: token.value, index }
+  }
+
+  private parseArguments(): QasmArgument[] {
+    const args = [this.parseArgument()]
+    while (this.stream.accept(",")) args.push(this.parseArgument())
+    return args
+  }
+
+  // Gate call, measure or reset, optionally conditioned
+  private parseQuantumOperation(condition?: GateOperation["condition"]): void {
+    const stream = this.stream
+    const name = stream.expectIdentifier()
+
+    if (name.value === "measure") {
+      const qubit = this.parseArgument()
+      stream.expect("->")
+      const bit = this.parseArgument()
+      stream.expect(";")
+      const qubits = this.resolveQubits(qubit)
+      const bits = this.resolveBits(bit)
+      if (qubits.length !== bits.length) {
+        throw stream.error(`Cannot measure ${qubits.length} qubit(s) into ${bits.length} bit(s)`, bit.token)
+      }
+      qubits.forEach((target, i) =>
+        this.add(name, {
+          type: "measure",
+          target,
+          classicalBit: { register: bit.register, index: bits[i] },
+          condition,
+        }),
+      )
+      return
+    }
+
+    if (name.value === "reset") {
+      const qubit = this.parseArgument()
+      stream.expect(";")
+      for (const target of this.resolveQubits(qubit)) this.add(name, { type: "reset", target, condition })
+      return
+    }
+
+    const params: number[] = []
+    if (stream.accept("(") && !stream.accept(")")) {
+      do {
+        params.push(stream.parseExpression()({}))
+      } while (stream.accept(","))
+      stream.expect(")")
+    }
+    const args = this.parseArguments()
+    stream.expect(";")
+    this.checkGateCall(stream, name, params.length, args.length)
+
+    // Registers broadcast: "cx a, b" applies cx a[i], b[i] for every i
+    const resolved = args.map((arg) => this.resolveQubits(arg))
+    const broadcast = Math.max(...resolved.map((qubits) => qubits.length))
+    if (resolved.some((qubits) => qubits.length !== 1 && qubits.length !== broadcast)) {
+      throw stream.error("Register arguments must have the same size", name)
+    }
+    for (let i = 0; i < broadcast; i++) {
+      const qubits = resolved.map((register) => (register.length === 1 ? register[0] : register[i]))
+      if (new Set(qubits).size !== qubits.length) throw stream.error(`Repeated qubit in "${name.value}"`, name)
+      this.applyGate(name, params, qubits, condition)
+    }
+  }
+
+  private applyGate(name: QasmToken, params: number[], qubits: number[], condition?: GateOperation["condition"]) {
+    const native = qelib1Gates[name.value]
+    if (native) {
+      for (const operation of native.build(params, qubits)) {
+        this.add(name, condition ? { ...operation, condition } : operation)
+      }
+      return
+    }
+
+    const definition = this.definitions[name.value]
+    const scope = Object.fromEntries(definition.params.map((param, i) => [param, params[i]]))
+    const wires = Object.fromEntries(definition.qubits.map((qubit, i) => [qubit, qubits[i]]))
+    for (const call of definition.body) {
+      this.applyGate(
+        call.name,
+        call.params.map((param) => param(scope)),
+        call.qubits.map((qubit) => wires[qubit.value]),
+        condition,
+      )
+    }
+  }
+
+  private resolveQubits(arg: QasmArgument): number[] {
+    const register = this.qregs[arg.register]
+    if (!register) throw this.stream.error(`Unknown quantum register "${arg.register}"`, arg.token)
+    if (arg.index === undefined) return Array.from({ length: register.size }, (_, i) => register.offset + i)
+    if (arg.index >= register.size) {
+      throw this.stream.error(`Index ${arg.index} out of range for ${arg.register}[${register.size}]`, arg.token)
+    }
+    return [register.offset + arg.index]
+  }
+
+  private resolveBits(arg: QasmArgument): number[] {
+    const register = this.cregs.find((creg) => creg.name === arg.register)
+    if (!register) throw this.stream.error(`Unknown classical register "${arg.register}"`, arg.token)
+    if (arg.index === undefined) return Array.from({ length: register.size }, (_, i) => i)
+    if (arg.index >= register.size) {
+      throw this.stream.error(`Index ${arg.index} out of range for ${arg.register}[${register.size}]`, arg.token)
+    }
+    return [arg.index]
+  }
+
+  private add(token: QasmToken, operation: GateOperation): void {
+    if (!operation.condition) delete operation.condition
+    this.operations.push(operation)
+    this.positions.push(token)
+  }
+}
+
+// Parse an OpenQASM 2.0 program; errors are QasmParseErrors with the line and column
+export function parseQasm(source: string): Circuit {
+  return new Qasm2Parser(source).parse()
+}
+
+// Angle as a readable multiple of pi where possible, e.g. "pi/2", "-3*pi/4"
+export function formatQasmAngle(angle: number): string {
+  if (Math.abs(angle) < 1e-12) return "0"
+  const ratio = angle / Math.PI
+  for (const denominator of [1, 2, 3, 4, 6, 8, 12, 16, 32, 64]) {
+    const numerator = Math.round(ratio * denominator)
+    if (numerator !== 0 && Math.abs(ratio * denominator - numerator) < 1e-9) {
+      const coefficient = numerator === 1 ? "" : numerator === -1 ? "-" : `${numerator}*`
+      return `${coefficient}pi${denominator === 1 ? "" : `/${denominator}`}`
+    }
+  }
+  return String(Number(angle.toPrecision(15)))
+}
+
+const qasmGateNames: Record<string, string> = {
+  X: "x",
+  Y: "y",
+  Z: "z",
+  H: "h",
+  I: "id",
+  S: "s",
+  Sdg: "sdg",
+  T: "t",
+  Tdg: "tdg",
+  RX: "rx",
+  RY: "ry",
+  RZ: "rz",
+  P: "u1",
+  U3: "u3",
+}
+
+const controlledQasmGateNames: Record<string, string> = {
+  X: "cx",
+  Y: "cy",
+  Z: "cz",
+  H: "ch",
+  RX: "crx",
+  RY: "cry",
+  RZ: "crz",
+  P: "cu1",
+  U3: "cu3",
+}
+
+// Phase gates as a controlled u1 angle
+const phaseAngles: Record<string, number> = { S: Math.PI / 2, Sdg: -Math.PI / 2, T: Math.PI / 4, Tdg: -Math.PI / 4 }
+
+// Multi-controlled X, indexed by control count
+const multiControlledX = ["", "cx", "ccx", "c3x", "c4x"]
+
+const iswapDefinition = "gate iswap a,b { s a; s b; h a; cx a,b; cx b,a; h b; }"
+
+// Emit an OpenQASM 2.0 program. Throws for operations QASM 2 cannot express, like a controlled RX
+// with several controls.
+export function toQasm(circuit: Circuit): string {
+  const cregNames = new Set(circuit.classicalRegisters.map((register) => register.name))
+  const unique = (base: string) => {
+    let name = base
+    for (let k = 0; cregNames.has(name); k++) name = `${base}${k}`
+    return name
+  }
+  const q = unique("q")
+  // Measurements without a classical bit go to an extra register, one bit per qubit
+  const needsMeasureRegister = circuit.operations.some((op) => op.type === "measure" && !op.classicalBit)
+  const measureRegister = needsMeasureRegister ? unique("meas") : ""
+
+  const qubit = (index: number) => `${q}[${index}]`
+  const call = (name: string, params: number[] | undefined, qubits: number[]) =>
+    `${name}${params && params.length ? `(${params.map(formatQasmAngle).join(",")})` : ""} ${qubits.map(qubit).join(",")};`
+
+  const gateLines = (operation: GateOperation, index: number): string[] => {
+    const unsupported = () => new Error(`Operation ${index} (${operation.gate}) cannot be expressed in OpenQASM 2.0`)
+
+    switch (operation.type) {
+      case "single": {
+        const name = qasmGateNames[operation.gate ?? ""]
+        if (!name) throw unsupported()
+        return [call(name, operation.params, [operation.target])]
+      }
+      case "cnot":
+        return [call("cx", [], [operation.control!, operation.target])]
+      case "controlled": {
+        const controls = operation.controls ?? []
+        const gate = operation.gate ?? ""
+        if (controls.length === 1 && controlledQasmGateNames[gate]) {
+          return [call(controlledQasmGateNames[gate], operation.params, [...controls, operation.target])]
+        }
+        if (controls.length === 1 && gate in phaseAngles) {
+          return [call("cu1", [phaseAngles[gate]], [...controls, operation.target])]
+        }
+        if (gate === "X" && multiControlledX[controls.length]) {
+          return [call(multiControlledX[controls.length], [], [...controls, operation.target])]
+        }
+        if (gate === "Z" && multiControlledX[controls.length]) {
+          return [
+            call("h", [], [operation.target]),
+            call(multiControlledX[controls.length], [], [...controls, operation.target]),
+            call("h", [], [operation.target]),
+          ]
+        }
+        throw unsupported()
+      }
+      case "multi": {
+        const controls = operation.controls ?? []
+        const targets = operation.targets ?? [operation.target]
+        if (operation.gate === "SWAP" && controls.length === 0) return [call("swap", [], targets)]
+        if (operation.gate === "SWAP" && controls.length === 1) return [call("cswap", [], [...controls, ...targets])]
+        if (operation.gate === "iSWAP" && controls.length === 0) return [call("iswap", [], targets)]
+        throw unsupported()
+      }
+      case "measure": {
+        const bit = operation.classicalBit ?? { register: measureRegister, index: operation.target }
+        return [`measure ${qubit(operation.target)} -> ${bit.register}[${bit.index}];`]
+      }
+      case "reset":
+        return [`reset ${qubit(operation.target)};`]
+    }
+  }
+
+  const body = circuit.operations.flatMap((operation, index) => {
+    const prefix = operation.condition ? `if(${operation.condition.register}==${operation.condition.value}) ` : ""
+    return gateLines(operation, index).map((line) => prefix + line)
+  })
+
+  return [
+    "OPENQASM 2.0;",
+    'include "qelib1.inc";',
+    ...(circuit.operations.some((op) => op.type === "multi" && op.gate === "iSWAP") ? [iswapDefinition] : []),
+    `qreg ${q}[${circuit.numQubits}];`,
+    ...circuit.classicalRegisters.map((register) => `creg ${register.name}[${register.size}];`),
+    ...(needsMeasureRegister ? [`creg ${measureRegister}[${circuit.numQubits}];`] : []),
+    ...body,
+    "",
+  ].join("\n")
+}
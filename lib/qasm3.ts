@@ -0,0 +1,914 @@
+// OpenQASM 3 import and export for the subset of the language the circuit model can represent.
+//
+// Supported:
+//   OPENQASM 3; include "stdgates.inc";
+//   qubit[n] q; qubit q; bit[n] c; bit c; (and the QASM 2 forms qreg q[n]; creg c[n];)
+//   input float[64] theta; input angle a; input int n; (values are bound when parsing)
+//   const float x = pi / 4; const int n = 3;
+//   the stdgates.inc gates, the builtin U and gphase, and gate definitions
+//   gate modifiers ctrl @, ctrl(n) @, negctrl @, inv @ and pow(k) @ (integer k, or any k on rotations)
+//   c[0] = measure q[0]; c = measure q; measure q[0] -> c[0]; reset q[0]; barrier q;
+//   if (c == 2) { ... }, if (c[0]) / if (!c[0]) on single-bit registers, with else for single bits
+//   for int i in [0:3] { ... }, for i in [0:2:6], for i in {1, 4}, unrolled when parsing
+//
+// Anything else (while, def, switch, delay, box, mutable classical variables, classical arithmetic on
+// bits, conditions on one bit of a wider register, measuring into the register an if block tests, ...) is
+// reported as a QasmParseError.
+import { Circuit, controlOperation, invertOperation } from "@/lib/circuit"
+import { MAX_STATE_VECTOR_QUBITS } from "@/lib/state-vector"
+import type { ClassicalRegister, GateOperation } from "@/lib/quantum-simulator"
+import {
+  QasmTokenStream,
+  describeToken,
+  formatQasmAngle,
+  qelib1Gates,
+  tokenizeQasm,
+  type QasmExpression,
+  type QasmToken,
+} from "@/lib/qasm"
+
+// Limits on loop unrolling, so a long loop can't hang the page
+export const MAX_QASM3_LOOP_ITERATIONS = 10000
+export const MAX_QASM3_OPERATIONS = 100000
+
+export interface Qasm3ParseOptions {
+  inputs?: Record<string, number> // values for "input" declarations
+}
+
+const unsupportedStatements: Record<string, string> = {
+  while: "while loops",
+  def: "subroutines (def)",
+  extern: "extern functions",
+  return: "return statements",
+  break: "break statements",
+  continue: "continue statements",
+  switch: "switch statements",
+  defcal: "calibrations (defcal)",
+  cal: "calibrations (cal)",
+  defcalgrammar: "calibrations (defcalgrammar)",
+  delay: "delay",
+  box: "box",
+  stretch: "timing (stretch)",
+  duration: "timing (duration)",
+  let: "aliases (let)",
+  output: "output declarations",
+  opaque: "opaque gates",
+  int: "mutable classical variables (use const or input)",
+  uint: "mutable classical variables (use const or input)",
+  float: "mutable classical variables (use const or input)",
+  angle: "mutable classical variables (use const or input)",
+  bool: "mutable classical variables (use const or input)",
+  complex: "mutable classical variables (use const or input)",
+  array: "arrays",
+}
+
+// Declarations that can't appear inside if and for blocks
+const topLevelStatements = new Set(["include", "qubit", "qreg", "bit", "creg", "input", "const", "gate"])
+
+const classicalTypes = new Set(["float", "angle", "int", "uint", "bool"])
+
+const modifierNames = ["ctrl", "negctrl", "inv", "pow"]
+
+type NativeGate = (typeof qelib1Gates)[string]
+
+// The stdgates.inc gates that map directly onto the circuit model
+const stdgates: Record<string, NativeGate> = {
+  ...Object.fromEntries(
+    ["p", "x", "y", "z", "h", "s", "sdg", "t", "tdg", "rx", "ry", "rz", "id", "u1"]
+      .concat(["cx", "CX", "cy", "cz", "cp", "cu1", "crx", "cry", "crz", "ch", "swap", "ccx", "cswap"])
+      .map((name) => [name, qelib1Gates[name]]),
+  ),
+  phase: qelib1Gates.p,
+  cphase: qelib1Gates.cp,
+}
+
+// The rest of stdgates.inc. Unlike QASM 2, u2 and u3 carry a global phase, which shows up under ctrl @.
+const stdgatesDefinitions = `
+gate u2(φ, λ) q { gphase(-(φ + λ + π) / 2); U(π / 2, φ, λ) q; }
+gate u3(θ, φ, λ) q { gphase(-(φ + λ) / 2); U(θ, φ, λ) q; }
+gate cu3(θ, φ, λ) c, t { ctrl @ u3(θ, φ, λ) c, t; }
+gate cu(θ, φ, λ, γ) c, t { p(γ) c; ctrl @ U(θ, φ, λ) c, t; }
+gate sx a { h a; s a; h a; }
+gate csx a, b { ctrl @ sx a, b; }
+`
+
+type Modifier = { kind: string; token: QasmToken; argument?: QasmExpression }
+
+interface GateCall {
+  name: QasmToken
+  modifiers: Modifier[]
+  params: QasmExpression[]
+  qubits: QasmToken[]
+}
+
+interface GateDefinition {
+  params: string[]
+  qubits: string[]
+  body: GateCall[]
+}
+
+// Operations while expanding a gate, before the global phase is dropped
+type ExpandedOperation = GateOperation | { type: "gphase"; angle: number }
+
+interface QuantumRegister {
+  offset: number
+  size: number
+}
+
+type QasmArgument = { token: QasmToken; register: string; index?: number }
+
+function invertAll(operations: ExpandedOperation[]): ExpandedOperation[] {
+  return operations
+    .slice()
+    .reverse()
+    .map((operation): ExpandedOperation =>
+      operation.type === "gphase" ? { type: "gphase", angle: -operation.angle } : invertOperation(operation),
+    )
+}
+
+// Controlled versions of every operation; a controlled global phase is a phase gate on the controls
+function controlAll(operations: ExpandedOperation[], controls: number[]): ExpandedOperation[] {
+  return operations.map((operation): ExpandedOperation => {
+    if (operation.type !== "gphase") return controlOperation(operation, controls)
+    const target = controls[controls.length - 1]
+    const rest = controls.slice(0, -1)
+    return rest.length > 0
+      ? { type: "controlled", gate: "P", controls: rest, target, params: [operation.angle] }
+      : { type: "single", gate: "P", target, params: [operation.angle] }
+  })
+}
+
+class Qasm3Parser {
+  private readonly stream: QasmTokenStream
+  private readonly library: Record<string, GateDefinition> = {}
+  private readonly definitions: Record<string, GateDefinition> = {}
+  private readonly qregs: Record<string, QuantumRegister> = {}
+  private readonly cregs: ClassicalRegister[] = []
+  private readonly scope: Record<string, number> = {}
+  private readonly operations: GateOperation[] = []
+  private readonly positions: QasmToken[] = []
+  private numQubits = 0
+  private includesStdgates = false
+  private condition?: GateOperation["condition"]
+  private blockDepth = 0
+
+  constructor(
+    source: string,
+    private readonly inputs: Record<string, number>,
+  ) {
+    this.stream = new QasmTokenStream(tokenizeQasm(source))
+    const library = new QasmTokenStream(tokenizeQasm(stdgatesDefinitions))
+    this.includesStdgates = true
+    while (library.peek().type !== "eof") this.parseGateDefinition(library, this.library)
+    this.includesStdgates = false
+  }
+
+  parse(): Circuit {
+    const stream = this.stream
+    // The version header is optional in QASM 3
+    if (stream.accept("OPENQASM")) {
+      const version = stream.next()
+      if (version.type !== "number" || !version.value.startsWith("3")) {
+        throw stream.error(`Unsupported OpenQASM version ${describeToken(version)}, expected 3`, version)
+      }
+      stream.expect(";")
+    }
+
+    while (stream.peek().type !== "eof") this.parseStatement()
+
+    if (this.numQubits === 0) throw stream.error("Circuit declares no qubits")
+    try {
+      return new Circuit(this.numQubits, this.operations, this.cregs)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const match = /^Operation (\d+): (.*)$/.exec(message)
+      const token = match ? this.positions[Number(match[1])] : stream.peek()
+      throw stream.error(match ? match[2] : message, token)
+    }
+  }
+
+  private parseStatement(): void {
+    const stream = this.stream
+    const token = stream.peek()
+    if (token.type !== "identifier") throw stream.error(`Unexpected ${describeToken(token)}`)
+
+    if (this.blockDepth > 0 && topLevelStatements.has(token.value)) {
+      throw stream.error(`"${token.value}" is only allowed at the top level, not inside if or for blocks`)
+    }
+    if (unsupportedStatements[token.value]) {
+      throw stream.error(`Unsupported OpenQASM 3 feature: ${unsupportedStatements[token.value]}`)
+    }
+
+    switch (token.value) {
+      case "include": {
+        stream.next()
+        const file = stream.next()
+        if (file.type !== "string") throw stream.error("Expected a file name string", file)
+        if (file.value !== "stdgates.inc") {
+          throw stream.error(`Only "stdgates.inc" can be included, not "${file.value}"`, file)
+        }
+        stream.expect(";")
+        this.includesStdgates = true
+        return
+      }
+      case "qubit":
+      case "bit":
+      case "qreg":
+      case "creg":
+        return this.parseRegister()
+      case "input":
+      case "const":
+        return this.parseClassicalDeclaration()
+      case "gate":
+        return this.parseGateDefinition(stream, this.definitions)
+      case "barrier":
+        stream.next()
+        if (!stream.at(";")) this.parseArguments()
+        stream.expect(";")
+        return
+      case "reset": {
+        stream.next()
+        const qubit = this.parseArgument()
+        stream.expect(";")
+        for (const target of this.resolveQubits(qubit)) this.add(token, { type: "reset", target })
+        return
+      }
+      case "measure": {
+        stream.next()
+        const qubit = this.parseArgument()
+        const bit = stream.accept("->") ? this.parseArgument() : undefined
+        stream.expect(";")
+        return this.measure(token, qubit, bit)
+      }
+      case "if":
+        return this.parseIf()
+      case "for":
+        return this.parseFor()
+    }
+
+    // "c[0] = measure q[0];" or "c = measure q;"
+    if (
+      this.cregs.some((creg) => creg.name === token.value) &&
+      (stream.peek(1).value === "=" || stream.peek(1).value === "[")
+    ) {
+      const bit = this.parseArgument()
+      stream.expect("=")
+      const measureToken = stream.expect("measure")
+      const qubit = this.parseArgument()
+      stream.expect(";")
+      return this.measure(measureToken, qubit, bit)
+    }
+
+    this.parseGateStatement()
+  }
+
+  private parseRegister(): void {
+    const stream = this.stream
+    const kind = stream.next().value
+    let size = 1
+    let name: QasmToken
+    if (kind === "qreg" || kind === "creg") {
+      name = stream.expectIdentifier()
+      stream.expect("[")
+      size = this.evaluateInteger(stream.parseExpression(), name)
+      stream.expect("]")
+    } else {
+      if (stream.accept("[")) {
+        size = this.evaluateInteger(stream.parseExpression(), stream.peek())
+        stream.expect("]")
+      }
+      name = stream.expectIdentifier()
+    }
+    if (stream.at("=")) throw stream.error(`Initialising registers is not supported; use "${name.value} = measure ..."`)
+    stream.expect(";")
+
+    if (this.qregs[name.value] || this.cregs.some((creg) => creg.name === name.value) || name.value in this.scope) {
+      throw stream.error(`"${name.value}" is already declared`, name)
+    }
+    if (size < 1) throw stream.error("Register size must be at least 1", name)
+
+    if (kind === "qubit" || kind === "qreg") {
+      if (this.numQubits + size > MAX_STATE_VECTOR_QUBITS) {
+        throw stream.error(`Circuit exceeds the ${MAX_STATE_VECTOR_QUBITS}-qubit simulator limit`, name)
+      }
+      this.qregs[name.value] = { offset: this.numQubits, size }
+      this.numQubits += size
+    } else {
+      this.cregs.push({ name: name.value, size })
+    }
+  }
+
+  // "input float[64] theta;" takes its value from the parse options, "const int n = 3;" from the expression
+  private parseClassicalDeclaration(): void {
+    const stream = this.stream
+    const kind = stream.next().value
+    const type = stream.expectIdentifier()
+    if (!classicalTypes.has(type.value)) {
+      throw stream.error(`Unsupported ${kind} type "${type.value}"; use float, angle, int, uint or bool`, type)
+    }
+    if (stream.accept("[")) {
+      stream.parseExpression()
+      stream.expect("]")
+    }
+    const name = stream.expectIdentifier()
+    if (name.value in this.scope || this.qregs[name.value] || this.cregs.some((creg) => creg.name === name.value)) {
+      throw stream.error(`"${name.value}" is already declared`, name)
+    }
+
+    let value: number
+    if (kind === "const") {
+      stream.expect("=")
+      value = stream.parseExpression()(this.scope)
+    } else {
+      value = this.inputs[name.value]
+      if (value === undefined) throw stream.error(`Input "${name.value}" needs a value`, name)
+    }
+    stream.expect(";")
+
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw stream.error(`"${name.value}" must be a finite number`, name)
+    }
+    if (["int", "uint", "bool"].includes(type.value) && !Number.isInteger(value)) {
+      throw stream.error(`"${name.value}" is declared ${type.value} but has the value ${value}`, name)
+    }
+    this.scope[name.value] = value
+  }
+
+  private parseGateDefinition(stream: QasmTokenStream, into: Record<string, GateDefinition>): void {
+    stream.expect("gate")
+    const name = stream.expectIdentifier()
+    if (this.lookupGate(name.value)) throw stream.error(`Gate "${name.value}" is already defined`, name)
+
+    const params: string[] = []
+    if (stream.accept("(") && !stream.accept(")")) {
+      do {
+        params.push(stream.expectIdentifier().value)
+      } while (stream.accept(","))
+      stream.expect(")")
+    }
+    const qubits: string[] = []
+    do {
+      qubits.push(stream.expectIdentifier().value)
+    } while (stream.accept(","))
+
+    const body: GateCall[] = []
+    stream.expect("{")
+    while (!stream.accept("}")) {
+      if (stream.accept("barrier")) {
+        while (!stream.accept(";")) stream.next()
+        continue
+      }
+      const token = stream.peek()
+      if (
+        token.type === "identifier" &&
+        (unsupportedStatements[token.value] || ["if", "for", "measure", "reset"].includes(token.value))
+      ) {
+        throw stream.error(`Gate bodies may only contain gate calls, gphase and barrier, not "${token.value}"`)
+      }
+
+      const modifiers = this.parseModifiers(stream)
+      const call = stream.expectIdentifier()
+      if (!this.lookupGate(call.value)) throw this.unknownGate(stream, call)
+      const callParams = this.parseParameters(stream)
+      const callQubits: QasmToken[] = []
+      if (!stream.at(";")) {
+        do {
+          const qubit = stream.expectIdentifier()
+          if (!qubits.includes(qubit.value)) throw stream.error(`Unknown gate argument "${qubit.value}"`, qubit)
+          callQubits.push(qubit)
+        } while (stream.accept(","))
+      }
+      stream.expect(";")
+      body.push({ name: call, modifiers, params: callParams, qubits: callQubits })
+    }
+
+    into[name.value] = { params, qubits, body }
+  }
+
+  private parseModifiers(stream: QasmTokenStream): Modifier[] {
+    const modifiers: Modifier[] = []
+    while (modifierNames.some((name) => stream.at(name)) && ["@", "("].includes(stream.peek(1).value)) {
+      const token = stream.next()
+      let argument: QasmExpression | undefined
+      if (token.value !== "inv" && stream.accept("(")) {
+        argument = stream.parseExpression()
+        stream.expect(")")
+      }
+      if (token.value === "pow" && !argument) throw stream.error('pow needs an exponent, e.g. "pow(2) @"', token)
+      stream.expect("@")
+      modifiers.push({ kind: token.value, token, argument })
+    }
+    return modifiers
+  }
+
+  private parseParameters(stream: QasmTokenStream): QasmExpression[] {
+    const params: QasmExpression[] = []
+    if (stream.accept("(") && !stream.accept(")")) {
+      do {
+        params.push(stream.parseExpression())
+      } while (stream.accept(","))
+      stream.expect(")")
+    }
+    return params
+  }
+
+  // Builtins, then the program's own gates, then stdgates.inc once it is included
+  private lookupGate(name: string): { qubits: number; params: number; definition?: GateDefinition } | undefined {
+    if (name === "U") return qelib1Gates.U
+    if (name === "gphase") return { qubits: 0, params: 1 }
+    const definition = this.definitions[name] ?? (this.includesStdgates ? this.library[name] : undefined)
+    if (definition) return { qubits: definition.qubits.length, params: definition.params.length, definition }
+    return this.includesStdgates ? stdgates[name] : undefined
+  }
+
+  private unknownGate(stream: QasmTokenStream, name: QasmToken) {
+    if (stdgates[name.value] || this.library[name.value]) {
+      return stream.error(`Gate "${name.value}" is defined in stdgates.inc; add include "stdgates.inc";`, name)
+    }
+    return stream.error(`Unknown gate "${name.value}"`, name)
+  }
+
+  // Gate call with modifiers, broadcast over register arguments
+  private parseGateStatement(): void {
+    const stream = this.stream
+    const modifiers = this.parseModifiers(stream)
+    const name = stream.expectIdentifier()
+    if (!this.lookupGate(name.value)) throw this.unknownGate(stream, name)
+    const params = this.parseParameters(stream).map((param) => param(this.scope))
+    const args = stream.at(";") ? [] : this.parseArguments()
+    stream.expect(";")
+
+    const resolved = args.map((arg) => this.resolveQubits(arg))
+    const broadcast = Math.max(1, ...resolved.map((qubits) => qubits.length))
+    if (resolved.some((qubits) => qubits.length !== 1 && qubits.length !== broadcast)) {
+      throw stream.error("Register arguments must have the same size", name)
+    }
+    for (let i = 0; i < broadcast; i++) {
+      const qubits = resolved.map((register) => (register.length === 1 ? register[0] : register[i]))
+      if (new Set(qubits).size !== qubits.length) throw stream.error(`Repeated qubit in "${name.value}"`, name)
+      for (const operation of this.expand(stream, name, modifiers, params, qubits, this.scope)) {
+        // A global phase is unobservable outside a controlled gate
+        if (operation.type !== "gphase") this.add(name, operation)
+      }
+    }
+  }
+
+  // Operations for one gate call. Modifiers apply right to left, and the control qubits of the
+  // outermost ctrl come first in the argument list.
+  private expand(
+    stream: QasmTokenStream,
+    name: QasmToken,
+    modifiers: Modifier[],
+    params: number[],
+    qubits: number[],
+    scope: Record<string, number>,
+  ): ExpandedOperation[] {
+    const gate = this.lookupGate(name.value)!
+    const controlCounts = modifiers.map((modifier) =>
+      modifier.kind === "ctrl" || modifier.kind === "negctrl"
+        ? modifier.argument
+          ? this.evaluateInteger(modifier.argument, modifier.token, scope)
+          : 1
+        : 0,
+    )
+    const controlCount = controlCounts.reduce((sum, count) => sum + count, 0)
+    if (params.length !== gate.params) {
+      throw stream.error(`Gate "${name.value}" takes ${gate.params} parameter(s), got ${params.length}`, name)
+    }
+    if (qubits.length !== controlCount + gate.qubits) {
+      const expected = controlCount ? `${controlCount} control(s) and ${gate.qubits}` : `${gate.qubits}`
+      throw stream.error(`Gate "${name.value}" acts on ${expected} qubit(s), got ${qubits.length}`, name)
+    }
+
+    let operations = this.baseOperations(stream, name, params, qubits.slice(controlCount), scope)
+    let remaining = qubits.slice(0, controlCount)
+    for (let i = modifiers.length - 1; i >= 0; i--) {
+      const modifier = modifiers[i]
+      try {
+        if (modifier.kind === "inv") {
+          operations = invertAll(operations)
+        } else if (modifier.kind === "pow") {
+          operations = this.power(operations, modifier.argument!(scope))
+        } else {
+          const controls = remaining.slice(remaining.length - controlCounts[i])
+          remaining = remaining.slice(0, remaining.length - controlCounts[i])
+          const controlled = controlAll(operations, controls)
+          const flips = controls.map((target): GateOperation => ({ type: "single", gate: "X", target }))
+          operations = modifier.kind === "negctrl" ? [...flips, ...controlled, ...flips] : controlled
+        }
+      } catch (error) {
+        if (error instanceof Error && error.name !== "QasmParseError") throw stream.error(error.message, modifier.token)
+        throw error
+      }
+    }
+    return operations
+  }
+
+  private baseOperations(
+    stream: QasmTokenStream,
+    name: QasmToken,
+    params: number[],
+    qubits: number[],
+    scope: Record<string, number>,
+  ): ExpandedOperation[] {
+    if (name.value === "gphase") return [{ type: "gphase", angle: params[0] }]
+    const gate = this.lookupGate(name.value)!
+    if (!gate.definition) return (gate as NativeGate).build(params, qubits)
+
+    const definition = gate.definition
+    const inner = { ...scope, ...Object.fromEntries(definition.params.map((param, i) => [param, params[i]])) }
+    const wires = Object.fromEntries(definition.qubits.map((qubit, i) => [qubit, qubits[i]]))
+    return definition.body.flatMap((call) =>
+      this.expand(
+        stream,
+        call.name,
+        call.modifiers,
+        call.params.map((param) => param(inner)),
+        call.qubits.map((qubit) => wires[qubit.value]),
+        inner,
+      ),
+    )
+  }
+
+  // Integer powers repeat the gate (negative ones repeat its inverse); fractional powers only have
+  // an obvious meaning for rotations and phases
+  private power(operations: ExpandedOperation[], exponent: number): ExpandedOperation[] {
+    if (Number.isInteger(exponent)) {
+      const unit = exponent < 0 ? invertAll(operations) : operations
+      return Array.from({ length: Math.abs(exponent) }, () => unit).flat()
+    }
+    const [operation] = operations
+    if (operations.length === 1 && operation.type === "gphase") {
+      return [{ type: "gphase", angle: operation.angle * exponent }]
+    }
+    if (
+      operations.length === 1 &&
+      operation.type !== "gphase" &&
+      ["RX", "RY", "RZ", "P"].includes(operation.gate ?? "") &&
+      operation.params
+    ) {
+      return [{ ...operation, params: [operation.params[0] * exponent] }]
+    }
+    throw new Error(`pow(${exponent}) is only supported on rx, ry, rz and p; use an integer exponent`)
+  }
+
+  private parseIf(): void {
+    const stream = this.stream
+    const token = stream.expect("if")
+    if (this.condition) throw stream.error("Nested if statements are not supported", token)
+    stream.expect("(")
+    const { register, value } = this.parseCondition()
+    stream.expect(")")
+
+    this.parseBlock({ register: register.name, value })
+    if (stream.at("else")) {
+      const elseToken = stream.next()
+      if (register.size !== 1) {
+        throw stream.error("else is only supported when the condition tests a single-bit register", elseToken)
+      }
+      this.parseBlock({ register: register.name, value: 1 - value })
+    }
+  }
+
+  // "c == 2", "c[0] == 1", "c[0]", "!c[0]" or "c != 1"; the circuit model compares whole registers
+  private parseCondition(): { register: ClassicalRegister; value: number } {
+    const stream = this.stream
+    const negated = stream.accept("!")
+    const name = stream.expectIdentifier()
+    const register = this.cregs.find((creg) => creg.name === name.value)
+    if (!register) throw stream.error(`Unknown classical register "${name.value}"`, name)
+
+    if (stream.accept("[")) {
+      this.evaluateInteger(stream.parseExpression(), name)
+      stream.expect("]")
+      if (register.size !== 1) {
+        throw stream.error(
+          `Conditions on one bit of the ${register.size}-bit register "${name.value}" are not supported; compare the whole register, e.g. if (${name.value} == 1)`,
+          name,
+        )
+      }
+    }
+
+    if (negated || (!stream.at("==") && !stream.at("!="))) {
+      if (register.size !== 1) {
+        throw stream.error(
+          `Compare the ${register.size}-bit register "${name.value}" to a value, e.g. if (${name.value} == 1)`,
+          name,
+        )
+      }
+      return { register, value: negated ? 0 : 1 }
+    }
+
+    const operator = stream.next()
+    const value = this.evaluateInteger(stream.parseExpression(), operator)
+    if (operator.value === "==") return { register, value }
+    if (register.size !== 1 || value > 1) {
+      throw stream.error('"!=" is only supported on single-bit registers; use "==" with a value', operator)
+    }
+    return { register, value: 1 - value }
+  }
+
+  // "for int i in [0:3] { ... }": the body is parsed again for each value of the loop variable
+  private parseFor(): void {
+    const stream = this.stream
+    const token = stream.expect("for")
+    if (stream.peek(1).value !== "in") {
+      const type = stream.expectIdentifier()
+      if (!["int", "uint"].includes(type.value)) throw stream.error("Loop variables must be int or uint", type)
+      if (stream.accept("[")) {
+        stream.parseExpression()
+        stream.expect("]")
+      }
+    }
+    const variable = stream.expectIdentifier()
+    stream.expect("in")
+
+    const values: number[] = []
+    if (stream.accept("{")) {
+      do {
+        values.push(this.evaluateInteger(stream.parseExpression(), variable))
+      } while (stream.accept(","))
+      stream.expect("}")
+    } else {
+      stream.expect("[")
+      const bounds = [this.evaluateInteger(stream.parseExpression(), variable, this.scope, true)]
+      while (stream.accept(":")) bounds.push(this.evaluateInteger(stream.parseExpression(), variable, this.scope, true))
+      stream.expect("]")
+      if (bounds.length < 2 || bounds.length > 3)
+        throw stream.error("Expected a range [start:end] or [start:step:end]", token)
+      const [start, step, end] = bounds.length === 2 ? [bounds[0], 1, bounds[1]] : bounds
+      if (step === 0) throw stream.error("Range step must not be zero", token)
+      // Ranges include their end
+      for (let i = start; step > 0 ? i <= end : i >= end; i += step) {
+        values.push(i)
+        if (values.length > MAX_QASM3_LOOP_ITERATIONS) break
+      }
+    }
+    if (values.length > MAX_QASM3_LOOP_ITERATIONS) {
+      throw stream.error(`Loops are unrolled and limited to ${MAX_QASM3_LOOP_ITERATIONS} iterations`, token)
+    }
+
+    const body = stream.mark()
+    if (values.length === 0) return this.skipBlock()
+    const shadowed = this.scope[variable.value]
+    for (const value of values) {
+      stream.seek(body)
+      this.scope[variable.value] = value
+      this.parseBlock(this.condition)
+    }
+    if (shadowed === undefined) delete this.scope[variable.value]
+    else this.scope[variable.value] = shadowed
+  }
+
+  // One statement or a braced block, with the condition applied to its operations
+  private parseBlock(condition: GateOperation["condition"]): void {
+    const stream = this.stream
+    const outer = this.condition
+    this.condition = condition
+    this.blockDepth++
+    if (stream.accept("{")) {
+      while (!stream.accept("}")) {
+        if (stream.peek().type === "eof") throw stream.error('Expected "}" but found end of input')
+        this.parseStatement()
+      }
+    } else {
+      this.parseStatement()
+    }
+    this.blockDepth--
+    this.condition = outer
+  }
+
+  // Skip the body of a loop that runs no iterations
+  private skipBlock(): void {
+    const stream = this.stream
+    let depth = 0
+    for (;;) {
+      const token = stream.next()
+      if (token.type === "eof") throw stream.error("Unexpected end of input", token)
+      if (token.value === "{") depth++
+      const closes = (token.value === "}" && --depth === 0) || (token.value === ";" && depth === 0)
+      if (closes && !stream.at("else")) return
+    }
+  }
+
+  private measure(token: QasmToken, qubit: QasmArgument, bit?: QasmArgument): void {
+    const qubits = this.resolveQubits(qubit)
+    if (!bit) {
+      for (const target of qubits) this.add(token, { type: "measure", target })
+      return
+    }
+    const bits = this.resolveBits(bit)
+    if (qubits.length !== bits.length) {
+      throw this.stream.error(`Cannot measure ${qubits.length} qubit(s) into ${bits.length} bit(s)`, bit.token)
+    }
+    qubits.forEach((target, i) =>
+      this.add(token, { type: "measure", target, classicalBit: { register: bit.register, index: bits[i] } }),
+    )
+  }
+
+  // "name" or "name[index]", where the index may use constants and loop variables
+  private parseArgument(): QasmArgument {
+    const stream = this.stream
+    const token = stream.expectIdentifier()
+    let index: number | undefined
+    if (stream.accept("[")) {
+      index = this.evaluateInteger(stream.parseExpression(), token)
+      if (stream.at(":") || stream.at(",")) throw stream.error("Register slices are not supported")
+      stream.expect("]")
+    }
+    return { token, register: token.value, index }
+  }
+
+  private parseArguments(): QasmArgument[] {
+    const args = [this.parseArgument()]
+    while (this.stream.accept(",")) args.push(this.parseArgument())
+    return args
+  }
+
+  private evaluateInteger(
+    expression: QasmExpression,
+    token: QasmToken,
+    scope = this.scope,
+    allowNegative = false,
+  ): number {
+    const value = expression(scope)
+    if (!Number.isInteger(value) || (!allowNegative && value < 0)) {
+      throw this.stream.error(`Expected a${allowNegative ? "n" : " non-negative"} integer, got ${value}`, token)
+    }
+    return value
+  }
+
+  private resolveQubits(arg: QasmArgument): number[] {
+    const register = this.qregs[arg.register]
+    if (!register) throw this.stream.error(`Unknown qubit or quantum register "${arg.register}"`, arg.token)
+    if (arg.index === undefined) return Array.from({ length: register.size }, (_, i) => register.offset + i)
+    if (arg.index >= register.size) {
+      throw this.stream.error(`Index ${arg.index} out of range for ${arg.register}[${register.size}]`, arg.token)
+    }
+    return [register.offset + arg.index]
+  }
+
+  private resolveBits(arg: QasmArgument): number[] {
+    const register = this.cregs.find((creg) => creg.name === arg.register)
+    if (!register) throw this.stream.error(`Unknown bit register "${arg.register}"`, arg.token)
+    if (arg.index === undefined) return Array.from({ length: register.size }, (_, i) => i)
+    if (arg.index >= register.size) {
+      throw this.stream.error(`Index ${arg.index} out of range for ${arg.register}[${register.size}]`, arg.token)
+    }
+    return [arg.index]
+  }
+
+  private add(token: QasmToken, operation: GateOperation): void {
+    if (this.operations.length >= MAX_QASM3_OPERATIONS) {
+      throw this.stream.error(`Circuit exceeds ${MAX_QASM3_OPERATIONS} operations`, token)
+    }
+    // Each operation checks the condition on its own, so writing the register would change the test for the
+    // rest of the block and let an else block run on the same shot
+    if (this.condition && operation.classicalBit?.register === this.condition.register) {
+      throw this.stream.error(
+        `Measuring into "${this.condition.register}" inside an if on it is not supported; measure into another register`,
+        token,
+      )
+    }
+    this.operations.push(this.condition ? { ...operation, condition: this.condition } : operation)
+    this.positions.push(token)
+  }
+}
+
+// Parse an OpenQASM 3 program in the supported subset; errors are QasmParseErrors with the line and
+// column. Inputs are bound to the given values, since circuits hold concrete parameters.
+export function parseQasm3(source: string, options: Qasm3ParseOptions = {}): Circuit {
+  return new Qasm3Parser(source, options.inputs ?? {}).parse()
+}
+
+// Names of the "input" declarations in a program, so a UI can ask for their values
+export function qasm3Inputs(source: string): string[] {
+  let tokens: QasmToken[]
+  try {
+    tokens = tokenizeQasm(source)
+  } catch {
+    return []
+  }
+  const names: string[] = []
+  tokens.forEach((token, i) => {
+    if (token.type !== "identifier" || token.value !== "input") return
+    const end = tokens.findIndex((t, j) => j > i && t.value === ";")
+    const name = tokens[end - 1]
+    if (end > 0 && name.type === "identifier" && !names.includes(name.value)) names.push(name.value)
+  })
+  return names
+}
+
+// Major version from the "OPENQASM x;" header; programs without one are QASM 3
+export function qasmVersion(source: string): 2 | 3 {
+  const match = /^\s*(?:(?:\/\/[^\n]*\n|\/\*[\s\S]*?\*\/)\s*)*OPENQASM\s+(\d+)/.exec(source)
+  return match && match[1] === "2" ? 2 : 3
+}
+
+const qasm3GateNames: Record<string, string> = {
+  X: "x",
+  Y: "y",
+  Z: "z",
+  H: "h",
+  I: "id",
+  S: "s",
+  Sdg: "sdg",
+  T: "t",
+  Tdg: "tdg",
+  RX: "rx",
+  RY: "ry",
+  RZ: "rz",
+  P: "p",
+  U3: "U",
+}
+
+const controlledQasm3GateNames: Record<string, string> = {
+  X: "cx",
+  Y: "cy",
+  Z: "cz",
+  H: "ch",
+  RX: "crx",
+  RY: "cry",
+  RZ: "crz",
+  P: "cp",
+}
+
+const iswapDefinition = "gate iswap a, b { s a; s b; h a; cx a, b; cx b, a; h b; }"
+
+// Emit an OpenQASM 3 program. Every operation of the circuit model can be written, using ctrl @ for
+// controlled gates that have no stdgates.inc name.
+export function toQasm3(circuit: Circuit): string {
+  const cregNames = new Set(circuit.classicalRegisters.map((register) => register.name))
+  const unique = (base: string) => {
+    let name = base
+    for (let k = 0; cregNames.has(name); k++) name = `${base}${k}`
+    return name
+  }
+  const q = unique("q")
+  const needsMeasureRegister = circuit.operations.some((op) => op.type === "measure" && !op.classicalBit)
+  const measureRegister = needsMeasureRegister ? unique("meas") : ""
+
+  const qubit = (index: number) => `${q}[${index}]`
+  const call = (name: string, params: number[] | undefined, qubits: number[], controls = 0) => {
+    const modifier = controls === 0 ? "" : controls === 1 ? "ctrl @ " : `ctrl(${controls}) @ `
+    const args = params && params.length ? `(${params.map(formatQasmAngle).join(", ")})` : ""
+    return `${modifier}${name}${args} ${qubits.map(qubit).join(", ")};`
+  }
+
+  const line = (operation: GateOperation): string => {
+    const controls = operation.controls ?? []
+    switch (operation.type) {
+      case "single":
+        return call(qasm3GateNames[operation.gate ?? ""], operation.params, [operation.target])
+      case "cnot":
+        return call("cx", [], [operation.control!, operation.target])
+      case "controlled": {
+        const gate = operation.gate ?? ""
+        const qubits = [...controls, operation.target]
+        if (controls.length === 1 && controlledQasm3GateNames[gate]) {
+          return call(controlledQasm3GateNames[gate], operation.params, qubits)
+        }
+        if (controls.length === 2 && gate === "X") return call("ccx", [], qubits)
+        return call(qasm3GateNames[gate], operation.params, qubits, controls.length)
+      }
+      case "multi": {
+        const qubits = [...controls, ...(operation.targets ?? [operation.target])]
+        if (operation.gate === "SWAP" && controls.length === 1) return call("cswap", [], qubits)
+        return call(operation.gate === "SWAP" ? "swap" : "iswap", [], qubits, controls.length)
+      }
+      case "measure": {
+        const bit = operation.classicalBit ?? { register: measureRegister, index: operation.target }
+        return `${bit.register}[${bit.index}] = measure ${qubit(operation.target)};`
+      }
+      case "reset":
+        return `reset ${qubit(operation.target)};`
+    }
+  }
+
+  // Consecutive operations under the same condition share an if block
+  const body: string[] = []
+  circuit.operations.forEach((operation, index) => {
+    const condition = operation.condition
+    if (!condition) {
+      body.push(line(operation))
+      return
+    }
+    const previous = circuit.operations[index - 1]?.condition
+    if (previous?.register === condition.register && previous.value === condition.value) {
+      body.splice(body.length - 1, 0, `  ${line(operation)}`)
+    } else {
+      body.push(`if (${condition.register} == ${condition.value}) {`, `  ${line(operation)}`, "}")
+    }
+  })
+
+  return [
+    "OPENQASM 3.0;",
+    'include "stdgates.inc";',
+    ...(circuit.operations.some((op) => op.type === "multi" && op.gate === "iSWAP") ? [iswapDefinition] : []),
+    `qubit[${circuit.numQubits}] ${q};`,
+    ...circuit.classicalRegisters.map((register) => `bit[${register.size}] ${register.name};`),
+    ...(needsMeasureRegister ? [`bit[${circuit.numQubits}] ${measureRegister};`] : []),
+    ...body,
+    "",
+  ].join("\n")
+}
@@ -0,0 +1,173 @@
+// Quantum Fourier transform and phase estimation, as operations in the circuit model. A register lists its qubits
+// most significant first, so on qubits [0…n-1] QFT|x⟩ = Σ_y e^(2πi xy / 2ⁿ) |y⟩ / √2ⁿ with x and y read q0 first.
+import { Circuit, controlOperation, invertOperation } from "@/lib/circuit"
+import { resolveGate, type Complex, type GateOperation, type QuantumGate } from "@/lib/quantum-simulator"
+
+export const MAX_QPE_PRECISION = 8
+
+export interface QftOptions {
+  approximationDegree?: number // drop the controlled phases this many levels smallest (default 0, exact)
+  swaps?: boolean // reverse the qubit order at the end, as the textbook transform does (default true)
+}
+
+export interface Eigenpair {
+  phase: number // eigenvalue e^(2πi·phase), phase in [0, 1)
+  vector: [Complex, Complex]
+}
+
+export interface PhaseEstimation {
+  circuit: Circuit // counting qubits 0…precision-1 (measured), target qubit last
+  eigenpairs: Eigenpair[]
+  phase: number // eigenphase of the prepared eigenstate
+}
+
+export interface PhaseEstimationOptions {
+  precision: number // counting qubits, the bits of phase read out
+  eigenstate?: number // which eigenvector of the gate to prepare (default 0)
+  approximationDegree?: number
+}
+
+export function qftOperations(qubits: number[], options: QftOptions = {}): GateOperation[] {
+  const degree = options.approximationDegree ?? 0
+  if (!Number.isInteger(degree) || degree < 0) {
+    throw new Error(`The approximation degree must be a non-negative integer, got ${degree}`)
+  }
+  const operations: GateOperation[] = []
+  qubits.forEach((target, j) => {
+    operations.push({ type: "single", gate: "H", target })
+    // Controlled phase π / 2^distance from each less significant qubit
+    for (let k = j + 1; k < qubits.length; k++) {
+      const distance = k - j
+      if (distance >= qubits.length - degree) continue
+      operations.push({
+        type: "controlled",
+        gate: "P",
+        controls: [qubits[k]],
+        target,
+        params: [Math.PI / 2 ** distance],
+      })
+    }
+  })
+  if (options.swaps ?? true) {
+    for (let i = 0; i < Math.floor(qubits.length / 2); i++) {
+      operations.push({
+        type: "multi",
+        gate: "SWAP",
+        target: qubits[i],
+        targets: [qubits[i], qubits[qubits.length - 1 - i]],
+      })
+    }
+  }
+  return operations
+}
+
+export function inverseQftOperations(qubits: number[], options: QftOptions = {}): GateOperation[] {
+  return qftOperations(qubits, options).reverse().map(invertOperation)
+}
+
+export function qftCircuit(numQubits: number, options: QftOptions = {}): Circuit {
+  return new Circuit(
+    numQubits,
+    qftOperations(
+      Array.from({ length: numQubits }, (_, q) => q),
+      options,
+    ),
+  )
+}
+
+export function inverseQftCircuit(numQubits: number, options: QftOptions = {}): Circuit {
+  return new Circuit(
+    numQubits,
+    inverseQftOperations(
+      Array.from({ length: numQubits }, (_, q) => q),
+      options,
+    ),
+  )
+}
+
+const c = (real: number, imag = 0): Complex => ({ real, imag })
+const mul = (a: Complex, b: Complex) => c(a.real * b.real - a.imag * b.imag, a.real * b.imag + a.imag * b.real)
+const sub = (a: Complex, b: Complex) => c(a.real - b.real, a.imag - b.imag)
+const magnitude = (a: Complex) => Math.hypot(a.real, a.imag)
+
+function complexSqrt(a: Complex): Complex {
+  const r = Math.sqrt(magnitude(a))
+  const angle = Math.atan2(a.imag, a.real) / 2
+  return c(r * Math.cos(angle), r * Math.sin(angle))
+}
+
+// Eigenvalues from λ² - tr λ + det = 0 and eigenvectors from the rows of U - λI, sorted by phase
+export function singleQubitEigenpairs(gate: QuantumGate): Eigenpair[] {
+  const [[a, b], [cc, d]] = gate
+  const trace = c(a.real + d.real, a.imag + d.imag)
+  const det = sub(mul(a, d), mul(b, cc))
+  const root = complexSqrt(sub(mul(trace, trace), mul(c(4), det)))
+  const values = [
+    c((trace.real + root.real) / 2, (trace.imag + root.imag) / 2),
+    c((trace.real - root.real) / 2, (trace.imag - root.imag) / 2),
+  ]
+  const degenerate = magnitude(root) < 1e-9
+
+  return values
+    .map((value, i): Eigenpair => {
+      let vector: [Complex, Complex]
+      if (degenerate) vector = i === 0 ? [c(1), c(0)] : [c(0), c(1)]
+      else if (magnitude(b) > 1e-12) vector = [b, sub(value, a)]
+      else if (magnitude(cc) > 1e-12) vector = [sub(value, d), cc]
+      else vector = magnitude(sub(value, a)) < 1e-9 ? [c(1), c(0)] : [c(0), c(1)]
+      const norm = Math.hypot(magnitude(vector[0]), magnitude(vector[1]))
+      const phase = Math.atan2(value.imag, value.real) / (2 * Math.PI)
+      return {
+        phase: phase < -1e-12 ? phase + 1 : Math.max(0, phase),
+        vector: [c(vector[0].real / norm, vector[0].imag / norm), c(vector[1].real / norm, vector[1].imag / norm)],
+      }
+    })
+    .sort((x, y) => x.phase - y.phase)
+}
+
+// U3 preparing a|0⟩ + b|1⟩ from |0⟩, up to global phase
+function preparation(vector: [Complex, Complex], target: number): GateOperation {
+  const [a, b] = vector
+  const theta = 2 * Math.atan2(magnitude(b), magnitude(a))
+  const phi = Math.atan2(b.imag, b.real) - Math.atan2(a.imag, a.real)
+  return { type: "single", gate: "U3", target, params: [theta, magnitude(b) < 1e-12 ? 0 : phi, 0] }
+}
+
+// Phase estimation of a single-qubit gate (a name from the simulator's gate set, with its parameters).
+// Counting qubit j controls U^(2^(precision-1-j)), so the readout is the phase's binary fraction, q0 first.
+export function phaseEstimation(gateName: string, params: number[], options: PhaseEstimationOptions): PhaseEstimation {
+  const { precision } = options
+  if (!Number.isInteger(precision) || precision < 1 || precision > MAX_QPE_PRECISION) {
+    throw new Error(`Precision must be 1-${MAX_QPE_PRECISION} counting qubits, got ${precision}`)
+  }
+  const gate = resolveGate(gateName, params)
+  if (!gate || gate.length !== 2) {
+    throw new Error(`${gateName} is not a single-qubit gate with ${params.length} parameters`)
+  }
+
+  const eigenpairs = singleQubitEigenpairs(gate)
+  const chosen = eigenpairs[options.eigenstate ?? 0]
+  if (!chosen) throw new Error(`Eigenstate must be 0 or 1, got ${options.eigenstate}`)
+
+  const target = precision
+  const counting = Array.from({ length: precision }, (_, q) => q)
+  const unitary: GateOperation = { type: "single", gate: gateName, target, ...(params.length ? { params } : {}) }
+  const operations: GateOperation[] = [
+    preparation(chosen.vector, target),
+    ...counting.map((q): GateOperation => ({ type: "single", gate: "H", target: q })),
+  ]
+  counting.forEach((q) => {
+    for (let power = 0; power < 2 ** (precision - 1 - q); power++) operations.push(controlOperation(unitary, [q]))
+  })
+  operations.push(
+    ...inverseQftOperations(counting, { approximationDegree: options.approximationDegree }),
+    ...counting.map((q): GateOperation => ({ type: "measure", target: q })),
+  )
+
+  return { circuit: new Circuit(precision + 1, operations), eigenpairs, phase: chosen.phase }
+}
+
+// Phase read from a counting-register bitstring, e.g. "011" → 3/8
+export function readoutPhase(bitstring: string): number {
+  return parseInt(bitstring, 2) / 2 ** bitstring.length
+}
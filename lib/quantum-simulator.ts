@@ -1,4 +1,8 @@
-// Quantum circuit simulator supporting up to 8 qubits
+// Quantum circuit simulator. The Complex[] functions below are adapters over the typed-array
+// engine in state-vector.ts, which scales to 16-20 qubits.
+import { StateVector } from "@/lib/state-vector"
+import { defaultRandom, type RandomSource } from "@/lib/random"
+
 export type Complex = { real: number; imag: number }
 export type QuantumState = Complex[]
 export type QuantumGate = Complex[][]
@@ -15,6 +19,10 @@ export const complex = {
   }),
   magnitude: (c: Complex): number => Math.sqrt(c.real * c.real + c.imag * c.imag),
   phase: (c: Complex): number => Math.atan2(c.imag, c.real),
+  fromPolar: (magnitude: number, phase: number): Complex => ({
+    real: magnitude * Math.cos(phase),
+    imag: magnitude * Math.sin(phase),
+  }),
 }
 
 // Initialize quantum state |00...0⟩
@@ -25,6 +33,68 @@ export function initializeQuantumState(numQubits: number): QuantumState {
   return state
 }
 
+// Gate factories for rotation and phase gates
+// Phase gate P(λ) = diag(1, e^{iλ})
+export function phaseGate(lambda: number): QuantumGate {
+  return [
+    [
+      { real: 1, imag: 0 },
+      { real: 0, imag: 0 },
+    ],
+    [{ real: 0, imag: 0 }, complex.fromPolar(1, lambda)],
+  ]
+}
+
+// Rotation about the X axis: RX(θ) = exp(-iθX/2)
+export function rxGate(theta: number): QuantumGate {
+  const c = Math.cos(theta / 2)
+  const s = Math.sin(theta / 2)
+  return [
+    [
+      { real: c, imag: 0 },
+      { real: 0, imag: -s },
+    ],
+    [
+      { real: 0, imag: -s },
+      { real: c, imag: 0 },
+    ],
+  ]
+}
+
+// Rotation about the Y axis: RY(θ) = exp(-iθY/2)
+export function ryGate(theta: number): QuantumGate {
+  const c = Math.cos(theta / 2)
+  const s = Math.sin(theta / 2)
+  return [
+    [
+      { real: c, imag: 0 },
+      { real: -s, imag: 0 },
+    ],
+    [
+      { real: s, imag: 0 },
+      { real: c, imag: 0 },
+    ],
+  ]
+}
+
+// Rotation about the Z axis: RZ(θ) = exp(-iθZ/2)
+export function rzGate(theta: number): QuantumGate {
+  return [
+    [complex.fromPolar(1, -theta / 2), { real: 0, imag: 0 }],
+    [{ real: 0, imag: 0 }, complex.fromPolar(1, theta / 2)],
+  ]
+}
+
+// General single-qubit gate U3(θ, φ, λ) (OpenQASM convention)
+export function u3Gate(theta: number, phi: number, lambda: number): QuantumGate {
+  const c = Math.cos(theta / 2)
+  const s = Math.sin(theta / 2)
+  return [
+    [{ real: c, imag: 0 }, complex.fromPolar(-s, lambda)],
+    [complex.fromPolar(s, phi), complex.fromPolar(c, phi + lambda)],
+  ]
+}
+
 // Quantum gates as matrices
 export const gates = {
   // Pauli-X (NOT gate)
@@ -86,6 +156,31 @@ export const gates = {
       { real: 1, imag: 0 },
     ],
   ] as QuantumGate,
+
+  // Phase gates
+  S: phaseGate(Math.PI / 2),
+  Sdg: phaseGate(-Math.PI / 2),
+  T: phaseGate(Math.PI / 4),
+  Tdg: phaseGate(-Math.PI / 4),
+}
+
+// Parameterized gates, keyed by name, with their parameter names in call order
+export const parameterizedGates: Record<string, { params: string[]; create: (...params: number[]) => QuantumGate }> = {
+  RX: { params: ["θ"], create: (theta) => rxGate(theta) },
+  RY: { params: ["θ"], create: (theta) => ryGate(theta) },
+  RZ: { params: ["θ"], create: (theta) => rzGate(theta) },
+  P: { params: ["λ"], create: (lambda) => phaseGate(lambda) },
+  U3: { params: ["θ", "φ", "λ"], create: (theta, phi, lambda) => u3Gate(theta, phi, lambda) },
+}
+
+// Resolve a gate name (and parameter values for parameterized gates) to its matrix
+export function resolveGate(name: string, params: number[] = []): QuantumGate | null {
+  if (name in gates) return gates[name as keyof typeof gates]
+  if (name in multiQubitGates) return multiQubitGates[name]
+
+  const factory = parameterizedGates[name]
+  if (!factory || params.length !== factory.params.length) return null
+  return factory.create(...params)
 }
 
 // Apply single-qubit gate to specific qubit
@@ -95,20 +190,7 @@ export function applySingleQubitGate(
   targetQubit: number,
   numQubits: number,
 ): QuantumState {
-  const newState: QuantumState = new Array(state.length).fill(null).map(() => ({ real: 0, imag: 0 }))
-
-  for (let i = 0; i < state.length; i++) {
-    const targetBit = (i >> (numQubits - 1 - targetQubit)) & 1
-    const flippedIndex = i ^ (1 << (numQubits - 1 - targetQubit))
-
-    // Apply gate matrix
-    const amp0 = complex.multiply(gate[targetBit][0], state[targetBit === 0 ? i : flippedIndex])
-    const amp1 = complex.multiply(gate[targetBit][1], state[targetBit === 1 ? i : flippedIndex])
-
-    newState[i] = complex.add(newState[i], complex.add(amp0, amp1))
-  }
-
-  return newState
+  return StateVector.fromComplexArray(state, numQubits).applySingleQubitGate(gate, targetQubit).toComplexArray()
 }
 
 // Apply CNOT gate
@@ -118,58 +200,143 @@ export function applyCNOTGate(
   targetQubit: number,
   numQubits: number,
 ): QuantumState {
-  const newState: QuantumState = [...state]
+  return StateVector.fromComplexArray(state, numQubits).applyCNOT(controlQubit, targetQubit).toComplexArray()
+}
 
-  for (let i = 0; i < state.length; i++) {
-    const controlBit = (i >> (numQubits - 1 - controlQubit)) & 1
-    const targetBit = (i >> (numQubits - 1 - targetQubit)) & 1
+// Two-qubit gates as 4x4 matrices (first target qubit is the high bit of the row/column index)
+const c = (real: number, imag = 0): Complex => ({ real, imag })
 
-    if (controlBit === 1) {
-      const flippedIndex = i ^ (1 << (numQubits - 1 - targetQubit))
-      const temp = newState[i]
-      newState[i] = newState[flippedIndex]
-      newState[flippedIndex] = temp
-    }
-  }
+export const multiQubitGates: Record<string, QuantumGate> = {
+  SWAP: [
+    [c(1), c(0), c(0), c(0)],
+    [c(0), c(0), c(1), c(0)],
+    [c(0), c(1), c(0), c(0)],
+    [c(0), c(0), c(0), c(1)],
+  ],
+  iSWAP: [
+    [c(1), c(0), c(0), c(0)],
+    [c(0), c(0), c(0, 1), c(0)],
+    [c(0), c(0, 1), c(0), c(0)],
+    [c(0), c(0), c(0), c(1)],
+  ],
+}
 
-  return newState
+// Apply a 2^k x 2^k unitary to k target qubits, optionally conditioned on all control qubits being |1⟩.
+// targets[0] corresponds to the most significant bit of the gate's row/column index.
+export function applyMultiQubitGate(
+  state: QuantumState,
+  gate: QuantumGate,
+  targets: number[],
+  numQubits: number,
+  controls: number[] = [],
+): QuantumState {
+  return StateVector.fromComplexArray(state, numQubits).applyMultiQubitGate(gate, targets, controls).toComplexArray()
 }
 
-// Measure qubit and collapse state
-export function measureQubit(
+// Apply a single-qubit gate to the target, conditioned on every control qubit being |1⟩
+// (CZ, CRZ, Toffoli and any controlled-U)
+export function applyControlledGate(
   state: QuantumState,
-  qubit: number,
+  gate: QuantumGate,
+  controls: number[],
+  target: number,
   numQubits: number,
-): { result: 0 | 1; newState: QuantumState } {
-  let prob0 = 0
-  let prob1 = 0
+): QuantumState {
+  return applyMultiQubitGate(state, gate, [target], numQubits, controls)
+}
 
-  // Calculate probabilities
-  for (let i = 0; i < state.length; i++) {
-    const bit = (i >> (numQubits - 1 - qubit)) & 1
-    const probability = complex.magnitude(state[i]) ** 2
+// Named classical register; bit 0 is the least significant bit of its value
+export interface ClassicalRegister {
+  name: string
+  size: number
+}
 
-    if (bit === 0) prob0 += probability
-    else prob1 += probability
-  }
+export interface ClassicalBitRef {
+  register: string
+  index: number
+}
 
-  // Random measurement outcome
-  const result = Math.random() < prob0 ? 0 : 1
-  const newState: QuantumState = new Array(state.length).fill(null).map(() => ({ real: 0, imag: 0 }))
-
-  // Collapse state
-  const norm = Math.sqrt(result === 0 ? prob0 : prob1)
-  for (let i = 0; i < state.length; i++) {
-    const bit = (i >> (numQubits - 1 - qubit)) & 1
-    if (bit === result) {
-      newState[i] = {
-        real: state[i].real / norm,
-        imag: state[i].imag / norm,
-      }
+// Circuit operation as recorded by the circuit lab and saved experiments
+export interface GateOperation {
+  type: "single" | "cnot" | "controlled" | "multi" | "measure" | "reset"
+  gate?: string
+  target: number
+  control?: number
+  controls?: number[]
+  targets?: number[]
+  params?: number[]
+  classicalBit?: ClassicalBitRef // where a measurement stores its outcome
+  condition?: { register: string; value: number } // c_if: applied only when the register holds this value
+  result?: 0 | 1 // outcome recorded for an interactive measurement or reset
+}
+
+// Integer value of a classical register from its bits (bit 0 least significant)
+export function registerValue(bits: number[]): number {
+  return bits.reduce((value, bit, i) => value + (bit ? 1 << i : 0), 0)
+}
+
+// Classical bit values of each register, all initially 0
+export function initializeClassicalBits(registers: ClassicalRegister[] = []): Record<string, number[]> {
+  return Object.fromEntries(registers.map((register) => [register.name, new Array<number>(register.size).fill(0)]))
+}
+
+// Whether an operation's c_if condition holds; unconditioned operations always apply
+export function conditionHolds(operation: GateOperation, classicalBits: Record<string, number[]>): boolean {
+  if (!operation.condition) return true
+  const bits = classicalBits[operation.condition.register]
+  if (!bits) throw new Error(`Unknown classical register "${operation.condition.register}"`)
+  return registerValue(bits) === operation.condition.value
+}
+
+// Store a measurement outcome in the operation's classical bit, if it has one
+export function storeMeasurement(
+  operation: GateOperation,
+  outcome: 0 | 1,
+  classicalBits: Record<string, number[]>,
+): void {
+  if (!operation.classicalBit) return
+  const { register, index } = operation.classicalBit
+  const bits = classicalBits[register]
+  if (!bits || index < 0 || index >= bits.length) throw new Error(`Unknown classical bit ${register}[${index}]`)
+  bits[index] = outcome
+}
+
+// Resolve an operation to its gate matrix, targets and controls (null for measurements, resets and unknown gates)
+export function resolveOperation(
+  operation: GateOperation,
+): { gate: QuantumGate; targets: number[]; controls: number[] } | null {
+  switch (operation.type) {
+    case "single": {
+      const gate = resolveGate(operation.gate ?? "", operation.params)
+      return gate && { gate, targets: [operation.target], controls: [] }
+    }
+    case "cnot":
+      return operation.control === undefined
+        ? null
+        : { gate: gates.X, targets: [operation.target], controls: [operation.control] }
+    case "controlled": {
+      const gate = resolveGate(operation.gate ?? "", operation.params)
+      return gate && { gate, targets: [operation.target], controls: operation.controls ?? [] }
+    }
+    case "multi": {
+      const gate = resolveGate(operation.gate ?? "", operation.params)
+      return gate && { gate, targets: operation.targets ?? [operation.target], controls: operation.controls ?? [] }
     }
+    default:
+      return null
   }
+}
 
-  return { result, newState }
+// Measure qubit and collapse state
+export function measureQubit(
+  state: QuantumState,
+  qubit: number,
+  numQubits: number,
+  rng: RandomSource = defaultRandom,
+): { result: 0 | 1; newState: QuantumState } {
+  const stateVector = StateVector.fromComplexArray(state, numQubits)
+  const result = stateVector.measure(qubit, rng)
+  return { result, newState: stateVector.toComplexArray() }
 }
 
 // Get probability distribution
@@ -177,12 +344,21 @@ export function getProbabilities(state: QuantumState): number[] {
   return state.map((amplitude) => complex.magnitude(amplitude) ** 2)
 }
 
-// Format quantum state for display
-export function formatQuantumState(state: QuantumState, numQubits: number): string {
+// Format quantum state for display, listing at most maxTerms significant amplitudes
+// Accepts a StateVector as well, read in place so large registers aren't copied into Complex objects
+export function formatQuantumState(state: QuantumState | StateVector, numQubits: number, maxTerms = Infinity): string {
   const terms: string[] = []
+  const size = state instanceof StateVector ? state.size : state.length
+  const amplitudeAt = (i: number): Complex =>
+    state instanceof StateVector ? { real: state.amplitudes[2 * i], imag: state.amplitudes[2 * i + 1] } : state[i]
+
+  for (let i = 0; i < size; i++) {
+    if (terms.length === maxTerms) {
+      terms.push("…")
+      break
+    }
 
-  for (let i = 0; i < state.length; i++) {
-    const amplitude = state[i]
+    const amplitude = amplitudeAt(i)
     const magnitude = complex.magnitude(amplitude)
 
     if (magnitude > 1e-10) {
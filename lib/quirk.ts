@@ -0,0 +1,339 @@
+// Quirk (algassert.com/quirk) circuit links: conversion between Quirk's column JSON and the circuit
+// model. Each Quirk column is one time step; controls in a column apply to every gate in it. Quirk
+// has no classical registers, so measurements only keep their qubit, and conditions are exported as
+// controls on the measured qubits, which Quirk treats as classical controls.
+import { Circuit, controlOperation } from "@/lib/circuit"
+import type { GateOperation } from "@/lib/quantum-simulator"
+import { QasmTokenStream, formatQasmAngle, tokenizeQasm } from "@/lib/qasm"
+import { MAX_STATE_VECTOR_QUBITS } from "@/lib/state-vector"
+
+export const QUIRK_URL = "https://algassert.com/quirk"
+
+// Every unsupported widget or operation found, not just the first
+export class QuirkError extends Error {
+  readonly problems: string[]
+
+  constructor(problems: string[]) {
+    super(problems.length === 1 ? problems[0] : `${problems.length} problems: ${problems.join("; ")}`)
+    this.name = "QuirkError"
+    this.problems = problems
+  }
+}
+
+export type QuirkEntry = 1 | string | { id: string; arg?: string | number }
+
+export interface QuirkCircuitJson {
+  cols: QuirkEntry[][]
+  init?: Array<number | string>
+  gates?: unknown[]
+}
+
+export interface QuirkImport {
+  circuit: Circuit
+  warnings: string[] // display widgets that were skipped; they don't change the state
+}
+
+const single = (gate: string, target: number, params?: number[]): GateOperation =>
+  params ? { type: "single", gate, target, params } : { type: "single", gate, target }
+
+// Fixed Quirk gates. Quirk's X^½ is H·S·H exactly, and Y^½ is S·X^½·S†.
+const quirkGates: Record<string, (target: number) => GateOperation[]> = {
+  X: (q) => [single("X", q)],
+  Y: (q) => [single("Y", q)],
+  Z: (q) => [single("Z", q)],
+  H: (q) => [single("H", q)],
+  "Z^½": (q) => [single("S", q)],
+  "Z^-½": (q) => [single("Sdg", q)],
+  "Z^¼": (q) => [single("T", q)],
+  "Z^-¼": (q) => [single("Tdg", q)],
+  "X^½": (q) => [single("H", q), single("S", q), single("H", q)],
+  "X^-½": (q) => [single("H", q), single("Sdg", q), single("H", q)],
+  "Y^½": (q) => [single("Sdg", q), single("H", q), single("S", q), single("H", q), single("S", q)],
+  "Y^-½": (q) => [single("Sdg", q), single("H", q), single("Sdg", q), single("H", q), single("S", q)],
+}
+
+// Quirk gates with a formula argument; Z^f raises Z to a power, diag(1, e^(iπf))
+const quirkFormulaGates: Record<string, (value: number, target: number) => GateOperation[]> = {
+  Rxft: (value, q) => [single("RX", q, [value])],
+  Ryft: (value, q) => [single("RY", q, [value])],
+  Rzft: (value, q) => [single("RZ", q, [value])],
+  "Z^ft": (value, q) => [single("P", q, [value * Math.PI])],
+  "X^ft": (value, q) => [single("H", q), single("P", q, [value * Math.PI]), single("H", q)],
+  "Y^ft": (value, q) => [
+    single("Sdg", q),
+    single("H", q),
+    single("P", q, [value * Math.PI]),
+    single("H", q),
+    single("S", q),
+  ],
+}
+
+// Starting states Quirk can set on a wire, prepared from |0⟩
+const quirkInitialStates: Record<string, (target: number) => GateOperation[]> = {
+  "0": () => [],
+  "1": (q) => [single("X", q)],
+  "+": (q) => [single("H", q)],
+  "-": (q) => [single("X", q), single("H", q)],
+  i: (q) => [single("H", q), single("S", q)],
+  "-i": (q) => [single("H", q), single("Sdg", q)],
+}
+
+// Display widgets only show the state, so they are skipped with a warning
+const quirkDisplays = ["Bloch", "Density", "Amps", "Chance", "Sample"]
+
+// The JSON from a Quirk link ("...#circuit={...}"), its fragment, or the JSON itself
+function decodeQuirk(input: string): unknown {
+  const text = input.trim()
+  const match = /[#?&]circuit=([\s\S]*)$/.exec(text)
+  const encoded = match ? match[1] : text
+  for (const candidate of [encoded, safeDecode(encoded)]) {
+    try {
+      return JSON.parse(candidate)
+    } catch {
+      // try the next form
+    }
+  }
+  throw new QuirkError(["Not a Quirk link or Quirk circuit JSON"])
+}
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text)
+  } catch {
+    return text
+  }
+}
+
+// Quirk formulas without the time variable t, e.g. "pi/2" or "sqrt(2)"
+function evaluateFormula(formula: string | number | undefined): number | null {
+  if (typeof formula === "number") return formula
+  if (typeof formula !== "string") return null
+  try {
+    const stream = new QasmTokenStream(tokenizeQasm(formula))
+    const value = stream.parseExpression()({})
+    return stream.peek().type === "eof" && Number.isFinite(value) ? value : null
+  } catch {
+    return null
+  }
+}
+
+// Parse a Quirk link or JSON. Throws a QuirkError listing every widget the circuit model can't
+// represent; displays are skipped and listed in the warnings.
+export function parseQuirk(input: string): QuirkImport {
+  const json = decodeQuirk(input) as Partial<QuirkCircuitJson> | null
+  if (!json || typeof json !== "object" || !Array.isArray(json.cols)) {
+    throw new QuirkError(['Quirk circuit JSON needs a "cols" array'])
+  }
+
+  const problems: string[] = []
+  const warnings: string[] = []
+  if (Array.isArray(json.gates) && json.gates.length > 0) problems.push("Custom gates are not supported")
+
+  const init = Array.isArray(json.init) ? json.init : []
+  const numQubits = Math.max(1, init.length, ...json.cols.map((col) => (Array.isArray(col) ? col.length : 0)))
+  if (numQubits > MAX_STATE_VECTOR_QUBITS) {
+    throw new QuirkError([`Circuit has ${numQubits} qubits; the simulator supports ${MAX_STATE_VECTOR_QUBITS}`])
+  }
+
+  const operations: GateOperation[] = []
+  init.forEach((state, q) => {
+    const prepare = quirkInitialStates[String(state)]
+    if (prepare) operations.push(...prepare(q))
+    else problems.push(`Unsupported initial state "${state}" on qubit ${q}`)
+  })
+
+  json.cols.forEach((col, c) => {
+    if (!Array.isArray(col)) {
+      problems.push(`Column ${c + 1} is not an array`)
+      return
+    }
+    const controls: number[] = []
+    const antiControls: number[] = []
+    const swaps: number[] = []
+    const measured: number[] = []
+    const gates: GateOperation[] = []
+
+    col.forEach((entry, q) => {
+      if (entry === 1 || entry === null || entry === "…") return
+      const id = typeof entry === "object" ? entry.id : String(entry)
+      const where = `column ${c + 1}, qubit ${q}`
+      if (id === "•") controls.push(q)
+      else if (id === "◦") antiControls.push(q)
+      else if (id === "Swap") swaps.push(q)
+      else if (id === "Measure") measured.push(q)
+      else if (quirkGates[id]) gates.push(...quirkGates[id](q))
+      else if (quirkFormulaGates[id]) {
+        const value = evaluateFormula(typeof entry === "object" ? entry.arg : undefined)
+        if (value === null) problems.push(`Time-dependent or invalid formula for "${id}" at ${where}`)
+        else gates.push(...quirkFormulaGates[id](value, q))
+      } else if (quirkDisplays.some((display) => id.startsWith(display))) {
+        warnings.push(`Skipped display "${id}" at ${where}`)
+      } else {
+        problems.push(`Unsupported Quirk gate "${id}" at ${where}`)
+      }
+    })
+
+    if (swaps.length === 2) gates.push({ type: "multi", gate: "SWAP", target: swaps[0], targets: swaps })
+    else if (swaps.length > 0) problems.push(`Column ${c + 1} needs exactly two Swap gates, got ${swaps.length}`)
+    const allControls = [...controls, ...antiControls].sort((a, b) => a - b)
+    if (measured.length > 0 && allControls.length > 0) {
+      problems.push(`Controlled measurement in column ${c + 1} is not supported`)
+    }
+
+    // Anti-controls are controls on the flipped qubit
+    const flips = gates.length > 0 ? antiControls.map((q) => single("X", q)) : []
+    operations.push(
+      ...flips,
+      ...gates.map((gate) => controlOperation(gate, allControls)),
+      ...flips,
+      ...measured.map((target): GateOperation => ({ type: "measure", target })),
+    )
+  })
+
+  if (problems.length > 0) throw new QuirkError(problems)
+  return { circuit: new Circuit(numQubits, operations), warnings }
+}
+
+const quirkNames: Record<string, string> = {
+  X: "X",
+  Y: "Y",
+  Z: "Z",
+  H: "H",
+  S: "Z^½",
+  Sdg: "Z^-½",
+  T: "Z^¼",
+  Tdg: "Z^-¼",
+}
+
+// Quirk widget for a single-qubit gate, or null when Quirk has none
+function quirkEntry(gate: string, params: number[] = []): QuirkEntry | null {
+  if (quirkNames[gate]) return quirkNames[gate]
+  if (gate === "RX" || gate === "RY" || gate === "RZ") {
+    return { id: `R${gate[1].toLowerCase()}ft`, arg: formatQasmAngle(params[0]) }
+  }
+  if (gate === "P") return { id: "Z^ft", arg: String(Number((params[0] / Math.PI).toPrecision(12))) }
+  return null
+}
+
+// Quirk has no U3 or iSWAP, so those are written with exact decompositions:
+// U3(θ,φ,λ) = P(φ)·RY(θ)·P(λ), and iSWAP as in qasm.ts
+function decomposeForQuirk(operation: GateOperation): GateOperation[] {
+  const controls = operation.controls ?? []
+  if (operation.gate === "U3" && operation.params && operation.type !== "multi") {
+    const [theta, phi, lambda] = operation.params
+    const q = operation.target
+    return [single("P", q, [lambda]), single("RY", q, [theta]), single("P", q, [phi])].map((op) =>
+      controlOperation(op, controls),
+    )
+  }
+  if (operation.type === "multi" && operation.gate === "iSWAP") {
+    const [a, b] = operation.targets ?? []
+    const parts: GateOperation[] = [
+      single("S", a),
+      single("S", b),
+      single("H", a),
+      { type: "cnot", control: a, target: b },
+      { type: "cnot", control: b, target: a },
+      single("H", b),
+    ]
+    return parts.map((op) => controlOperation(op, controls))
+  }
+  return [operation]
+}
+
+// Quirk column JSON for the circuit. Throws a QuirkError listing the operations Quirk can't show:
+// resets, and conditions on bits whose measured qubit has changed since.
+export function toQuirkJson(circuit: Circuit): QuirkCircuitJson {
+  const problems: string[] = []
+  const columns: Array<Record<number, QuirkEntry>> = []
+  // Qubit whose measurement last wrote each classical bit, while that qubit is left untouched
+  const bitSources: Record<string, number> = {}
+
+  const push = (column: Record<number, QuirkEntry>) => {
+    const last = columns[columns.length - 1]
+    const plain = (col: Record<number, QuirkEntry>) =>
+      Object.values(col).every((entry) => entry !== "•" && entry !== "◦" && entry !== "Swap")
+    // Uncontrolled gates on different qubits share a column
+    if (last && plain(last) && plain(column) && Object.keys(column).every((q) => !(q in last))) {
+      Object.assign(last, column)
+    } else {
+      columns.push(column)
+    }
+  }
+
+  circuit.operations.forEach((operation, index) => {
+    const fail = (message: string) => problems.push(`Operation ${index + 1} (${operation.type}): ${message}`)
+
+    const conditionControls: Record<number, QuirkEntry> = {}
+    if (operation.condition) {
+      const { register, value } = operation.condition
+      const size = circuit.getClassicalRegister(register)?.size ?? 0
+      for (let i = 0; i < size; i++) {
+        const bit = (value >> i) & 1
+        const source = bitSources[`${register}[${i}]`]
+        if (source === undefined) {
+          if (bit === 1) fail(`${register}[${i}] is never measured from an unchanged qubit, so Quirk can't test it`)
+        } else {
+          conditionControls[source] = bit ? "•" : "◦"
+        }
+      }
+    }
+
+    if (operation.type === "reset") {
+      fail("Quirk has no reset")
+      return
+    }
+    if (operation.type === "measure") {
+      if (operation.condition) fail("Quirk can't condition a measurement")
+      push({ [operation.target]: "Measure" })
+      if (operation.classicalBit) {
+        bitSources[`${operation.classicalBit.register}[${operation.classicalBit.index}]`] = operation.target
+      }
+      return
+    }
+
+    for (const op of decomposeForQuirk(operation)) {
+      const column: Record<number, QuirkEntry> = { ...conditionControls }
+      const controls = op.type === "cnot" ? [op.control!] : (op.controls ?? [])
+      for (const control of controls) column[control] = "•"
+      const gate = op.type === "cnot" ? "X" : op.gate!
+      const targets = op.type === "multi" ? (op.targets ?? [op.target]) : [op.target]
+      if (targets.some((q) => q in conditionControls)) fail("the condition reads a qubit the operation acts on")
+
+      if (gate === "I") continue
+      if (gate === "SWAP") {
+        for (const q of targets) column[q] = "Swap"
+      } else {
+        const entry = quirkEntry(gate, op.params)
+        if (!entry) {
+          fail(`Quirk has no ${gate} gate`)
+          continue
+        }
+        column[op.target] = entry
+      }
+      push(column)
+    }
+
+    // A gate on a measured qubit means it no longer holds the measured value
+    for (const q of operation.type === "multi" ? (operation.targets ?? []) : [operation.target]) {
+      for (const bit of Object.keys(bitSources)) if (bitSources[bit] === q) delete bitSources[bit]
+    }
+  })
+
+  if (problems.length > 0) throw new QuirkError(problems)
+
+  // Each column lists every qubit up to its last gate, 1 marking an empty wire
+  const cols = columns.map((column) => {
+    const last = Math.max(...Object.keys(column).map(Number))
+    return Array.from({ length: last + 1 }, (_, q): QuirkEntry => column[q] ?? 1)
+  })
+  // Quirk sizes the circuit from its columns; an empty wire keeps the last qubit visible
+  if (!cols.some((col) => col.length === circuit.numQubits)) {
+    cols.push(Array.from({ length: circuit.numQubits }, (): QuirkEntry => 1))
+  }
+  return { cols }
+}
+
+export function toQuirkUrl(circuit: Circuit): string {
+  return `${QUIRK_URL}#circuit=${encodeURIComponent(JSON.stringify(toQuirkJson(circuit)))}`
+}
@@ -0,0 +1,66 @@
+// Seedable pseudo-random numbers, so measurements and sampling can be reproduced from a recorded seed
+
+// Source of uniform random numbers in [0, 1)
+export interface RandomSource {
+  next(): number
+}
+
+// Unseeded source backed by Math.random
+export const defaultRandom: RandomSource = { next: () => Math.random() }
+
+// A fresh 32-bit seed
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000)
+}
+
+// Derive a 32-bit seed from a string (FNV-1a), e.g. from an experiment id
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// xoshiro128** generator, with its state expanded from the seed by splitmix32
+export class SeededRandom implements RandomSource {
+  readonly seed: number
+  private readonly state = new Uint32Array(4)
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0
+
+    let s = this.seed
+    for (let i = 0; i < 4; i++) {
+      s = (s + 0x9e3779b9) >>> 0
+      let z = s
+      z = Math.imul(z ^ (z >>> 16), 0x85ebca6b)
+      z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35)
+      this.state[i] = (z ^ (z >>> 16)) >>> 0
+    }
+  }
+
+  nextUint32(): number {
+    const s = this.state
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0
+    const t = s[1] << 9
+
+    s[2] ^= s[0]
+    s[3] ^= s[1]
+    s[1] ^= s[2]
+    s[0] ^= s[3]
+    s[2] ^= t
+    s[3] = rotl(s[3], 11)
+
+    return result
+  }
+
+  next(): number {
+    return this.nextUint32() / 0x100000000
+  }
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k))
+}
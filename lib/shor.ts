@@ -0,0 +1,365 @@
+// Shor's algorithm for small N: order finding of a mod N by phase estimation of modular multiplication,
+// then continued fractions and gcds to turn the period into factors. Multiplication by a mod N is a
+// permutation of the work register's basis states, compiled into multi-controlled X gates.
+import { Circuit } from "@/lib/circuit"
+import { MAX_SHOTS, sampleIndex } from "@/lib/circuit-runner"
+import { resolveOperation, type GateOperation } from "@/lib/quantum-simulator"
+import { inverseQftOperations } from "@/lib/qft"
+import { SeededRandom, randomSeed } from "@/lib/random"
+import { StateVector } from "@/lib/state-vector"
+
+// Counting plus work qubits; keeps the simulation (and the Lab replay) to a second or two
+export const MAX_SHOR_QUBITS = 16
+export const shorNumbers = [15, 21, 35]
+// Multiples of a convergent's denominator tried as the period, in case s and r shared a factor
+const MAX_PERIOD_MULTIPLE = 4
+
+export interface OrderFindingOptions {
+  countingQubits?: number // 2 × work qubits by default, capped by the qubit budget
+  measure?: boolean // measure the counting register at the end (default true)
+}
+
+export interface OrderFindingStage {
+  label: string
+  end: number // operations up to (excluding) this index make up the stage
+}
+
+export interface OrderFinding {
+  N: number
+  a: number
+  countingQubits: number // qubits 0…countingQubits-1, read q0 first
+  workQubits: number // the qubits after them, holding a^x mod N
+  circuit: Circuit
+  stages: OrderFindingStage[]
+}
+
+export interface Convergent {
+  numerator: number
+  denominator: number
+}
+
+export interface PeriodCandidate {
+  bitstring: string
+  count: number
+  phase: number // readout y / 2^t, close to s / r
+  convergents: Convergent[]
+  period: number | null // smallest denominator (or small multiple) r with a^r ≡ 1 mod N
+  factors: [number, number] | null
+}
+
+export interface ShorOptions extends OrderFindingOptions {
+  a?: number // a random base coprime to N by default
+  shots?: number
+  seed?: number
+}
+
+export interface ShorResult {
+  N: number
+  a: number
+  seed: number
+  order: number // the true order of a mod N, computed classically for comparison
+  orderFinding: OrderFinding | null // null when gcd(a, N) already gave a factor
+  distributions: Float64Array[] // counting-register distribution after each order-finding stage
+  counts: Record<string, number>
+  candidates: PeriodCandidate[] // one per distinct readout, most frequent first
+  factors: [number, number] | null
+}
+
+export function gcd(a: number, b: number): number {
+  while (b !== 0) [a, b] = [b, a % b]
+  return Math.abs(a)
+}
+
+export function modPow(base: number, exponent: number, modulus: number): number {
+  let result = 1 % modulus
+  let power = base % modulus
+  for (let e = exponent; e > 0; e = Math.floor(e / 2)) {
+    if (e % 2 === 1) result = (result * power) % modulus
+    power = (power * power) % modulus
+  }
+  return result
+}
+
+// Smallest r > 0 with a^r ≡ 1 mod N
+export function classicalOrder(a: number, N: number): number {
+  if (gcd(a, N) !== 1) throw new Error(`${a} and ${N} share the factor ${gcd(a, N)}, so ${a} has no order mod ${N}`)
+  let r = 1
+  for (let value = a % N; value !== 1; value = (value * a) % N) r++
+  return r
+}
+
+const isPrime = (n: number) => {
+  for (let d = 2; d * d <= n; d++) if (n % d === 0) return false
+  return n >= 2
+}
+
+const isPrimePower = (n: number) => {
+  for (let p = 2; p * p <= n; p++) {
+    if (n % p !== 0) continue
+    let rest = n
+    while (rest % p === 0) rest /= p
+    return rest === 1
+  }
+  return false
+}
+
+// Qubits holding values 0…N-1
+export const workQubitCount = (N: number) => Math.max(1, Math.ceil(Math.log2(N)))
+
+// Shor needs an odd composite with two distinct prime factors; everything else is found classically
+export function checkShorNumber(N: number): void {
+  if (!Number.isInteger(N) || N < 15) throw new Error(`N must be an integer of at least 15, got ${N}`)
+  if (N % 2 === 0) throw new Error(`${N} is even, so 2 is a factor`)
+  if (isPrime(N)) throw new Error(`${N} is prime`)
+  if (isPrimePower(N)) throw new Error(`${N} is a prime power, which Shor's algorithm does not factor`)
+  const work = workQubitCount(N)
+  if (work + 2 > MAX_SHOR_QUBITS) {
+    throw new Error(`${N} needs ${work} work qubits, too many for the ${MAX_SHOR_QUBITS}-qubit budget`)
+  }
+}
+
+// Terms of the continued fraction of numerator / denominator
+export function continuedFraction(numerator: number, denominator: number): number[] {
+  const terms: number[] = []
+  while (denominator !== 0) {
+    terms.push(Math.floor(numerator / denominator))
+    ;[numerator, denominator] = [denominator, numerator % denominator]
+  }
+  return terms
+}
+
+export function convergents(numerator: number, denominator: number): Convergent[] {
+  const result: Convergent[] = []
+  let [h0, h1, k0, k1] = [0, 1, 1, 0]
+  for (const term of continuedFraction(numerator, denominator)) {
+    ;[h0, h1] = [h1, term * h1 + h0]
+    ;[k0, k1] = [k1, term * k1 + k0]
+    result.push({ numerator: h1, denominator: k1 })
+  }
+  return result
+}
+
+// Period from a counting-register readout y: the first convergent s/r of y / 2^t (r < N) whose
+// denominator, or a small multiple of it when s and r shared a factor, satisfies a^r ≡ 1 mod N.
+// The convergent 0/1 says nothing about r, so y = 0 never yields a period.
+export function periodFromReadout(
+  y: number,
+  countingQubits: number,
+  a: number,
+  N: number,
+): { convergents: Convergent[]; period: number | null } {
+  const fractions = convergents(y, 2 ** countingQubits).filter((c) => c.denominator < N)
+  for (const { numerator, denominator } of fractions) {
+    if (numerator === 0) continue
+    for (let multiple = 1; multiple <= MAX_PERIOD_MULTIPLE && multiple * denominator < N; multiple++) {
+      if (modPow(a, multiple * denominator, N) === 1) return { convergents: fractions, period: multiple * denominator }
+    }
+  }
+  return { convergents: fractions, period: null }
+}
+
+// For even r with a^(r/2) ≢ -1 mod N, gcd(a^(r/2) ± 1, N) are nontrivial factors
+export function factorsFromPeriod(a: number, period: number, N: number): [number, number] | null {
+  if (period % 2 !== 0) return null
+  const half = modPow(a, period / 2, N)
+  if (half === N - 1) return null
+  for (const candidate of [gcd(half - 1, N), gcd(half + 1, N)]) {
+    if (candidate > 1 && candidate < N) return [Math.min(candidate, N / candidate), Math.max(candidate, N / candidate)]
+  }
+  return null
+}
+
+// Operations mapping basis state |x⟩ of the register to |permutation[x]⟩ when every control is 1.
+// Cycles are split into transpositions, each transposition walks a Gray-code path of single-bit flips,
+// and zero-valued controls are handled by an X frame that is undone only when the next flip needs it.
+export function permutationOperations(
+  permutation: number[],
+  qubits: number[],
+  controls: number[] = [],
+): GateOperation[] {
+  const m = qubits.length
+  const operations: GateOperation[] = []
+  let frame = 0 // bits currently inverted by pending X gates
+
+  const setFrame = (wanted: number) => {
+    for (let i = 0; i < m; i++) {
+      const bit = 1 << (m - 1 - i)
+      if ((frame & bit) !== (wanted & bit)) operations.push({ type: "single", gate: "X", target: qubits[i] })
+    }
+    frame = wanted
+  }
+  // Swap |value⟩ with the state differing from it in one bit
+  const flip = (value: number, bit: number) => {
+    const others = (1 << m) - 1 - bit
+    setFrame(~value & others)
+    const position = m - 1 - Math.log2(bit)
+    operations.push({
+      type: "controlled",
+      gate: "X",
+      target: qubits[position],
+      controls: [...controls, ...qubits.filter((_, i) => i !== position)],
+    })
+  }
+  const transpose = (u: number, v: number) => {
+    const path = [u]
+    for (let i = 0; i < m; i++) {
+      const bit = 1 << (m - 1 - i)
+      if ((u ^ v) & bit) path.push(path[path.length - 1] ^ bit)
+    }
+    const steps = path.slice(1).map((next, i) => [path[i], next ^ path[i]])
+    for (const [value, bit] of steps) flip(value, bit)
+    for (const [value, bit] of steps.slice(0, -1).reverse()) flip(value, bit)
+  }
+
+  const visited = new Set<number>()
+  permutation.forEach((_, start) => {
+    if (visited.has(start)) return
+    const cycle = [start]
+    visited.add(start)
+    for (let next = permutation[start]; next !== start; next = permutation[next]) {
+      cycle.push(next)
+      visited.add(next)
+    }
+    for (let i = cycle.length - 2; i >= 0; i--) transpose(cycle[i], cycle[i + 1])
+  })
+  setFrame(0)
+  return operations
+}
+
+// |x⟩ → |multiplier · x mod N⟩ for x < N, identity on the unused states x ≥ N
+const multiplication = (multiplier: number, N: number, workQubits: number) =>
+  Array.from({ length: 1 << workQubits }, (_, x) => (x < N ? (multiplier * x) % N : x))
+
+// Phase estimation of multiplication by a mod N on the work register prepared in |1⟩: counting qubit j
+// controls multiplication by a^(2^(t-1-j)), so the readout y / 2^t peaks at s / r for the order r
+export function orderFindingCircuit(N: number, a: number, options: OrderFindingOptions = {}): OrderFinding {
+  checkShorNumber(N)
+  if (!Number.isInteger(a) || a < 2 || a >= N) throw new Error(`The base a must be an integer from 2 to ${N - 1}`)
+  if (gcd(a, N) !== 1) throw new Error(`${a} shares the factor ${gcd(a, N)} with ${N}; pick a coprime base`)
+
+  const workQubits = workQubitCount(N)
+  const countingQubits = options.countingQubits ?? Math.min(2 * workQubits, MAX_SHOR_QUBITS - workQubits)
+  if (!Number.isInteger(countingQubits) || countingQubits < 1 || countingQubits + workQubits > MAX_SHOR_QUBITS) {
+    throw new Error(
+      `Use 1-${MAX_SHOR_QUBITS - workQubits} counting qubits alongside the ${workQubits} work qubits for N = ${N}`,
+    )
+  }
+
+  const counting = Array.from({ length: countingQubits }, (_, q) => q)
+  const work = Array.from({ length: workQubits }, (_, i) => countingQubits + i)
+  const operations: GateOperation[] = [
+    { type: "single", gate: "X", target: work[workQubits - 1] },
+    ...counting.map((q): GateOperation => ({ type: "single", gate: "H", target: q })),
+  ]
+  const stages: OrderFindingStage[] = [{ label: "Superposition, work register |1⟩", end: operations.length }]
+
+  counting.forEach((q) => {
+    const power = countingQubits - 1 - q
+    // a^(2^power) mod N by repeated squaring; multiplying by 1 needs no gates
+    let multiplier = a % N
+    for (let i = 0; i < power; i++) multiplier = (multiplier * multiplier) % N
+    if (multiplier !== 1)
+      operations.push(...permutationOperations(multiplication(multiplier, N, workQubits), work, [q]))
+    stages.push({ label: `Controlled ×${multiplier} mod ${N} (a^${2 ** power}) on q${q}`, end: operations.length })
+  })
+
+  operations.push(...inverseQftOperations(counting))
+  stages.push({ label: "Inverse QFT on the counting register", end: operations.length })
+  if (options.measure ?? true) {
+    operations.push(...counting.map((q): GateOperation => ({ type: "measure", target: q })))
+  }
+
+  return { N, a, countingQubits, workQubits, circuit: new Circuit(countingQubits + workQubits, operations), stages }
+}
+
+// Counting-register distribution (2^t entries, readout y as index) at the end of each stage
+export function stageDistributions(orderFinding: OrderFinding): Float64Array[] {
+  const { circuit, countingQubits, workQubits, stages } = orderFinding
+  const state = new StateVector(circuit.numQubits)
+  const distributions: Float64Array[] = []
+  let position = 0
+  for (const stage of stages) {
+    for (; position < stage.end; position++) {
+      const resolved = resolveOperation(circuit.operations[position])
+      if (resolved) state.applyMultiQubitGate(resolved.gate, resolved.targets, resolved.controls)
+    }
+    const probabilities = state.probabilities()
+    const marginal = new Float64Array(2 ** countingQubits)
+    probabilities.forEach((p, index) => (marginal[index >> workQubits] += p))
+    distributions.push(marginal)
+  }
+  return distributions
+}
+
+// Factor N: pick a base (a lucky gcd ends early), find its order on the simulated circuit, then
+// post-process each distinct readout with continued fractions
+export function runShor(N: number, options: ShorOptions = {}): ShorResult {
+  checkShorNumber(N)
+  const shots = options.shots ?? 64
+  if (!Number.isInteger(shots) || shots < 1 || shots > MAX_SHOTS) {
+    throw new Error(`Shots must be an integer between 1 and ${MAX_SHOTS}, got ${shots}`)
+  }
+  const seed = options.seed ?? randomSeed()
+  const rng = new SeededRandom(seed)
+  const a = options.a ?? 2 + Math.floor(rng.next() * (N - 3))
+  if (!Number.isInteger(a) || a < 2 || a >= N) throw new Error(`The base a must be an integer from 2 to ${N - 1}`)
+
+  const shared = gcd(a, N)
+  if (shared !== 1) {
+    return {
+      N,
+      a,
+      seed,
+      order: 0,
+      orderFinding: null,
+      distributions: [],
+      counts: {},
+      candidates: [],
+      factors: [Math.min(shared, N / shared), Math.max(shared, N / shared)],
+    }
+  }
+
+  const orderFinding = orderFindingCircuit(N, a, options)
+  const { countingQubits } = orderFinding
+  const distributions = stageDistributions(orderFinding)
+  const distribution = distributions[distributions.length - 1]
+  const cumulative = new Float64Array(distribution.length)
+  let total = 0
+  for (let y = 0; y < distribution.length; y++) {
+    total += distribution[y]
+    cumulative[y] = total
+  }
+
+  const counts: Record<string, number> = {}
+  for (let shot = 0; shot < shots; shot++) {
+    const bitstring = sampleIndex(cumulative, rng.next()).toString(2).padStart(countingQubits, "0")
+    counts[bitstring] = (counts[bitstring] ?? 0) + 1
+  }
+
+  const candidates = Object.entries(counts)
+    .sort((x, y) => y[1] - x[1])
+    .map(([bitstring, count]): PeriodCandidate => {
+      const y = parseInt(bitstring, 2)
+      const { convergents: fractions, period } = periodFromReadout(y, countingQubits, a, N)
+      return {
+        bitstring,
+        count,
+        phase: y / 2 ** countingQubits,
+        convergents: fractions,
+        period,
+        factors: period === null ? null : factorsFromPeriod(a, period, N),
+      }
+    })
+
+  return {
+    N,
+    a,
+    seed,
+    order: classicalOrder(a, N),
+    orderFinding,
+    distributions,
+    counts,
+    candidates,
+    factors: candidates.find((candidate) => candidate.factors)?.factors ?? null,
+  }
+}
@@ -0,0 +1,116 @@
+// Distances between quantum states and between measurement distributions. Fidelities are squared
+// (1 for identical states, |⟨a|b⟩|² for pure ones); distances run from 0 (identical) to 1 (distinguishable).
+import { DensityMatrix } from "@/lib/density-matrix"
+import { hermitianEigen, hermitianSqrt, multiplyMatrices } from "@/lib/entanglement"
+import type { QuantumState } from "@/lib/quantum-simulator"
+import { StateVector } from "@/lib/state-vector"
+
+export type AnyState = QuantumState | StateVector | DensityMatrix
+export type Distribution = ArrayLike<number>
+
+export interface DistributionComparison {
+  fidelity: number // (Σ √(p q))², the classical fidelity
+  totalVariation: number // ½ Σ |p - q|
+  hellinger: number // √(1 - Σ √(p q))
+}
+
+const toPure = (state: QuantumState | StateVector) =>
+  state instanceof StateVector ? state : StateVector.fromComplexArray(state)
+
+const toDensityMatrix = (state: AnyState) =>
+  state instanceof DensityMatrix ? state : DensityMatrix.fromPureState(toPure(state))
+
+const numQubitsOf = (state: AnyState) => (state instanceof DensityMatrix ? state.numQubits : toPure(state).numQubits)
+
+function checkSameSize(a: AnyState, b: AnyState): void {
+  if (numQubitsOf(a) !== numQubitsOf(b)) {
+    throw new Error(`States have different qubit counts: ${numQubitsOf(a)} and ${numQubitsOf(b)}`)
+  }
+}
+
+// ⟨ψ|ρ|ψ⟩
+function expectationIn(vector: StateVector, rho: DensityMatrix): number {
+  const a = vector.amplitudes
+  let total = 0
+  for (let row = 0; row < rho.dimension; row++) {
+    for (let col = 0; col < rho.dimension; col++) {
+      const { real, imag } = rho.entry(row, col)
+      // conj(ψ_row) ρ_row,col ψ_col, real part
+      const [pr, pi] = [a[2 * col] * real - a[2 * col + 1] * imag, a[2 * col] * imag + a[2 * col + 1] * real]
+      total += a[2 * row] * pr + a[2 * row + 1] * pi
+    }
+  }
+  return total
+}
+
+// Uhlmann fidelity (Tr √(√ρ σ √ρ))², which reduces to |⟨a|b⟩|² and ⟨ψ|ρ|ψ⟩ for pure states
+export function stateFidelity(a: AnyState, b: AnyState): number {
+  checkSameSize(a, b)
+  if (!(a instanceof DensityMatrix) && !(b instanceof DensityMatrix)) {
+    const [x, y] = [toPure(a).amplitudes, toPure(b).amplitudes]
+    let real = 0
+    let imag = 0
+    for (let i = 0; i < x.length; i += 2) {
+      real += x[i] * y[i] + x[i + 1] * y[i + 1]
+      imag += x[i] * y[i + 1] - x[i + 1] * y[i]
+    }
+    return Math.min(1, real * real + imag * imag)
+  }
+  if (!(a instanceof DensityMatrix)) return Math.min(1, expectationIn(toPure(a), b as DensityMatrix))
+  if (!(b instanceof DensityMatrix)) return Math.min(1, expectationIn(toPure(b), a))
+
+  const root = hermitianSqrt(a.data, a.dimension)
+  const product = multiplyMatrices(multiplyMatrices(root, b.data, a.dimension), root, a.dimension)
+  const trace = hermitianEigen(product, a.dimension).values.reduce(
+    (total, value) => total + Math.sqrt(Math.max(0, value)),
+    0,
+  )
+  return Math.min(1, trace * trace)
+}
+
+// ½ Tr|ρ - σ|, the largest difference in probability any measurement can show; √(1 - F) for pure states
+export function traceDistance(a: AnyState, b: AnyState): number {
+  checkSameSize(a, b)
+  if (!(a instanceof DensityMatrix) && !(b instanceof DensityMatrix)) {
+    return Math.sqrt(Math.max(0, 1 - stateFidelity(a, b)))
+  }
+  const [rho, sigma] = [toDensityMatrix(a), toDensityMatrix(b)]
+  const difference = rho.data.map((value, i) => value - sigma.data[i])
+  const { values } = hermitianEigen(difference, rho.dimension)
+  return Math.min(1, values.reduce((total, value) => total + Math.abs(value), 0) / 2)
+}
+
+function checkDistributions(p: Distribution, q: Distribution): void {
+  if (p.length !== q.length) throw new Error(`Distributions have different lengths: ${p.length} and ${q.length}`)
+}
+
+// Σ √(p q)
+function bhattacharyya(p: Distribution, q: Distribution): number {
+  checkDistributions(p, q)
+  let total = 0
+  for (let i = 0; i < p.length; i++) total += Math.sqrt(Math.max(0, p[i]) * Math.max(0, q[i]))
+  return Math.min(1, total)
+}
+
+export function classicalFidelity(p: Distribution, q: Distribution): number {
+  return bhattacharyya(p, q) ** 2
+}
+
+export function totalVariationDistance(p: Distribution, q: Distribution): number {
+  checkDistributions(p, q)
+  let total = 0
+  for (let i = 0; i < p.length; i++) total += Math.abs(p[i] - q[i])
+  return total / 2
+}
+
+export function hellingerDistance(p: Distribution, q: Distribution): number {
+  return Math.sqrt(Math.max(0, 1 - bhattacharyya(p, q)))
+}
+
+export function compareDistributions(observed: Distribution, expected: Distribution): DistributionComparison {
+  return {
+    fidelity: classicalFidelity(observed, expected),
+    totalVariation: totalVariationDistance(observed, expected),
+    hellinger: hellingerDistance(observed, expected),
+  }
+}
@@ -0,0 +1,238 @@
+// Typed-array state vector engine: interleaved [re, im] amplitudes in a Float64Array, updated in place.
+// Qubit 0 is the most significant bit of the basis-state index, as in the Complex[] API.
+import type { Complex, QuantumGate, QuantumState } from "@/lib/quantum-simulator"
+import { defaultRandom, type RandomSource } from "@/lib/random"
+
+export const MAX_STATE_VECTOR_QUBITS = 24
+
+export class StateVector {
+  readonly numQubits: number
+  readonly amplitudes: Float64Array
+
+  constructor(numQubits: number, amplitudes?: Float64Array) {
+    if (numQubits < 1 || numQubits > MAX_STATE_VECTOR_QUBITS) {
+      throw new Error(`State vector supports 1-${MAX_STATE_VECTOR_QUBITS} qubits, got ${numQubits}`)
+    }
+    this.numQubits = numQubits
+
+    const size = 1 << numQubits
+    if (amplitudes) {
+      if (amplitudes.length !== size * 2) {
+        throw new Error(`Expected ${size * 2} interleaved values for ${numQubits} qubits, got ${amplitudes.length}`)
+      }
+      this.amplitudes = amplitudes
+    } else {
+      // |00...0⟩
+      this.amplitudes = new Float64Array(size * 2)
+      this.amplitudes[0] = 1
+    }
+  }
+
+  // Number of basis states (2^n)
+  get size(): number {
+    return 1 << this.numQubits
+  }
+
+  // Adapters for the Complex[] API
+  static fromComplexArray(state: QuantumState, numQubits = Math.round(Math.log2(state.length))): StateVector {
+    const amplitudes = new Float64Array(state.length * 2)
+    for (let i = 0; i < state.length; i++) {
+      amplitudes[2 * i] = state[i].real
+      amplitudes[2 * i + 1] = state[i].imag
+    }
+    return new StateVector(numQubits, amplitudes)
+  }
+
+  toComplexArray(): QuantumState {
+    const state: QuantumState = new Array(this.size)
+    for (let i = 0; i < this.size; i++) {
+      state[i] = { real: this.amplitudes[2 * i], imag: this.amplitudes[2 * i + 1] }
+    }
+    return state
+  }
+
+  clone(): StateVector {
+    return new StateVector(this.numQubits, this.amplitudes.slice())
+  }
+
+  amplitude(index: number): Complex {
+    return { real: this.amplitudes[2 * index], imag: this.amplitudes[2 * index + 1] }
+  }
+
+  // Bit mask of a qubit within a basis-state index
+  bitOf(qubit: number): number {
+    return 1 << (this.numQubits - 1 - qubit)
+  }
+
+  // Apply a 2x2 gate in place with a butterfly update over amplitude pairs
+  applySingleQubitGate(gate: QuantumGate, target: number, controls: number[] = []): this {
+    this.checkQubits([...controls, target])
+
+    const a = this.amplitudes
+    const bit = this.bitOf(target)
+    const controlMask = controls.reduce((mask, q) => mask | this.bitOf(q), 0)
+    const [[g00, g01], [g10, g11]] = gate
+
+    for (let block = 0; block < this.size; block += bit << 1) {
+      for (let i0 = block; i0 < block + bit; i0++) {
+        if ((i0 & controlMask) !== controlMask) continue
+        const r0 = 2 * i0
+        const r1 = 2 * (i0 | bit)
+        const re0 = a[r0]
+        const im0 = a[r0 + 1]
+        const re1 = a[r1]
+        const im1 = a[r1 + 1]
+
+        a[r0] = g00.real * re0 - g00.imag * im0 + g01.real * re1 - g01.imag * im1
+        a[r0 + 1] = g00.real * im0 + g00.imag * re0 + g01.real * im1 + g01.imag * re1
+        a[r1] = g10.real * re0 - g10.imag * im0 + g11.real * re1 - g11.imag * im1
+        a[r1 + 1] = g10.real * im0 + g10.imag * re0 + g11.real * im1 + g11.imag * re1
+      }
+    }
+
+    return this
+  }
+
+  applyControlledGate(gate: QuantumGate, controls: number[], target: number): this {
+    return this.applySingleQubitGate(gate, target, controls)
+  }
+
+  // CNOT as an in-place amplitude swap
+  applyCNOT(control: number, target: number): this {
+    this.checkQubits([control, target])
+
+    const a = this.amplitudes
+    const controlBit = this.bitOf(control)
+    const targetBit = this.bitOf(target)
+
+    for (let i = 0; i < this.size; i++) {
+      if ((i & controlBit) === 0 || (i & targetBit) !== 0) continue
+      const r0 = 2 * i
+      const r1 = 2 * (i | targetBit)
+      const re = a[r0]
+      const im = a[r0 + 1]
+      a[r0] = a[r1]
+      a[r0 + 1] = a[r1 + 1]
+      a[r1] = re
+      a[r1 + 1] = im
+    }
+
+    return this
+  }
+
+  // Apply a 2^k x 2^k unitary to k targets (targets[0] is the high bit of the gate index),
+  // conditioned on all controls being |1⟩
+  applyMultiQubitGate(gate: QuantumGate, targets: number[], controls: number[] = []): this {
+    const dimension = 1 << targets.length
+    if (gate.length !== dimension) {
+      throw new Error(`Gate of size ${gate.length} cannot act on ${targets.length} qubit(s)`)
+    }
+    if (targets.length === 1) return this.applySingleQubitGate(gate, targets[0], controls)
+    this.checkQubits([...controls, ...targets])
+
+    const a = this.amplitudes
+    const controlMask = controls.reduce((mask, q) => mask | this.bitOf(q), 0)
+    const targetBits = targets.map((q) => this.bitOf(q))
+    const targetMask = targetBits.reduce((mask, bit) => mask | bit, 0)
+
+    // Offsets of each local basis state relative to the group's base index
+    const offsets = new Array<number>(dimension)
+    for (let j = 0; j < dimension; j++) {
+      let offset = 0
+      for (let m = 0; m < targets.length; m++) {
+        if ((j >> (targets.length - 1 - m)) & 1) offset |= targetBits[m]
+      }
+      offsets[j] = offset
+    }
+
+    const scratch = new Float64Array(dimension * 2)
+    for (let base = 0; base < this.size; base++) {
+      if ((base & targetMask) !== 0 || (base & controlMask) !== controlMask) continue
+
+      for (let j = 0; j < dimension; j++) {
+        scratch[2 * j] = a[2 * (base | offsets[j])]
+        scratch[2 * j + 1] = a[2 * (base | offsets[j]) + 1]
+      }
+
+      for (let row = 0; row < dimension; row++) {
+        let re = 0
+        let im = 0
+        for (let col = 0; col < dimension; col++) {
+          const g = gate[row][col]
+          re += g.real * scratch[2 * col] - g.imag * scratch[2 * col + 1]
+          im += g.real * scratch[2 * col + 1] + g.imag * scratch[2 * col]
+        }
+        a[2 * (base | offsets[row])] = re
+        a[2 * (base | offsets[row]) + 1] = im
+      }
+    }
+
+    return this
+  }
+
+  // Probability of the qubit reading 1
+  probabilityOfOne(qubit: number): number {
+    const bit = this.bitOf(qubit)
+    let probability = 0
+    for (let i = 0; i < this.size; i++) {
+      if (i & bit) probability += this.amplitudes[2 * i] ** 2 + this.amplitudes[2 * i + 1] ** 2
+    }
+    return probability
+  }
+
+  // Measure a qubit, collapsing the state in place
+  measure(qubit: number, rng: RandomSource = defaultRandom): 0 | 1 {
+    const prob1 = this.probabilityOfOne(qubit)
+    const result: 0 | 1 = rng.next() < 1 - prob1 ? 0 : 1
+    this.collapse(qubit, result, result === 1 ? prob1 : 1 - prob1)
+    return result
+  }
+
+  // Project a qubit onto an outcome of the given probability and renormalize
+  collapse(qubit: number, result: 0 | 1, probability?: number): this {
+    const prob1 = () => this.probabilityOfOne(qubit)
+    const norm = Math.sqrt(probability ?? (result === 1 ? prob1() : 1 - prob1()))
+    const bit = this.bitOf(qubit)
+
+    for (let i = 0; i < this.size; i++) {
+      if (((i & bit) !== 0 ? 1 : 0) === result) {
+        this.amplitudes[2 * i] /= norm
+        this.amplitudes[2 * i + 1] /= norm
+      } else {
+        this.amplitudes[2 * i] = 0
+        this.amplitudes[2 * i + 1] = 0
+      }
+    }
+    return this
+  }
+
+  probabilities(): Float64Array {
+    const probabilities = new Float64Array(this.size)
+    for (let i = 0; i < this.size; i++) {
+      probabilities[i] = this.amplitudes[2 * i] ** 2 + this.amplitudes[2 * i + 1] ** 2
+    }
+    return probabilities
+  }
+
+  // The `limit` most likely basis states, most likely first, without sorting all 2^n entries
+  mostLikelyStates(limit: number, threshold = 1e-10): Array<{ index: number; probability: number }> {
+    const top: Array<{ index: number; probability: number }> = []
+    for (let i = 0; i < this.size; i++) {
+      const probability = this.amplitudes[2 * i] ** 2 + this.amplitudes[2 * i + 1] ** 2
+      if (probability < threshold) continue
+      if (top.length === limit && probability <= top[top.length - 1].probability) continue
+
+      let position = top.length
+      while (position > 0 && top[position - 1].probability < probability) position--
+      top.splice(position, 0, { index: i, probability })
+      if (top.length > limit) top.pop()
+    }
+    return top
+  }
+
+  private checkQubits(qubits: number[]): void {
+    if (new Set(qubits).size !== qubits.length || qubits.some((q) => q < 0 || q >= this.numQubits)) {
+      throw new Error("Control and target qubits must be distinct and within range")
+    }
+  }
+}
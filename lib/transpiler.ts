@@ -0,0 +1,491 @@
+// Transpiler for device topologies: places logical qubits on a coupling map, routes CNOTs between
+// uncoupled qubits with SWAPs and rewrites the result in a device's basis gates
+import { Circuit } from "@/lib/circuit"
+import { decomposeOperation, eulerAngles } from "@/lib/decompose"
+import { circuitMetrics, optimizeCircuit, type CircuitMetrics } from "@/lib/optimizer"
+import { resolveOperation, type GateOperation } from "@/lib/quantum-simulator"
+
+export interface CouplingMap {
+  name: string
+  numQubits: number
+  edges: Array<[number, number]> // undirected: a CNOT can run either way along an edge
+  positions?: Array<[number, number]> // drawing coordinates (column, row) of each qubit
+}
+
+export type CouplingMapPreset = "line" | "ring" | "grid" | "heavyHex"
+export type BasisName = "u3" | "ibm" | "rigetti" | "cliffordT"
+export type LayoutMethod = "trivial" | "greedy"
+
+export interface TranspileOptions {
+  basis?: BasisName // default "u3"
+  layout?: LayoutMethod | number[] // a method (default "greedy"), or the physical qubit of each logical qubit
+  optimize?: boolean // cancel redundant gates left by routing and translation (default true)
+}
+
+export interface TranspileResult {
+  circuit: Circuit // on the device's qubits, in the basis
+  routed: Circuit // on the device's qubits before basis translation, with the inserted SWAPs
+  couplingMap: CouplingMap
+  basis: BasisName
+  initialLayout: number[] // physical qubit holding each logical qubit at the start
+  finalLayout: number[] // and at the end, after the SWAPs
+  swaps: number
+  before: CircuitMetrics // the original circuit
+  unrouted: CircuitMetrics // the original in the basis, as if every pair of qubits were coupled
+  after: CircuitMetrics
+}
+
+const EPSILON = 1e-9
+
+export function createCouplingMap(
+  name: string,
+  numQubits: number,
+  edges: Array<[number, number]>,
+  positions?: Array<[number, number]>,
+): CouplingMap {
+  const seen = new Set<string>()
+  const unique: Array<[number, number]> = []
+  for (const [a, b] of edges) {
+    for (const q of [a, b]) {
+      if (!Number.isInteger(q) || q < 0 || q >= numQubits) {
+        throw new Error(`Coupling ${a}-${b}: qubit ${q} out of range for ${numQubits} qubits`)
+      }
+    }
+    if (a === b) throw new Error(`Coupling ${a}-${b} joins a qubit to itself`)
+    const key = a < b ? `${a}-${b}` : `${b}-${a}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    unique.push([a, b])
+  }
+  return { name, numQubits, edges: unique, ...(positions ? { positions } : {}) }
+}
+
+// Qubits evenly spaced on a circle of diameter n/2, for rings and custom maps
+export function circlePositions(numQubits: number): Array<[number, number]> {
+  const radius = Math.max(1, numQubits / 4)
+  return Array.from({ length: numQubits }, (_, q): [number, number] => {
+    const angle = (2 * Math.PI * q) / numQubits - Math.PI / 2
+    return [radius + radius * Math.cos(angle), radius + radius * Math.sin(angle)]
+  })
+}
+
+function lineEdges(numQubits: number): Array<[number, number]> {
+  return Array.from({ length: numQubits - 1 }, (_, i): [number, number] => [i, i + 1])
+}
+
+// IBM Falcon heavy-hex layouts: the 7-qubit r5.11H and the 16-qubit r4P
+const heavyHex7: Array<[number, number]> = [
+  [0, 1],
+  [1, 2],
+  [1, 3],
+  [3, 5],
+  [4, 5],
+  [5, 6],
+]
+const heavyHex7Positions: Array<[number, number]> = [
+  [0, 0],
+  [1, 0],
+  [2, 0],
+  [1, 1],
+  [0, 2],
+  [1, 2],
+  [2, 2],
+]
+const heavyHex16: Array<[number, number]> = [
+  [0, 1],
+  [1, 2],
+  [1, 4],
+  [2, 3],
+  [3, 5],
+  [4, 7],
+  [5, 8],
+  [6, 7],
+  [7, 10],
+  [8, 9],
+  [8, 11],
+  [10, 12],
+  [11, 14],
+  [12, 13],
+  [12, 15],
+  [13, 14],
+]
+const heavyHex16Positions: Array<[number, number]> = [
+  [0, 0],
+  [1, 0],
+  [2, 0],
+  [3, 0],
+  [1, 1],
+  [3, 1],
+  [0, 2],
+  [1, 2],
+  [3, 2],
+  [4, 2],
+  [1, 3],
+  [3, 3],
+  [1, 4],
+  [2, 4],
+  [3, 4],
+  [0, 4],
+]
+
+// Presets sized for a circuit: grids round up to a full rectangle, heavy-hex to the next device
+export const couplingMapPresets: Record<
+  CouplingMapPreset,
+  { label: string; create: (numQubits: number) => CouplingMap }
+> = {
+  line: {
+    label: "Line",
+    create: (n) =>
+      createCouplingMap(
+        `line ${n}`,
+        n,
+        lineEdges(n),
+        Array.from({ length: n }, (_, q): [number, number] => [q, 0]),
+      ),
+  },
+  ring: {
+    label: "Ring",
+    create: (n) =>
+      createCouplingMap(`ring ${n}`, n, n < 3 ? lineEdges(n) : [...lineEdges(n), [n - 1, 0]], circlePositions(n)),
+  },
+  grid: {
+    label: "Grid",
+    create: (n) => {
+      const cols = Math.ceil(Math.sqrt(n))
+      const rows = Math.ceil(n / cols)
+      const edges: Array<[number, number]> = []
+      for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+          const q = r * cols + c
+          if (c + 1 < cols) edges.push([q, q + 1])
+          if (r + 1 < rows) edges.push([q, q + cols])
+        }
+      }
+      const positions = Array.from({ length: rows * cols }, (_, q): [number, number] => [
+        q % cols,
+        Math.floor(q / cols),
+      ])
+      return createCouplingMap(`grid ${rows}×${cols}`, rows * cols, edges, positions)
+    },
+  },
+  heavyHex: {
+    label: "Heavy-hex",
+    create: (n) => {
+      if (n <= 7) return createCouplingMap("heavy-hex 7", 7, heavyHex7, heavyHex7Positions)
+      if (n <= 16) return createCouplingMap("heavy-hex 16", 16, heavyHex16, heavyHex16Positions)
+      throw new Error(`Heavy-hex presets have up to 16 qubits, the circuit has ${n}`)
+    },
+  },
+}
+
+// Custom coupling map from edges like "0-1, 1-2, 2-3" (commas, semicolons or new lines between edges)
+export function parseCouplingMap(text: string, name = "custom"): CouplingMap {
+  const edges = text
+    .split(/[,;\n]+/)
+    .map((part) => part.trim())
+    .filter((part) => part !== "")
+    .map((part): [number, number] => {
+      const match = part.match(/^(\d+)\s*(?:-|–|:|\s)\s*(\d+)$/)
+      if (!match) throw new Error(`Invalid coupling "${part}"; write edges as 0-1, 1-2`)
+      return [Number(match[1]), Number(match[2])]
+    })
+  if (edges.length === 0) throw new Error("The coupling map has no edges")
+  const numQubits = Math.max(...edges.flat()) + 1
+  return createCouplingMap(name, numQubits, edges, circlePositions(numQubits))
+}
+
+// Shortest-path distances between physical qubits (Infinity when disconnected)
+function distances(map: CouplingMap): number[][] {
+  const neighbours = neighbourLists(map)
+  return Array.from({ length: map.numQubits }, (_, start) => {
+    const distance = new Array<number>(map.numQubits).fill(Infinity)
+    distance[start] = 0
+    const queue = [start]
+    for (let i = 0; i < queue.length; i++) {
+      for (const next of neighbours[queue[i]]) {
+        if (distance[next] === Infinity) {
+          distance[next] = distance[queue[i]] + 1
+          queue.push(next)
+        }
+      }
+    }
+    return distance
+  })
+}
+
+function neighbourLists(map: CouplingMap): number[][] {
+  const neighbours: number[][] = Array.from({ length: map.numQubits }, () => [])
+  for (const [a, b] of map.edges) {
+    neighbours[a].push(b)
+    neighbours[b].push(a)
+  }
+  return neighbours
+}
+
+// Place the most-interacting logical qubits first, each on the free physical qubit closest to its
+// placed partners (weighted by how many CNOTs they share)
+function greedyLayout(operations: GateOperation[], numLogical: number, map: CouplingMap, distance: number[][]) {
+  const weight = Array.from({ length: numLogical }, () => new Array<number>(numLogical).fill(0))
+  for (const operation of operations) {
+    if (operation.type !== "cnot") continue
+    weight[operation.control!][operation.target]++
+    weight[operation.target][operation.control!]++
+  }
+  const total = weight.map((row) => row.reduce((sum, w) => sum + w, 0))
+  const degree = neighbourLists(map).map((list) => list.length)
+
+  const layout = new Array<number>(numLogical).fill(-1)
+  const used: number[] = []
+  for (let placed = 0; placed < numLogical; placed++) {
+    const unplaced = layout.map((p, l) => (p < 0 ? l : -1)).filter((l) => l >= 0)
+    const affinity = (l: number) => used.reduce((sum, p) => sum + weight[l][layout.indexOf(p)], 0)
+    const logical = unplaced.reduce((best, l) =>
+      affinity(l) > affinity(best) || (affinity(l) === affinity(best) && total[l] > total[best]) ? l : best,
+    )
+
+    const cost = (p: number) =>
+      layout.reduce(
+        (sum, q, l) => (q < 0 || weight[logical][l] === 0 ? sum : sum + weight[logical][l] * distance[p][q]),
+        0,
+      )
+    const spread = (p: number) => used.reduce((sum, q) => sum + Math.min(distance[p][q], map.numQubits), 0)
+    const free = Array.from({ length: map.numQubits }, (_, p) => p).filter((p) => !used.includes(p))
+    const physical = free.reduce((best, p) => {
+      const key = [cost(p) - cost(best), spread(p) - spread(best), degree[best] - degree[p]]
+      const first = key.find((k) => k !== 0)
+      return first !== undefined && first < 0 ? p : best
+    })
+
+    layout[logical] = physical
+    used.push(physical)
+  }
+  return layout
+}
+
+// Relabel an operation's qubits (after decomposition: single-qubit gates, CNOTs, measurements, resets)
+function relabel(operation: GateOperation, physical: (q: number) => number): GateOperation {
+  return {
+    ...operation,
+    target: physical(operation.target),
+    ...(operation.control !== undefined ? { control: physical(operation.control) } : {}),
+    ...(operation.targets ? { targets: operation.targets.map(physical) } : {}),
+  }
+}
+
+const single = (gate: string, target: number, params?: number[]): GateOperation => ({
+  type: "single",
+  gate,
+  target,
+  ...(params ? { params } : {}),
+})
+
+// Angle in (-π, π], or null when it is 0 mod 2π
+function rzAngle(angle: number): number | null {
+  const wrapped = angle - 2 * Math.PI * Math.round(angle / (2 * Math.PI))
+  if (Math.abs(wrapped) < EPSILON) return null
+  return Math.abs(wrapped + Math.PI) < EPSILON ? Math.PI : wrapped
+}
+
+const rz = (angle: number, target: number) => {
+  const wrapped = rzAngle(angle)
+  return wrapped === null ? [] : [single("RZ", target, [wrapped])]
+}
+
+// RZ(kπ/4) as T gates, up to a global phase
+const tPowers = [[], ["T"], ["S"], ["S", "T"], ["Z"], ["Z", "T"], ["Sdg"], ["Tdg"]]
+
+function cliffordTRz(angle: number, target: number): GateOperation[] {
+  const steps = angle / (Math.PI / 4)
+  const k = Math.round(steps)
+  if (Math.abs(steps - k) > 1e-6) {
+    throw new Error(
+      `RZ(${angle.toFixed(4)}) on q${target} needs an approximate synthesis; Clifford+T is exact only for multiples of π/4`,
+    )
+  }
+  return tPowers[((k % 8) + 8) % 8].map((gate) => single(gate, target))
+}
+
+const isAngle = (operation: GateOperation, angles: number[]) =>
+  operation.params !== undefined && angles.some((angle) => Math.abs(operation.params![0] - angle) < EPSILON)
+
+// Basis gate sets. Each translates any single-qubit gate, up to a global phase, from its Euler angles.
+// √X is written as RX(π/2), which equals it up to a global phase.
+export const basisGateSets: Record<
+  BasisName,
+  {
+    label: string
+    twoQubitGate: "CNOT" | "CZ"
+    inBasis: (operation: GateOperation) => boolean
+    translate: (theta: number, phi: number, lambda: number, target: number) => GateOperation[]
+  }
+> = {
+  u3: {
+    label: "U3 + CNOT",
+    twoQubitGate: "CNOT",
+    inBasis: (operation) => operation.gate === "U3",
+    translate: (theta, phi, lambda, target) =>
+      Math.abs(theta) < EPSILON && rzAngle(phi + lambda) === null ? [] : [single("U3", target, [theta, phi, lambda])],
+  },
+  ibm: {
+    label: "IBM: RZ, √X, X, CNOT",
+    twoQubitGate: "CNOT",
+    inBasis: (operation) =>
+      operation.gate === "RZ" ||
+      operation.gate === "X" ||
+      (operation.gate === "RX" && isAngle(operation, [Math.PI / 2])),
+    translate: (theta, phi, lambda, target) =>
+      Math.abs(theta) < EPSILON
+        ? rz(phi + lambda, target)
+        : [
+            ...rz(lambda, target),
+            single("RX", target, [Math.PI / 2]),
+            ...rz(theta + Math.PI, target),
+            single("RX", target, [Math.PI / 2]),
+            ...rz(phi + Math.PI, target),
+          ],
+  },
+  rigetti: {
+    label: "Rigetti: RZ, RX(±π/2, π), CZ",
+    twoQubitGate: "CZ",
+    inBasis: (operation) =>
+      operation.gate === "RZ" ||
+      (operation.gate === "RX" && isAngle(operation, [Math.PI / 2, -Math.PI / 2, Math.PI, -Math.PI])),
+    translate: (theta, phi, lambda, target) =>
+      Math.abs(theta) < EPSILON
+        ? rz(phi + lambda, target)
+        : [
+            ...rz(lambda, target),
+            single("RX", target, [Math.PI / 2]),
+            ...rz(theta, target),
+            single("RX", target, [-Math.PI / 2]),
+            ...rz(phi, target),
+          ],
+  },
+  cliffordT: {
+    label: "Clifford+T: H, S, T, CNOT",
+    twoQubitGate: "CNOT",
+    inBasis: (operation) => ["H", "S", "Sdg", "T", "Tdg", "X", "Y", "Z"].includes(operation.gate ?? ""),
+    translate: (theta, phi, lambda, target) => {
+      if (Math.abs(theta) < EPSILON) return cliffordTRz(rzAngle(phi + lambda) ?? 0, target)
+      const sx = [single("H", target), single("S", target), single("H", target)]
+      return [
+        ...cliffordTRz(rzAngle(lambda) ?? 0, target),
+        ...sx,
+        ...cliffordTRz(rzAngle(theta + Math.PI) ?? 0, target),
+        ...sx,
+        ...cliffordTRz(rzAngle(phi + Math.PI) ?? 0, target),
+      ]
+    },
+  },
+}
+
+// One operation of a decomposed or routed circuit in the basis, keeping its condition
+function toBasis(operation: GateOperation, basis: BasisName): GateOperation[] {
+  const { inBasis, translate, twoQubitGate } = basisGateSets[basis]
+  const condition = operation.condition ? { condition: operation.condition } : {}
+
+  if (operation.type === "measure" || operation.type === "reset") return [operation]
+  if (operation.type === "multi" && operation.gate === "SWAP") {
+    const [a, b] = operation.targets!
+    const cnot = (control: number, target: number): GateOperation => ({ type: "cnot", control, target, ...condition })
+    return [cnot(a, b), cnot(b, a), cnot(a, b)].flatMap((piece) => toBasis(piece, basis))
+  }
+  if (operation.type === "cnot") {
+    if (twoQubitGate === "CNOT") return [operation]
+    const hadamard = (q: number) => toBasis({ ...single("H", q), ...condition }, basis)
+    const cz: GateOperation = {
+      type: "controlled",
+      gate: "Z",
+      controls: [operation.control!],
+      target: operation.target,
+    }
+    return [...hadamard(operation.target), { ...cz, ...condition }, ...hadamard(operation.target)]
+  }
+  if (inBasis(operation)) return [operation]
+
+  const { theta, phi, lambda } = eulerAngles(resolveOperation(operation)!.gate)
+  return translate(theta, phi, lambda, operation.target).map((piece) => ({ ...piece, ...condition }))
+}
+
+// Lay out, route and translate a circuit for a coupling map. Routing walks the control of each
+// distant CNOT along a shortest path with SWAPs, so later gates see the updated layout.
+export function transpile(circuit: Circuit, couplingMap: CouplingMap, options: TranspileOptions = {}): TranspileResult {
+  const basis = options.basis ?? "u3"
+  if (couplingMap.numQubits < circuit.numQubits) {
+    throw new Error(`${couplingMap.name} has ${couplingMap.numQubits} qubits, the circuit needs ${circuit.numQubits}`)
+  }
+
+  const decomposed = circuit.operations.flatMap(decomposeOperation)
+  const distance = distances(couplingMap)
+  const neighbours = neighbourLists(couplingMap)
+  const layoutOption = options.layout ?? "greedy"
+  const initialLayout = Array.isArray(layoutOption)
+    ? layoutOption.slice()
+    : layoutOption === "trivial"
+      ? Array.from({ length: circuit.numQubits }, (_, q) => q)
+      : greedyLayout(decomposed, circuit.numQubits, couplingMap, distance)
+  if (
+    initialLayout.length !== circuit.numQubits ||
+    new Set(initialLayout).size !== initialLayout.length ||
+    initialLayout.some((p) => !Number.isInteger(p) || p < 0 || p >= couplingMap.numQubits)
+  ) {
+    throw new Error(`Layout must place each of the ${circuit.numQubits} qubits on a distinct physical qubit`)
+  }
+
+  const layout = initialLayout.slice()
+  const routedOperations: GateOperation[] = []
+  let swaps = 0
+
+  for (const operation of decomposed) {
+    if (operation.type === "cnot") {
+      const from = layout[operation.control!]
+      const to = layout[operation.target]
+      if (distance[from][to] === Infinity) {
+        throw new Error(`Physical qubits ${from} and ${to} are not connected in ${couplingMap.name}`)
+      }
+
+      // Step the control towards the target until they are coupled
+      let position = from
+      while (distance[position][to] > 1) {
+        const next = neighbours[position].find((p) => distance[p][to] === distance[position][to] - 1)!
+        routedOperations.push({ type: "multi", gate: "SWAP", target: position, targets: [position, next] })
+        swaps++
+        const moved = layout.indexOf(next)
+        layout[operation.control!] = next
+        if (moved >= 0) layout[moved] = position
+        position = next
+      }
+    }
+    routedOperations.push(relabel(operation, (q) => layout[q]))
+  }
+
+  const routed = new Circuit(couplingMap.numQubits, routedOperations, circuit.classicalRegisters)
+  let translated = new Circuit(
+    couplingMap.numQubits,
+    routedOperations.flatMap((operation) => toBasis(operation, basis)),
+    circuit.classicalRegisters,
+  )
+  const unrouted = new Circuit(
+    circuit.numQubits,
+    decomposed.flatMap((operation) => toBasis(operation, basis)),
+    circuit.classicalRegisters,
+  )
+
+  // Cancellation is safe in every basis; merging could leave it (RX(π/2)·RX(π/2) is not √X)
+  const cleanup = (target: Circuit) =>
+    options.optimize === false ? target : optimizeCircuit(target, { passes: ["identities", "cancellation"] }).circuit
+  translated = cleanup(translated)
+
+  return {
+    circuit: translated,
+    routed,
+    couplingMap,
+    basis,
+    initialLayout,
+    finalLayout: layout,
+    swaps,
+    before: circuitMetrics(circuit),
+    unrouted: circuitMetrics(cleanup(unrouted)),
+    after: circuitMetrics(translated),
+  }
+}
@@ -0,0 +1,177 @@
+// Unitary extraction: the 2^n×2^n operator a measurement-free circuit implements, built column by
+// column by running the circuit on each basis state, plus exact-value formatting for display and export.
+import type { Circuit } from "@/lib/circuit"
+import { isDynamic } from "@/lib/circuit-runner"
+import { resolveOperation, type Complex, type QuantumGate } from "@/lib/quantum-simulator"
+import { StateVector } from "@/lib/state-vector"
+
+export const MAX_UNITARY_QUBITS = 10
+
+export interface UnitaryOptions {
+  ignoreFinalMeasurements?: boolean // drop measurements instead of rejecting the circuit (static circuits only)
+}
+
+export class UnitaryMatrix {
+  readonly numQubits: number
+  readonly data: Float64Array // row-major interleaved [re, im]
+
+  constructor(numQubits: number, data: Float64Array) {
+    const size = 1 << numQubits
+    if (data.length !== size * size * 2) {
+      throw new Error(`Expected ${size * size * 2} interleaved values for ${numQubits} qubits, got ${data.length}`)
+    }
+    this.numQubits = numQubits
+    this.data = data
+  }
+
+  get size(): number {
+    return 1 << this.numQubits
+  }
+
+  entry(row: number, col: number): Complex {
+    const index = 2 * (row * this.size + col)
+    return { real: this.data[index], imag: this.data[index + 1] }
+  }
+
+  toGate(): QuantumGate {
+    return Array.from({ length: this.size }, (_, row) =>
+      Array.from({ length: this.size }, (_, col) => this.entry(row, col)),
+    )
+  }
+}
+
+// Column j of U is U|j⟩. Qubit 0 is the most significant bit of the row and column index.
+export function circuitUnitary(circuit: Circuit, options: UnitaryOptions = {}): UnitaryMatrix {
+  const { numQubits } = circuit
+  if (numQubits > MAX_UNITARY_QUBITS) {
+    throw new Error(`Unitary extraction supports up to ${MAX_UNITARY_QUBITS} qubits, got ${numQubits}`)
+  }
+  const hasMeasurements = circuit.operations.some((operation) => operation.type === "measure")
+  if (isDynamic(circuit) || (hasMeasurements && !options.ignoreFinalMeasurements)) {
+    throw new Error("A circuit only has a unitary without measurements, resets or classical conditions")
+  }
+
+  const gates = circuit.operations.flatMap((operation) => {
+    const resolved = resolveOperation(operation)
+    return resolved ? [resolved] : []
+  })
+  const size = 1 << numQubits
+  const data = new Float64Array(size * size * 2)
+  for (let col = 0; col < size; col++) {
+    const amplitudes = new Float64Array(size * 2)
+    amplitudes[2 * col] = 1
+    const state = new StateVector(numQubits, amplitudes)
+    for (const { gate, targets, controls } of gates) state.applyMultiQubitGate(gate, targets, controls)
+    for (let row = 0; row < size; row++) {
+      data[2 * (row * size + col)] = amplitudes[2 * row]
+      data[2 * (row * size + col) + 1] = amplitudes[2 * row + 1]
+    }
+  }
+  return new UnitaryMatrix(numQubits, data)
+}
+
+// A real number as numerator·√radicand/denominator, e.g. 1/√2 = 1·√2/2
+export interface ExactReal {
+  numerator: number // carries the sign
+  denominator: number
+  radicand: number // square-free, 1 for rationals
+}
+
+const EXACT_TOLERANCE = 1e-9
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b))
+
+// Recognise ±√(p/q) for small q, which covers the entries of Clifford+T style circuits
+export function exactReal(value: number, maxDenominator = 64): ExactReal | null {
+  if (Math.abs(value) < EXACT_TOLERANCE) return { numerator: 0, denominator: 1, radicand: 1 }
+  const sign = Math.sign(value)
+  const square = value * value
+  for (let q = 1; q <= maxDenominator; q++) {
+    const p = Math.round(square * q)
+    if (p === 0 || Math.abs(Math.sqrt(p / q) - Math.abs(value)) > EXACT_TOLERANCE) continue
+    // √(p/q) = √(pq)/q = k√m/q with m square-free
+    let k = 1
+    let m = p * q
+    for (let f = 2; f * f <= m; f++) {
+      while (m % (f * f) === 0) {
+        m /= f * f
+        k *= f
+      }
+    }
+    const divisor = gcd(k, q)
+    return { numerator: (sign * k) / divisor, denominator: q / divisor, radicand: m }
+  }
+  return null
+}
+
+export type MatrixFormat = "text" | "latex" | "numpy"
+
+function formatExactMagnitude(value: ExactReal, format: MatrixFormat): string {
+  const numerator = Math.abs(value.numerator)
+  const root =
+    value.radicand === 1
+      ? ""
+      : format === "latex"
+        ? `\\sqrt{${value.radicand}}`
+        : format === "numpy"
+          ? `np.sqrt(${value.radicand})`
+          : `√${value.radicand}`
+  const coefficient = numerator === 1 && root ? "" : `${numerator}${root && format === "numpy" ? "*" : ""}`
+  const top = `${coefficient}${root}`
+  if (value.denominator === 1) return top
+  return format === "latex" ? `\\frac{${top}}{${value.denominator}}` : `${top}/${value.denominator}`
+}
+
+const decimal = (value: number, digits: number) => String(Number(value.toFixed(digits)))
+
+export interface MatrixEntryOptions {
+  format?: MatrixFormat // default "text"
+  exact?: boolean // fractions and roots where recognised (default true)
+  digits?: number // decimal places otherwise (default 4)
+}
+
+// One matrix entry, exactly where exactReal recognises both parts and in decimals otherwise
+export function formatMatrixEntry(value: Complex, options: MatrixEntryOptions = {}): string {
+  const { format = "text", exact = true, digits = 4 } = options
+  const real = exact ? exactReal(value.real) : null
+  const imag = exact ? exactReal(value.imag) : null
+  const imagUnit = format === "numpy" ? "1j" : "i"
+
+  if (!real || !imag) {
+    if (format === "numpy")
+      return `(${value.real.toPrecision(12)}${value.imag < 0 ? "-" : "+"}${Math.abs(value.imag).toPrecision(12)}j)`
+    const re = decimal(value.real, digits)
+    const im = decimal(Math.abs(value.imag), digits)
+    if (Math.abs(value.imag) < 10 ** -digits / 2) return re
+    if (Math.abs(value.real) < 10 ** -digits / 2) return `${value.imag < 0 ? "-" : ""}${im}${imagUnit}`
+    return `${re}${value.imag < 0 ? " - " : " + "}${im}${imagUnit}`
+  }
+
+  const realPart = real.numerator === 0 ? "" : `${real.numerator < 0 ? "-" : ""}${formatExactMagnitude(real, format)}`
+  if (imag.numerator === 0) return realPart || "0"
+  const magnitude = formatExactMagnitude(imag, format)
+  const imagPart =
+    magnitude === "1"
+      ? imagUnit
+      : format === "numpy"
+        ? imag.radicand === 1
+          ? `${Math.abs(imag.numerator)}j${imag.denominator === 1 ? "" : `/${imag.denominator}`}`
+          : `1j*${magnitude}`
+        : format === "latex"
+          ? `${magnitude}i`
+          : `${magnitude}·i`
+  const sign = imag.numerator < 0 ? "-" : "+"
+  if (!realPart) return sign === "-" ? `-${imagPart}` : imagPart
+  return `${realPart} ${sign} ${imagPart}`
+}
+
+// The whole matrix as a NumPy array literal or a LaTeX bmatrix
+export function formatUnitary(unitary: UnitaryMatrix, format: "latex" | "numpy"): string {
+  const rows = Array.from({ length: unitary.size }, (_, row) =>
+    Array.from({ length: unitary.size }, (_, col) => formatMatrixEntry(unitary.entry(row, col), { format })),
+  )
+  if (format === "latex") {
+    return `\\begin{bmatrix}\n${rows.map((row) => `  ${row.join(" & ")}`).join(" \\\\\n")}\n\\end{bmatrix}`
+  }
+  return `import numpy as np\n\nU = np.array([\n${rows.map((row) => `    [${row.join(", ")}],`).join("\n")}\n], dtype=complex)`
+}
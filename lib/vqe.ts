@@ -0,0 +1,287 @@
+// Variational quantum eigensolver: a parameterized ansatz circuit, its energy ⟨ψ(θ)|H|ψ(θ)⟩ computed exactly on
+// the state vector, and a classical optimizer searching for the θ of lowest energy
+import { Circuit } from "@/lib/circuit"
+import { minimize, type ClassicalOptimizerName, type MinimizeOptions } from "@/lib/classical-optimizers"
+import { hermitianEigen } from "@/lib/entanglement"
+import { expectationValue, parsePauliSum, pauliSumMatrix, type PauliSum } from "@/lib/observables"
+import { resolveOperation, type GateOperation } from "@/lib/quantum-simulator"
+import { SeededRandom, randomSeed } from "@/lib/random"
+import { StateVector } from "@/lib/state-vector"
+
+export type AnsatzName = "hardware-efficient" | "ucc"
+export type MoleculeName = "h2-2q" | "h2-4q" | "lih-toy"
+
+export const MAX_VQE_QUBITS = 8
+// Largest Hamiltonian diagonalized for the exact reference energy
+export const MAX_EXACT_ENERGY_QUBITS = 6
+
+export interface AnsatzOptions {
+  layers?: number // repetitions of the ansatz block (default 1)
+  electrons?: number // occupied qubits in the UCC reference state (default half the qubits)
+}
+
+export interface VqeOptions extends AnsatzOptions, MinimizeOptions {
+  ansatz: AnsatzName
+  optimizer: ClassicalOptimizerName
+  initialParameters?: number[] // zeros for UCC, seeded random angles for the hardware-efficient ansatz
+}
+
+export interface VqeResult {
+  energy: number
+  parameters: number[]
+  history: number[] // energy after each optimizer iteration
+  iterations: number
+  evaluations: number
+  converged: boolean
+  seed: number
+  circuit: Circuit // the ansatz at the converged parameters
+  state: StateVector
+}
+
+const rotation = (gate: "RY" | "RZ", target: number, angle: number): GateOperation => ({
+  type: "single",
+  gate,
+  target,
+  params: [angle],
+})
+
+// exp(-iθ/2 · P) for a Pauli string P, q0 first: rotate each factor to Z, collect parity with a CNOT ladder,
+// apply RZ(θ) to the last qubit and undo
+export function pauliRotation(paulis: string, angle: number): GateOperation[] {
+  const qubits = Array.from(paulis, (_, q) => q).filter((q) => paulis[q] !== "I")
+  if (qubits.length === 0) return []
+  const into: GateOperation[] = []
+  const out: GateOperation[] = []
+  for (const q of qubits) {
+    if (paulis[q] === "X") {
+      into.push({ type: "single", gate: "H", target: q })
+      out.unshift({ type: "single", gate: "H", target: q })
+    } else if (paulis[q] === "Y") {
+      into.push({ type: "single", gate: "Sdg", target: q }, { type: "single", gate: "H", target: q })
+      out.unshift({ type: "single", gate: "H", target: q }, { type: "single", gate: "S", target: q })
+    }
+  }
+  const ladder: GateOperation[] = qubits
+    .slice(1)
+    .map((target, i) => ({ type: "cnot", control: qubits[i], target }) as GateOperation)
+  const last = qubits[qubits.length - 1]
+  return [...into, ...ladder, rotation("RZ", last, angle), ...ladder.slice().reverse(), ...out]
+}
+
+// Jordan–Wigner string for one hop: the given operators on the end qubits, Z on those strictly between
+function hop(paulis: string[], from: number, to: number, first: string, second: string): void {
+  paulis[from] = first
+  paulis[to] = second
+  for (let q = from + 1; q < to; q++) paulis[q] = paulis[q] === "Z" ? "I" : "Z"
+}
+
+// Occupied-to-virtual excitations of the reference state with `electrons` leading occupied qubits
+function excitations(numQubits: number, electrons: number) {
+  const occupied = Array.from({ length: electrons }, (_, q) => q)
+  const virtual = Array.from({ length: numQubits - electrons }, (_, q) => q + electrons)
+  const singles = occupied.flatMap((i) => virtual.map((a) => [i, a]))
+  const pairs = (qubits: number[]) => qubits.flatMap((x, k) => qubits.slice(k + 1).map((y) => [x, y]))
+  const doubles = pairs(occupied).flatMap(([i, j]) => pairs(virtual).map(([a, b]) => [i, j, a, b]))
+  return { singles, doubles }
+}
+
+// Pauli rotations implementing exp(θ (a† a - h.c.)) for a single or double excitation under Jordan–Wigner.
+// The strings of one excitation commute, so their product is exact.
+function excitationRotations(orbitals: number[], numQubits: number, theta: number): GateOperation[] {
+  const string = (operators: string) => {
+    const paulis = new Array<string>(numQubits).fill("I")
+    if (orbitals.length === 2) {
+      hop(paulis, orbitals[0], orbitals[1], operators[0], operators[1])
+    } else {
+      hop(paulis, orbitals[0], orbitals[1], operators[0], operators[1])
+      hop(paulis, orbitals[2], orbitals[3], operators[2], operators[3])
+    }
+    return paulis.join("")
+  }
+  const terms: Array<[string, number]> =
+    orbitals.length === 2
+      ? [
+          ["YX", 1],
+          ["XY", -1],
+        ]
+      : [
+          ["XXXY", 1],
+          ["XXYX", 1],
+          ["XYXX", -1],
+          ["YXXX", -1],
+          ["XYYY", 1],
+          ["YXYY", 1],
+          ["YYXY", -1],
+          ["YYYX", -1],
+        ]
+  const scale = orbitals.length === 2 ? 1 : 0.25
+  return terms.flatMap(([operators, sign]) => pauliRotation(string(operators), sign * scale * theta))
+}
+
+const electronsOf = (numQubits: number, options: AnsatzOptions) => {
+  const electrons = options.electrons ?? Math.floor(numQubits / 2)
+  if (!Number.isInteger(electrons) || electrons < 0 || electrons > numQubits) {
+    throw new Error(`Electrons must be between 0 and ${numQubits}, got ${electrons}`)
+  }
+  return electrons
+}
+
+export const ansatze: Record<
+  AnsatzName,
+  {
+    label: string
+    description: string
+    parameterCount: (numQubits: number, options: AnsatzOptions) => number
+    operations: (numQubits: number, parameters: number[], options: AnsatzOptions) => GateOperation[]
+  }
+> = {
+  "hardware-efficient": {
+    label: "Hardware-efficient",
+    description: "RY and RZ on every qubit, then a CNOT chain, per layer, with a final rotation layer",
+    parameterCount: (numQubits, { layers = 1 }) => 2 * numQubits * (layers + 1),
+    operations: (numQubits, parameters, { layers = 1 }) => {
+      const operations: GateOperation[] = []
+      let next = 0
+      for (let layer = 0; layer <= layers; layer++) {
+        for (let q = 0; q < numQubits; q++) {
+          operations.push(rotation("RY", q, parameters[next++]), rotation("RZ", q, parameters[next++]))
+        }
+        if (layer === layers) break
+        for (let q = 0; q + 1 < numQubits; q++) operations.push({ type: "cnot", control: q, target: q + 1 })
+      }
+      return operations
+    },
+  },
+  ucc: {
+    label: "UCC (singles and doubles)",
+    description:
+      "Hartree–Fock reference with the leading qubits occupied, then Jordan–Wigner single and double excitations",
+    parameterCount: (numQubits, options) => {
+      const { singles, doubles } = excitations(numQubits, electronsOf(numQubits, options))
+      return (singles.length + doubles.length) * (options.layers ?? 1)
+    },
+    operations: (numQubits, parameters, options) => {
+      const electrons = electronsOf(numQubits, options)
+      const { singles, doubles } = excitations(numQubits, electrons)
+      const operations: GateOperation[] = Array.from({ length: electrons }, (_, q) => ({
+        type: "single",
+        gate: "X",
+        target: q,
+      }))
+      let next = 0
+      for (let layer = 0; layer < (options.layers ?? 1); layer++) {
+        for (const orbitals of [...singles, ...doubles]) {
+          operations.push(...excitationRotations(orbitals, numQubits, parameters[next++]))
+        }
+      }
+      return operations
+    },
+  },
+}
+
+export const ansatzNames = Object.keys(ansatze) as AnsatzName[]
+
+// Energies are in hartree. H₂ coefficients are the standard STO-3G values at the equilibrium bond length.
+export const molecules: Record<
+  MoleculeName,
+  { label: string; description: string; numQubits: number; electrons: number; hamiltonian: string }
+> = {
+  "h2-2q": {
+    label: "H₂ (2 qubits)",
+    description: "STO-3G at 0.735 Å, parity mapping with two qubits tapered off; electronic energy only",
+    numQubits: 2,
+    electrons: 1,
+    hamiltonian:
+      "-1.052373245772859 + 0.39793742484318045*Z0 - 0.39793742484318045*Z1 - 0.01128010425623538*Z0*Z1 + 0.18093119978423156*X0*X1",
+  },
+  "h2-4q": {
+    label: "H₂ (4 qubits)",
+    description: "STO-3G at 0.7414 Å, Jordan–Wigner with spin orbitals interleaved; includes nuclear repulsion",
+    numQubits: 4,
+    electrons: 2,
+    hamiltonian: [
+      "-0.09706626816762878",
+      "+ 0.17141282644776884*Z0 + 0.17141282644776884*Z1 - 0.22343153690813564*Z2 - 0.22343153690813564*Z3",
+      "+ 0.16868898170361213*Z0*Z1 + 0.12062523483390425*Z0*Z2 + 0.16592785033770352*Z0*Z3",
+      "+ 0.16592785033770352*Z1*Z2 + 0.12062523483390425*Z1*Z3 + 0.17441287612261583*Z2*Z3",
+      "- 0.04530261550379927*XXYY + 0.04530261550379927*XYYX + 0.04530261550379927*YXXY - 0.04530261550379927*YYXX",
+    ].join(" "),
+  },
+  "lih-toy": {
+    label: "LiH (toy, 4 qubits)",
+    description:
+      "Illustrative four-qubit active space with LiH-like magnitudes, not the output of a chemistry calculation",
+    numQubits: 4,
+    electrons: 2,
+    hamiltonian: [
+      "-7.4983",
+      "+ 0.1613*Z0 + 0.1613*Z1 - 0.0139*Z2 - 0.0139*Z3",
+      "+ 0.1209*Z0*Z1 + 0.0537*Z0*Z2 + 0.0566*Z0*Z3 + 0.0566*Z1*Z2 + 0.0537*Z1*Z3 + 0.0847*Z2*Z3",
+      "+ 0.0126*XZXI + 0.0126*YZYI + 0.0126*IXZX + 0.0126*IYZY",
+      "- 0.0029*XXYY + 0.0029*XYYX + 0.0029*YXXY - 0.0029*YYXX",
+    ].join(" "),
+  },
+}
+
+export const moleculeNames = Object.keys(molecules) as MoleculeName[]
+
+export function moleculeHamiltonian(name: MoleculeName): PauliSum {
+  const molecule = molecules[name]
+  return parsePauliSum(molecule.hamiltonian, molecule.numQubits)
+}
+
+// Lowest eigenvalue by exact diagonalization
+export function groundStateEnergy(hamiltonian: PauliSum): number {
+  if (hamiltonian.numQubits > MAX_EXACT_ENERGY_QUBITS) {
+    throw new Error(`Exact energies are computed up to ${MAX_EXACT_ENERGY_QUBITS} qubits, got ${hamiltonian.numQubits}`)
+  }
+  return Math.min(...hermitianEigen(pauliSumMatrix(hamiltonian), 1 << hamiltonian.numQubits).values)
+}
+
+export function buildAnsatz(name: AnsatzName, numQubits: number, parameters: number[], options: AnsatzOptions = {}) {
+  return new Circuit(numQubits, ansatze[name].operations(numQubits, parameters, options))
+}
+
+function simulate(numQubits: number, operations: GateOperation[]): StateVector {
+  const state = new StateVector(numQubits)
+  for (const operation of operations) {
+    const resolved = resolveOperation(operation)
+    if (resolved) state.applyMultiQubitGate(resolved.gate, resolved.targets, resolved.controls)
+  }
+  return state
+}
+
+export function runVqe(hamiltonian: PauliSum, options: VqeOptions): VqeResult {
+  const { numQubits } = hamiltonian
+  if (numQubits > MAX_VQE_QUBITS) throw new Error(`VQE runs up to ${MAX_VQE_QUBITS} qubits, got ${numQubits}`)
+  const ansatz = ansatze[options.ansatz]
+  if (!ansatz) throw new Error(`Unknown ansatz "${options.ansatz}"`)
+  const count = ansatz.parameterCount(numQubits, options)
+  if (count === 0) throw new Error(`The ${ansatz.label} ansatz has no parameters for ${numQubits} qubits`)
+
+  const seed = options.seed ?? randomSeed()
+  const rng = new SeededRandom(seed)
+  const initial =
+    options.initialParameters ??
+    Array.from({ length: count }, () => (options.ansatz === "ucc" ? 0 : (rng.next() * 2 - 1) * Math.PI))
+  if (initial.length !== count) {
+    throw new Error(`The ${ansatz.label} ansatz takes ${count} parameters, got ${initial.length}`)
+  }
+
+  const energy = (parameters: number[]) =>
+    expectationValue(simulate(numQubits, ansatz.operations(numQubits, parameters, options)), hamiltonian)
+  const result = minimize(options.optimizer, energy, initial, { ...options, seed })
+  const operations = ansatz.operations(numQubits, result.x, options)
+
+  return {
+    energy: result.value,
+    parameters: result.x,
+    history: result.history,
+    iterations: result.iterations,
+    evaluations: result.evaluations,
+    converged: result.converged,
+    seed,
+    circuit: new Circuit(numQubits, operations),
+    state: simulate(numQubits, operations),
+  }
+}